@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp';
+import { POST } from './route';
+
+// 4×2 image: left half red, right half blue
+async function createTestImage(): Promise<Blob> {
+  const pixels = Buffer.alloc(4 * 2 * 4);
+  for (let y = 0; y < 2; y++) {
+    for (let x = 0; x < 4; x++) {
+      const i = (y * 4 + x) * 4;
+      pixels[i] = x < 2 ? 255 : 0;
+      pixels[i + 2] = x < 2 ? 0 : 255;
+      pixels[i + 3] = 255;
+    }
+  }
+  const png = await sharp(pixels, { raw: { width: 4, height: 2, channels: 4 } }).png().toBuffer();
+  return new Blob([new Uint8Array(png)], { type: 'image/png' });
+}
+
+function cropRequest(fields: Record<string, string | Blob>) {
+  const form = new FormData();
+  Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+  return new Request('http://localhost/api/crop', { method: 'POST', body: form });
+}
+
+async function decode(response: Response) {
+  return sharp(Buffer.from(await response.arrayBuffer()))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+}
+
+describe('POST /api/crop', () => {
+  it('crops to the requested region and encodes the requested format', async () => {
+    const response = await POST(cropRequest({
+      image: await createTestImage(),
+      transform: JSON.stringify({ crop: { unit: 'px', x: 2, y: 0, width: 2, height: 2 } }),
+      output: JSON.stringify({ format: 'png' }),
+    }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+
+    const { data, info } = await decode(response);
+    expect(info.width).toBe(2);
+    expect(info.height).toBe(2);
+    expect([data[0], data[1], data[2]]).toEqual([0, 0, 255]);
+  });
+
+  it('applies flips and output scale', async () => {
+    const response = await POST(cropRequest({
+      image: await createTestImage(),
+      transform: JSON.stringify({ flipHorizontal: true }),
+      output: JSON.stringify({ format: 'png', scale: 2 }),
+    }));
+
+    const { data, info } = await decode(response);
+    expect(info.width).toBe(8);
+    expect(info.height).toBe(4);
+    // Flipped, so the top-left pixel is now blue
+    expect([data[0], data[1], data[2]]).toEqual([0, 0, 255]);
+  });
+
+  it('resamples to an exact output size', async () => {
+    const response = await POST(cropRequest({
+      image: await createTestImage(),
+      output: JSON.stringify({ format: 'png', width: 6, height: 6 }),
+    }));
+
+    const { info } = await decode(response);
+    expect([info.width, info.height]).toEqual([6, 6]);
+    expect(response.headers.get('X-Image-Width')).toBe('6');
+  });
+
+  it('records the requested print resolution', async () => {
+    const response = await POST(cropRequest({
+      image: await createTestImage(),
+      output: JSON.stringify({ format: 'jpeg', dpi: 300 }),
+    }));
+
+    const info = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+    expect(info.density).toBe(300);
+  });
+
+  it('rejects missing images and invalid transforms', async () => {
+    const missing = await POST(cropRequest({ transform: '{}' }));
+    expect(missing.status).toBe(400);
+
+    const invalid = await POST(cropRequest({
+      image: await createTestImage(),
+      transform: JSON.stringify({ zoom: 'big' }),
+    }));
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: '"zoom" must be a finite number' });
+
+    const unknownFilter = await POST(cropRequest({
+      image: await createTestImage(),
+      transform: JSON.stringify({ filter: 'lut-brand-warm' }),
+    }));
+    expect(unknownFilter.status).toBe(400);
+    expect(await unknownFilter.json()).toEqual({ error: 'Unknown filter "lut-brand-warm"' });
+  });
+
+  it('refuses outputs and images too large to render', async () => {
+    const scaled = await POST(cropRequest({
+      image: await createTestImage(),
+      output: JSON.stringify({ scale: 100000 }),
+    }));
+    expect(scaled.status).toBe(400);
+
+    const huge = await POST(cropRequest({
+      image: await createTestImage(),
+      transform: JSON.stringify({ crop: { unit: 'px', x: 0, y: 0, width: 100000, height: 100000 } }),
+    }));
+    expect(huge.status).toBe(413);
+    expect((await huge.json()).error).toMatch('Output of 100000×100000 exceeds');
+
+    // Compresses to a few kilobytes but decodes to 64 megapixels
+    const png = await sharp({ create: { width: 8000, height: 8000, channels: 3, background: '#000000' } }).png().toBuffer();
+    const large = await POST(cropRequest({ image: new Blob([new Uint8Array(png)], { type: 'image/png' }) }));
+    expect(large.status).toBe(413);
+    expect(await large.json()).toEqual({ error: '"image" exceeds 50 megapixels' });
+  });
+});
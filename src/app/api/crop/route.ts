@@ -0,0 +1,139 @@
+import sharp from 'sharp';
+import {
+  MAX_OUTPUT_PIXELS,
+  MAX_OUTPUT_SIDE,
+  getOutputSize,
+  getRotatedFrame,
+  parseCropOutput,
+  parseCropTransform,
+  renderCrop,
+  resolvePixelCrop,
+  toCropOperations,
+  type CropOutput,
+  type CropTransform,
+  type PixelBuffer,
+} from '@/lib/cropUtils';
+import { getFilter } from '@/lib/filters';
+import { writeResolution } from '@/lib/metadata';
+
+export const runtime = 'nodejs';
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // Same 10MB limit as the upload UI
+// A small compressed file can decode to far more pixels than its size suggests
+const MAX_INPUT_PIXELS = 50_000_000;
+
+const errorResponse = (message: string, status: number) =>
+  Response.json({ error: message }, { status });
+
+function parseJsonField(value: FormDataEntryValue | null, field: string): unknown {
+  if (value === null) return undefined;
+  if (typeof value !== 'string') throw new Error(`"${field}" must be a JSON string`);
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`"${field}" is not valid JSON`);
+  }
+}
+
+/**
+ * Renders a crop on the server.
+ *
+ * Expects `multipart/form-data` with:
+ * - `image`: the source image file
+ * - `transform`: JSON `CropTransform` (crop, rotation, flips, zoom, adjustments, filter)
+ * - `output`: optional JSON `CropOutput` (format, quality, scale or an exact width/height, dpi)
+ *
+ * Responds with the encoded image bytes, or `{ error }` with status 400 for
+ * invalid requests, 413 when the image or the output is too large, or 500
+ * when rendering fails.
+ */
+export async function POST(request: Request) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return errorResponse('Expected multipart/form-data', 400);
+  }
+
+  const image = form.get('image');
+  if (!(image instanceof Blob)) return errorResponse('"image" file is required', 400);
+  if (image.size > MAX_UPLOAD_BYTES) return errorResponse('"image" exceeds 10MB', 413);
+
+  let transform: CropTransform;
+  let output: CropOutput;
+  try {
+    transform = parseCropTransform(parseJsonField(form.get('transform'), 'transform') ?? {});
+    output = parseCropOutput(parseJsonField(form.get('output'), 'output'));
+  } catch (error) {
+    return errorResponse((error as Error).message, 400);
+  }
+  // Unknown ids, e.g. looks imported in a browser, would otherwise render unfiltered
+  if (transform.filter !== null && !getFilter(transform.filter)) {
+    return errorResponse(`Unknown filter "${transform.filter}"`, 400);
+  }
+
+  const bytes = Buffer.from(await image.arrayBuffer());
+  let decoded: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    // The header tells the size without decoding the pixels
+    const { width = 0, height = 0 } = await sharp(bytes).metadata();
+    if (width * height > MAX_INPUT_PIXELS) {
+      return errorResponse(`"image" exceeds ${MAX_INPUT_PIXELS / 1_000_000} megapixels`, 413);
+    }
+    // rotate() with no angle applies EXIF orientation, as browsers do when displaying the upload
+    decoded = await sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+  } catch {
+    return errorResponse('Unsupported or corrupt image', 400);
+  }
+
+  const frame = getRotatedFrame(decoded.info.width, decoded.info.height, transform.rotation, transform.rotationMode);
+  const size = getOutputSize(resolvePixelCrop(transform.crop, transform.zoom, frame.width, frame.height), output);
+  if (size.width > MAX_OUTPUT_SIDE || size.height > MAX_OUTPUT_SIDE || size.width * size.height > MAX_OUTPUT_PIXELS) {
+    return errorResponse(
+      `Output of ${size.width}×${size.height} exceeds ${MAX_OUTPUT_SIDE} pixels a side or ${MAX_OUTPUT_PIXELS / 1_000_000} megapixels`,
+      413
+    );
+  }
+
+  let rendered: PixelBuffer;
+  let body: Uint8Array;
+  try {
+    rendered = renderCrop(
+      {
+        data: new Uint8ClampedArray(decoded.data.buffer, decoded.data.byteOffset, decoded.data.length),
+        width: decoded.info.width,
+        height: decoded.info.height,
+      },
+      toCropOperations(transform),
+      output
+    );
+
+    const encoder = sharp(Buffer.from(rendered.data.buffer), {
+      raw: { width: rendered.width, height: rendered.height, channels: 4 },
+    });
+    const quality = Math.round(output.quality * 100);
+    const encoded = await (output.format === 'png'
+      ? encoder.png()
+      : output.format === 'webp'
+        ? encoder.webp({ quality })
+        : encoder.flatten({ background: '#000000' }).jpeg({ quality })
+    ).toBuffer();
+    body = output.dpi ? writeResolution(new Uint8Array(encoded), output.dpi) : new Uint8Array(encoded);
+  } catch (error) {
+    console.error('Error rendering crop:', error);
+    return errorResponse('Rendering the image failed', 500);
+  }
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': `image/${output.format}`,
+      'Content-Length': String(body.length),
+      'X-Image-Width': String(rendered.width),
+      'X-Image-Height': String(rendered.height),
+    },
+  });
+}
@@ -2,8 +2,15 @@ import ImageCropper from '@/components/ImageCropper';
 
 export default function Home() {
   return (
-    <div className="min-h-screen">
-      <ImageCropper />
+    <div className="min-h-screen bg-gray-50 py-10 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Image Cropper</h1>
+          <p className="text-gray-600">Upload, crop, and convert your images with precision</p>
+        </div>
+
+        <ImageCropper />
+      </div>
     </div>
   );
 }
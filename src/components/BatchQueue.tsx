@@ -0,0 +1,74 @@
+import React from 'react';
+import type { CropRegion } from '@/lib/cropUtils';
+
+/**
+ * An image queued for batch cropping. `crop` is the image's own crop once the
+ * user has worked on it; until then the shared preset crop is used.
+ */
+export interface BatchItem {
+  id: string;
+  name: string;
+  src: string;
+  crop: CropRegion | null;
+}
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Filmstrip of the images in a batch.
+ */
+export default function BatchQueue({ items, activeId, onSelect, onRemove }: BatchQueueProps) {
+  return (
+    <div className="bg-gray-50 rounded-lg border border-gray-200 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-medium text-gray-700">Batch ({items.length} images)</h3>
+        <span className="text-xs text-gray-500">
+          Rotation, zoom, flips, adjustments, filter and preset apply to every image
+        </span>
+      </div>
+      <div className="overflow-x-auto pb-1">
+        <div className="flex space-x-3">
+          {items.map((item, index) => (
+            <div key={item.id} className="relative flex-shrink-0 w-20">
+              <button
+                type="button"
+                onClick={() => onSelect(item.id)}
+                className={`block w-20 h-20 rounded-md overflow-hidden border bg-gray-200 transition-all ${
+                  item.id === activeId ? 'ring-2 ring-primary ring-offset-2' : 'border-gray-300 hover:scale-105'
+                }`}
+                aria-label={`Edit ${item.name}`}
+                aria-current={item.id === activeId}
+              >
+                <div
+                  className="w-full h-full"
+                  style={{
+                    backgroundImage: `url(${item.src})`,
+                    backgroundSize: 'cover',
+                    backgroundPosition: 'center',
+                  }}
+                ></div>
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(item.id)}
+                className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-white border border-gray-300 text-gray-500 hover:text-red-500 text-xs leading-none"
+                aria-label={`Remove ${item.name}`}
+              >
+                ×
+              </button>
+              <div className="mt-1 text-xs text-gray-600 truncate" title={item.name}>
+                {index + 1}. {item.name}
+              </div>
+              {item.crop && <div className="text-[10px] text-primary">Own crop</div>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
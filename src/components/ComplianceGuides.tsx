@@ -0,0 +1,78 @@
+import React from 'react';
+import type { HeadMarkers, PhotoRuleSet } from '@/lib/photoCompliance';
+
+interface ComplianceGuidesProps {
+  ruleSet: PhotoRuleSet;
+  markers: HeadMarkers;
+  /** Moves a marker to a position from 0 (top of the crop) to 1 (bottom) */
+  onMove: (marker: keyof HeadMarkers, position: number) => void;
+}
+
+const HEAD_MARKER_LABELS: Record<keyof HeadMarkers, string> = { crown: 'Crown', eyes: 'Eyes', chin: 'Chin' };
+
+const percent = (fraction: number) => `${fraction * 100}%`;
+
+/**
+ * Guides drawn inside the crop selection: where the chin has to land for the
+ * head size to pass, the allowed eye line, and the crown, eye and chin markers,
+ * dragged or nudged with the arrow keys.
+ */
+export default function ComplianceGuides({ ruleSet, markers, onMove }: ComplianceGuidesProps) {
+  const { headHeight, eyeHeight } = ruleSet;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (marker: keyof HeadMarkers) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.hasPointerCapture?.(e.pointerId)) return;
+    const selection = e.currentTarget.parentElement?.getBoundingClientRect();
+    if (!selection || selection.height === 0) return;
+    onMove(marker, (e.clientY - selection.top) / selection.height);
+  };
+
+  const handleKeyDown = (marker: keyof HeadMarkers) => (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+    // Keep ReactCrop from moving the selection too
+    e.preventDefault();
+    e.stopPropagation();
+    onMove(marker, markers[marker] + (e.key === 'ArrowUp' ? -0.005 : 0.005));
+  };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <div
+        className="absolute inset-x-0 bg-green-400/25 border-y border-green-500/60"
+        style={{ top: percent(markers.crown + headHeight.min), height: percent(headHeight.max - headHeight.min) }}
+      />
+      {eyeHeight && (
+        <div
+          className="absolute inset-x-0 bg-sky-400/25 border-y border-sky-500/60"
+          style={{ top: percent(1 - eyeHeight.max), height: percent(eyeHeight.max - eyeHeight.min) }}
+        />
+      )}
+      {(Object.keys(HEAD_MARKER_LABELS) as (keyof HeadMarkers)[]).map(marker => (
+        <div
+          key={marker}
+          role="slider"
+          tabIndex={0}
+          aria-label={`${HEAD_MARKER_LABELS[marker]} guide`}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(markers[marker] * 100)}
+          className="absolute inset-x-0 h-3 -translate-y-1/2 cursor-ns-resize pointer-events-auto"
+          style={{ top: percent(markers[marker]) }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove(marker)}
+          onKeyDown={handleKeyDown(marker)}
+        >
+          <div className="absolute inset-x-0 top-1/2 border-t-2 border-dashed border-yellow-300" />
+          <span className="absolute left-1 -top-3 text-[10px] font-medium bg-black/70 text-white px-1 rounded">
+            {HEAD_MARKER_LABELS[marker]}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
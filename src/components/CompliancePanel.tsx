@@ -0,0 +1,60 @@
+import React from 'react';
+import type { PhotoRuleSet, RuleResult } from '@/lib/photoCompliance';
+
+interface CompliancePanelProps {
+  /** Rule sets offered for the applied preset */
+  ruleSets: PhotoRuleSet[];
+  /** The rule set being checked, or null when not checking */
+  ruleSet: PhotoRuleSet | null;
+  results: RuleResult[] | null;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * Picks the passport/ID photo rules to check a document preset against, and
+ * lists which of them the photo passes.
+ */
+export default function CompliancePanel({ ruleSets, ruleSet, results, onSelect }: CompliancePanelProps) {
+  return (
+    <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-sm font-medium text-gray-700">Photo Requirements</h3>
+        <select
+          value={ruleSet?.id ?? ''}
+          onChange={(e) => onSelect(e.target.value)}
+          className="rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+          aria-label="Photo rules"
+        >
+          <option value="">Don&apos;t check</option>
+          {ruleSets.map(candidate => (
+            <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+          ))}
+        </select>
+      </div>
+      {ruleSet && (
+        <>
+          <p className="text-xs text-gray-500 mt-2">
+            Drag the crown, eyes and chin guides onto the face. The chin must land in the green band
+            {ruleSet.eyeHeight ? ' and the eyes in the blue band' : ''}.
+          </p>
+          {results && (
+            <ul className="mt-2 space-y-1">
+              {results.map(result => (
+                <li key={result.id} className="flex items-start gap-2 text-xs">
+                  <span className={result.passed ? 'text-green-600' : 'text-red-600'} aria-hidden="true">
+                    {result.passed ? '✓' : '✗'}
+                  </span>
+                  <span>
+                    <span className="font-medium text-gray-700">{result.label}</span>
+                    <span className="sr-only">{result.passed ? ' passes' : ' fails'}</span>
+                    <span className="text-gray-500">: {result.detail}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { CustomPresets } from '@/hooks/useCustomPresets';
+import { downloadBlob } from '@/lib/download';
+import type { CropPreset } from '@/lib/presets';
+import { DEFAULT_DPI, LENGTH_UNITS, type LengthUnit } from '@/lib/units';
+import { cn } from '@/lib/utils';
+
+// Custom preset being created or edited; sizes stay text while typing
+interface PresetForm {
+  /** Name of the preset being edited, or null for a new one */
+  editing: string | null;
+  name: string;
+  category: string;
+  width: string;
+  height: string;
+  unit: LengthUnit;
+  dpi: string;
+  description: string;
+}
+
+const PRESET_FILENAME = 'crop-presets.json';
+
+interface CustomPresetEditorProps {
+  customPresets: CustomPresets;
+  /** Categories suggested for a preset */
+  categories: string[];
+  /** The applied preset, which can be edited or deleted when it is a custom one */
+  appliedPreset: CropPreset | null;
+  /** Size of the crop in source pixels, which new presets start from */
+  cropSize: { width: number; height: number } | null;
+  /** Called with a preset once it is saved, and its name before editing */
+  onSave: (preset: CropPreset, previousName: string | null) => void;
+  onImport: (presets: CropPreset[]) => void;
+}
+
+/**
+ * Creates, edits and deletes the user's own presets, and shares them as JSON
+ * files.
+ */
+export default function CustomPresetEditor({
+  customPresets,
+  categories,
+  appliedPreset,
+  cropSize,
+  onSave,
+  onImport,
+}: CustomPresetEditorProps) {
+  const [form, setForm] = useState<PresetForm | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  // The form starts from the preset being edited, or from the current selection
+  const openForm = (preset?: CropPreset) => {
+    setMessage(null);
+    setForm(preset
+      ? {
+        editing: preset.name,
+        name: preset.name,
+        category: preset.category,
+        width: String(preset.width),
+        height: String(preset.height),
+        unit: preset.unit,
+        dpi: preset.dpi ? String(preset.dpi) : '',
+        description: preset.description ?? '',
+      }
+      : {
+        editing: null,
+        name: '',
+        category: 'Custom',
+        width: cropSize ? String(cropSize.width) : '',
+        height: cropSize ? String(cropSize.height) : '',
+        unit: 'px',
+        dpi: '',
+        description: '',
+      });
+  };
+
+  const submitForm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    try {
+      const preset = customPresets.savePreset({
+        name: form.name,
+        category: form.category,
+        width: Number(form.width),
+        height: Number(form.height),
+        unit: form.unit,
+        dpi: form.unit !== 'px' && form.dpi ? Number(form.dpi) : undefined,
+        description: form.description || undefined,
+      }, form.editing ?? undefined);
+
+      onSave(preset, form.editing);
+      setForm(null);
+      setMessage(null);
+    } catch (error) {
+      setMessage({ text: (error as Error).message, isError: true });
+    }
+  };
+
+  const deletePreset = (name: string) => {
+    customPresets.removePreset(name);
+    if (form?.editing === name) setForm(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = customPresets.importPresets(await file.text());
+      onImport(imported);
+      setMessage({ text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`, isError: false });
+    } catch (error) {
+      setMessage({ text: (error as Error).message, isError: true });
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([customPresets.exportPresets()], { type: 'application/json' }), PRESET_FILENAME);
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => openForm()} className="text-xs">
+          New Preset
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => importRef.current?.click()} className="text-xs">
+          Import Presets
+        </Button>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+          aria-label="Preset file"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={customPresets.presets.length === 0}
+          className="text-xs"
+        >
+          Export Presets
+        </Button>
+        {appliedPreset?.custom && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => openForm(appliedPreset)} className="text-xs">
+              Edit Preset
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => deletePreset(appliedPreset.name)} className="text-xs">
+              Delete Preset
+            </Button>
+          </>
+        )}
+        {message && (
+          <span role={message.isError ? 'alert' : 'status'} className={cn('text-xs', message.isError ? 'text-red-600' : 'text-gray-600')}>
+            {message.text}
+          </span>
+        )}
+      </div>
+
+      {form && (
+        <form onSubmit={submitForm} className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3 bg-white p-3 rounded border border-gray-200">
+          <div>
+            <label htmlFor="preset-name" className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+            <input
+              id="preset-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <label htmlFor="preset-category" className="block text-xs font-medium text-gray-600 mb-1">Category</label>
+            <input
+              id="preset-category"
+              list="preset-categories"
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <datalist id="preset-categories">
+            {categories.map(category => <option key={category} value={category} />)}
+          </datalist>
+          <div>
+            <label htmlFor="preset-description" className="block text-xs font-medium text-gray-600 mb-1">Description</label>
+            <input
+              id="preset-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <label htmlFor="preset-width" className="block text-xs font-medium text-gray-600 mb-1">Width</label>
+            <input
+              id="preset-width"
+              type="number"
+              min={0}
+              step="any"
+              value={form.width}
+              onChange={(e) => setForm({ ...form, width: e.target.value })}
+              className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <label htmlFor="preset-height" className="block text-xs font-medium text-gray-600 mb-1">Height</label>
+            <input
+              id="preset-height"
+              type="number"
+              min={0}
+              step="any"
+              value={form.height}
+              onChange={(e) => setForm({ ...form, height: e.target.value })}
+              className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+            />
+          </div>
+          <div>
+            <label htmlFor="preset-unit" className="block text-xs font-medium text-gray-600 mb-1">Unit</label>
+            <select
+              id="preset-unit"
+              value={form.unit}
+              onChange={(e) => setForm({ ...form, unit: e.target.value as LengthUnit })}
+              className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+            >
+              {LENGTH_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+            </select>
+          </div>
+          {form.unit !== 'px' && (
+            <div>
+              <label htmlFor="preset-dpi" className="block text-xs font-medium text-gray-600 mb-1">DPI</label>
+              <input
+                id="preset-dpi"
+                type="number"
+                min={1}
+                step={1}
+                placeholder={String(DEFAULT_DPI)}
+                value={form.dpi}
+                onChange={(e) => setForm({ ...form, dpi: e.target.value })}
+                className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+              />
+            </div>
+          )}
+          <div className="col-span-2 md:col-span-4 flex gap-2 justify-end">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setForm(null)} className="text-xs">
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" className="text-xs">
+              {form.editing ? 'Save Preset' : 'Add Preset'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </>
+  );
+}
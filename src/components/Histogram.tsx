@@ -0,0 +1,66 @@
+import React from 'react';
+import type { Histogram as HistogramData } from '@/lib/histogram';
+
+interface HistogramProps {
+  histogram: HistogramData;
+}
+
+const HEIGHT = 64;
+
+const CHANNELS = [
+  { key: 'red', color: '#ef4444' },
+  { key: 'green', color: '#22c55e' },
+  { key: 'blue', color: '#3b82f6' },
+] as const;
+
+const formatPercent = (count: number, total: number) => {
+  const percent = total ? (count / total) * 100 : 0;
+  return `${percent > 0 && percent < 0.1 ? '<0.1' : percent.toFixed(1)}%`;
+};
+
+/**
+ * RGB and luminance histogram, with how much of the image is clipped at each end.
+ */
+export default function Histogram({ histogram }: HistogramProps) {
+  // Scale to the tallest bin between the ends, so a spike of clipped pixels doesn't flatten the rest
+  let peak = 1;
+  for (const counts of [histogram.red, histogram.green, histogram.blue, histogram.luminance]) {
+    for (let value = 1; value < 255; value++) peak = Math.max(peak, counts[value]);
+  }
+
+  const toPath = (counts: Uint32Array) => {
+    let path = `M0 ${HEIGHT}`;
+    counts.forEach((count, value) => {
+      path += ` L${value} ${HEIGHT - Math.min(1, count / peak) * HEIGHT}`;
+    });
+    return `${path} L255 ${HEIGHT} Z`;
+  };
+
+  const shadowsClipped = histogram.shadowsClipped > 0;
+  const highlightsClipped = histogram.highlightsClipped > 0;
+
+  return (
+    <div className="space-y-1">
+      <svg
+        viewBox={`0 0 255 ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-16 rounded bg-gray-900"
+        role="img"
+        aria-label="Histogram"
+      >
+        <path d={toPath(histogram.luminance)} fill="#9ca3af" fillOpacity={0.5} />
+        {CHANNELS.map(({ key, color }) => (
+          <path key={key} d={toPath(histogram[key])} fill={color} fillOpacity={0.35} style={{ mixBlendMode: 'screen' }} />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs">
+        <span className={shadowsClipped ? 'text-blue-600 font-medium' : 'text-gray-500'}>
+          Shadows clipped: {formatPercent(histogram.shadowsClipped, histogram.total)}
+        </span>
+        <span className={highlightsClipped ? 'text-red-600 font-medium' : 'text-gray-500'}>
+          Highlights clipped: {formatPercent(histogram.highlightsClipped, histogram.total)}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,40 @@
 import React from 'react';
-import { render, screen, fireEvent, act } from '@testing-library/react';
+import { render, screen, fireEvent, act, waitFor, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
+import { TextEncoder } from 'util';
 import ImageCropper from './ImageCropper';
+import { DEFAULT_CROP_TRANSFORM, type CropTransform } from '@/lib/cropUtils';
+import { openSessionStore, type SessionStore, type StoredSession } from '@/lib/sessionStore';
+
+// Tests that keep sessions open their own store
+jest.mock('@/lib/sessionStore', () => ({
+  ...jest.requireActual('@/lib/sessionStore'),
+  openSessionStore: jest.fn(),
+}));
 
 // Mock global browser APIs
 const mockToDataURL = jest.fn();
-const mockGetContext = jest.fn(() => ({
+
+interface MockImageData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+interface MockContext {
+  drawImage: jest.Mock;
+  save: jest.Mock;
+  restore: jest.Mock;
+  translate: jest.Mock;
+  rotate: jest.Mock;
+  scale: jest.Mock;
+  imageSmoothingQuality: string;
+  getImageData?: (x: number, y: number, width: number, height: number) => MockImageData;
+  createImageData?: (width: number, height: number) => MockImageData;
+  putImageData?: jest.Mock;
+}
+
+const defaultContext = (): MockContext => ({
   drawImage: jest.fn(),
   save: jest.fn(),
   restore: jest.fn(),
@@ -13,7 +42,8 @@ const mockGetContext = jest.fn(() => ({
   rotate: jest.fn(),
   scale: jest.fn(),
   imageSmoothingQuality: '',
-}));
+});
+const mockGetContext = jest.fn(defaultContext);
 
 // Type assertion for HTMLCanvasElement prototype mocking
 (global.HTMLCanvasElement.prototype.getContext as jest.Mock) = mockGetContext;
@@ -52,6 +82,23 @@ global.FileReader = jest.fn(() => ({
 })) as unknown as typeof FileReader;
 
 
+// Lets the canvas read pixels: getImageData returns `fill` as a gray level, or
+// the pixels it makes for the size asked. Returns putImageData to see what was drawn.
+function mockPixelContext(fill: number | ((width: number, height: number) => Uint8ClampedArray)) {
+  const putImageData = jest.fn();
+  mockGetContext.mockImplementation(() => ({
+    ...defaultContext(),
+    getImageData: (x, y, width, height) => ({
+      width,
+      height,
+      data: typeof fill === 'number' ? new Uint8ClampedArray(width * height * 4).fill(fill) : fill(width, height),
+    }),
+    createImageData: (width, height) => ({ width, height, data: new Uint8ClampedArray(width * height * 4) }),
+    putImageData,
+  }));
+  return putImageData;
+}
+
 // Helper function to simulate file upload and image load
 async function uploadImage(container: HTMLElement) {
   const fileInput = container.querySelector('input[type="file"]') as HTMLInputElement;
@@ -85,11 +132,703 @@ describe('ImageCropper', () => {
     global.Image.prototype.height = 0;
   });
 
+  afterEach(() => {
+    mockGetContext.mockImplementation(defaultContext);
+  });
+
   it('renders the upload prompt initially', () => {
     render(<ImageCropper />);
     expect(screen.getByText(/Drop your image here/i)).toBeInTheDocument();
   });
 
+  describe('Embedding props', () => {
+    it('renders the image passed via src instead of the upload prompt', () => {
+      render(<ImageCropper src="https://example.com/photo.jpg" />);
+      expect(screen.queryByText(/Drop your image here/i)).not.toBeInTheDocument();
+      expect(screen.getByAltText('Crop me')).toHaveAttribute('src', 'https://example.com/photo.jpg');
+    });
+
+    it('shows a cancel button that calls onCancel', () => {
+      const onCancel = jest.fn();
+      render(<ImageCropper onCancel={onCancel} />);
+      fireEvent.click(screen.getByRole('button', { name: /Cancel/i }));
+      expect(onCancel).toHaveBeenCalledTimes(1);
+    });
+
+    it('replaces the download button with the apply button when onComplete is set', () => {
+      render(<ImageCropper src="https://example.com/photo.jpg" onComplete={jest.fn()} completeLabel="Use photo" />);
+      expect(screen.getByRole('button', { name: /Use photo/i })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /^Download/i })).not.toBeInTheDocument();
+    });
+
+    it('only offers the allowed formats', () => {
+      render(<ImageCropper src="https://example.com/photo.jpg" allowedFormats={['png', 'webp']} />);
+      const options = screen.getAllByRole('option', { name: /^(JPEG|PNG|WebP)$/ });
+      expect(options.map(option => option.textContent)).toEqual(['PNG', 'WebP']);
+    });
+  });
+
+  describe('Undo/Redo', () => {
+    it('undoes and redoes edits with the buttons and keyboard shortcuts', () => {
+      render(<ImageCropper src="https://example.com/photo.jpg" />);
+      const flipButton = screen.getByRole('button', { name: /Flip Horizontal/i });
+      const undoButton = screen.getByRole('button', { name: 'Undo' });
+      expect(undoButton).toBeDisabled();
+
+      fireEvent.click(flipButton);
+      expect(flipButton.textContent).toContain('(On)');
+
+      fireEvent.click(undoButton);
+      expect(flipButton.textContent).not.toContain('(On)');
+
+      fireEvent.keyDown(window, { key: 'z', ctrlKey: true, shiftKey: true });
+      expect(flipButton.textContent).toContain('(On)');
+
+      fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+      expect(flipButton.textContent).not.toContain('(On)');
+    });
+
+    it('leaves the shortcuts to number and search fields', () => {
+      render(<ImageCropper src="https://example.com/photo.jpg" />);
+      const flipButton = screen.getByRole('button', { name: /Flip Horizontal/i });
+      fireEvent.click(flipButton);
+
+      for (const type of ['number', 'search']) {
+        const field = document.createElement('input');
+        field.type = type;
+        document.body.appendChild(field);
+        fireEvent.keyDown(field, { key: 'z', ctrlKey: true });
+        field.remove();
+      }
+      expect(flipButton.textContent).toContain('(On)');
+
+      fireEvent.keyDown(flipButton, { key: 'z', ctrlKey: true });
+      expect(flipButton.textContent).not.toContain('(On)');
+    });
+
+    it('makes Reset All undoable', () => {
+      render(<ImageCropper src="https://example.com/photo.jpg" />);
+      const flipButton = screen.getByRole('button', { name: /Flip Vertical/i });
+
+      fireEvent.click(flipButton);
+      fireEvent.click(screen.getByRole('button', { name: 'Reset All' }));
+      expect(flipButton.textContent).not.toContain('(On)');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+      expect(flipButton.textContent).toContain('(On)');
+    });
+  });
+
+  describe('Rotation', () => {
+    it('rotates in quarter turns and accepts fine angles', () => {
+      const onTransformChange = jest.fn();
+      render(<ImageCropper src="https://example.com/photo.jpg" onTransformChange={onTransformChange} />);
+      const angle = screen.getByLabelText('Rotation angle');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Rotate Right' }));
+      expect(onTransformChange).toHaveBeenLastCalledWith(expect.objectContaining({ rotation: 90 }));
+
+      fireEvent.click(screen.getByRole('button', { name: /Flip Horizontal/i }));
+      fireEvent.click(screen.getByRole('button', { name: 'Rotate Right' }));
+      expect(angle).toHaveValue(0);
+
+      fireEvent.change(angle, { target: { value: '-1.5' } });
+      expect(angle).toHaveValue(358.5);
+    });
+  });
+
+  describe('Numeric Crop', () => {
+    it('edits the crop in source pixels with aspect lock and arrow-key nudges', () => {
+      const onTransformChange = jest.fn();
+      render(<ImageCropper src="https://example.com/photo.jpg" onTransformChange={onTransformChange} />);
+      // The preview needs a real canvas
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 1000 });
+      Object.defineProperty(image, 'naturalHeight', { value: 800 });
+      fireEvent.load(image);
+
+      const field = (name: string) => screen.getByLabelText(`${name} (px)`);
+      expect(['X', 'Y', 'Width', 'Height'].map(name => (field(name) as HTMLInputElement).value)).toEqual(['0', '0', '1000', '800']);
+
+      fireEvent.change(field('Width'), { target: { value: '400' } });
+      expect(field('Width')).toHaveValue(400);
+      expect(field('Height')).toHaveValue(800);
+
+      fireEvent.click(screen.getByLabelText('Lock aspect ratio'));
+      fireEvent.change(field('Width'), { target: { value: '300' } });
+      expect(field('Height')).toHaveValue(600);
+
+      fireEvent.keyDown(field('X'), { key: 'ArrowUp', shiftKey: true });
+      fireEvent.keyDown(field('X'), { key: 'ArrowUp' });
+      expect(onTransformChange).toHaveBeenLastCalledWith(expect.objectContaining({
+        crop: { unit: 'px', x: 11, y: 0, width: 300, height: 600 },
+      }));
+
+      // Stays inside the image
+      fireEvent.change(field('X'), { target: { value: '5000' } });
+      expect(field('X')).toHaveValue(700);
+    });
+  });
+
+  describe('Smart Crop', () => {
+    it('suggests crops around the subject and applies the one picked', () => {
+      const onTransformChange = jest.fn();
+      render(<ImageCropper src="https://example.com/photo.jpg" onTransformChange={onTransformChange} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 300 });
+      Object.defineProperty(image, 'naturalHeight', { value: 100 });
+      fireEvent.load(image);
+
+      // A red product on the left of a white image
+      mockPixelContext((width, height) => {
+        const data = new Uint8ClampedArray(width * height * 4).fill(255);
+        for (let row = 0; row < height; row++) {
+          for (let column = 0; column < width; column++) {
+            const inProduct = column * 300 / width >= 20 && column * 300 / width < 60 && row * 100 / height >= 30 && row * 100 / height < 70;
+            if (inProduct) data.set([200, 30, 30, 255], (row * width + column) * 4);
+          }
+        }
+        return data;
+      });
+
+      fireEvent.change(screen.getByDisplayValue('Free Selection'), { target: { value: '1' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Smart Crop' }));
+      const best = screen.getByRole('button', { name: /^1\. Best/ });
+      expect(best).toHaveTextContent(/\d+×\d+ px/);
+      expect(screen.getAllByRole('button', { name: /^\d\. (Best|Alternative)/ })).toHaveLength(3);
+
+      fireEvent.click(best);
+      const { crop } = onTransformChange.mock.lastCall[0];
+      expect(crop.unit).toBe('%');
+      expect(crop.x * 3).toBeLessThanOrEqual(20);
+      expect((crop.x + crop.width) * 3).toBeGreaterThanOrEqual(60);
+    });
+  });
+
+  describe('Filters', () => {
+    it('draws the chosen filter on the image the way it is exported', () => {
+      const onTransformChange = jest.fn();
+      const putImageData = mockPixelContext(128);
+
+      render(<ImageCropper src="https://example.com/photo.jpg" onTransformChange={onTransformChange} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 40 });
+      Object.defineProperty(image, 'naturalHeight', { value: 20 });
+      fireEvent.load(image);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Show Filters' }));
+      expect(screen.getByText('Vintage')).toBeInTheDocument();
+      fireEvent.click(screen.getByText('Crema'));
+      expect(onTransformChange).toHaveBeenLastCalledWith(expect.objectContaining({ filter: 'crema' }));
+
+      // Crema's sepia shows up in the crop area, not just in the export
+      const [drawn] = putImageData.mock.lastCall;
+      expect(drawn.data[0]).toBeGreaterThan(drawn.data[2]);
+    });
+
+    it('imports a .cube LUT as a filter with an intensity', async () => {
+      const onTransformChange = jest.fn();
+      render(<ImageCropper src="https://example.com/photo.jpg" onTransformChange={onTransformChange} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 40 });
+      Object.defineProperty(image, 'naturalHeight', { value: 20 });
+      fireEvent.load(image);
+      fireEvent.click(screen.getByRole('button', { name: 'Show Filters' }));
+
+      const cube = 'TITLE "Negative"\nLUT_3D_SIZE 2\n1 1 1\n0 1 1\n1 0 1\n0 0 1\n1 1 0\n0 1 0\n1 0 0\n0 0 0\n';
+      const file = new File([cube], 'negative.cube');
+      Object.defineProperty(file, 'text', { value: () => Promise.resolve(cube) });
+      fireEvent.change(screen.getByLabelText('LUT file'), { target: { files: [file] } });
+
+      expect(await screen.findByRole('button', { name: 'Remove Negative' })).toBeInTheDocument();
+      expect(onTransformChange).toHaveBeenLastCalledWith(expect.objectContaining({ filter: 'lut-negative', filterIntensity: 100 }));
+      expect(screen.getByText('Intensity')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Remove Negative' }));
+      expect(screen.queryByText('Intensity')).not.toBeInTheDocument();
+
+      const broken = new File(['LUT_1D_SIZE 2'], 'curve.cube');
+      Object.defineProperty(broken, 'text', { value: () => Promise.resolve('LUT_1D_SIZE 2') });
+      fireEvent.change(screen.getByLabelText('LUT file'), { target: { files: [broken] } });
+      expect(await screen.findByRole('alert')).toHaveTextContent("Couldn't import curve.cube: 1D LUTs are not supported");
+    });
+  });
+
+  describe('Adjustments', () => {
+    it('lists the extended adjustments and draws them on the image', () => {
+      const putImageData = mockPixelContext(128);
+
+      const transform = {
+        ...DEFAULT_CROP_TRANSFORM,
+        adjustments: { ...DEFAULT_CROP_TRANSFORM.adjustments, temperature: 60 },
+      };
+      render(<ImageCropper src="https://example.com/photo.jpg" transform={transform} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 40 });
+      Object.defineProperty(image, 'naturalHeight', { value: 20 });
+      fireEvent.load(image);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Show Adjustments' }));
+      for (const label of ['Exposure', 'Highlights', 'Shadows', 'Temperature', 'Tint', 'Vibrance', 'Hue', 'Sharpness']) {
+        expect(screen.getByText(label)).toBeInTheDocument();
+      }
+      expect(screen.getByText('+60')).toBeInTheDocument();
+
+      // A warmer gray is drawn over the crop area
+      const [drawn] = putImageData.mock.lastCall;
+      expect(drawn.data[0]).toBeGreaterThan(drawn.data[2]);
+    });
+
+    it('reads transforms saved before the extended adjustments as unchanged', () => {
+      const putImageData = mockPixelContext(128);
+
+      // As kept from onComplete before exposure, hue and the rest existed
+      const adjustments = { brightness: 120, contrast: 100, saturation: 100 } as CropTransform['adjustments'];
+      const transform = { ...DEFAULT_CROP_TRANSFORM, adjustments };
+      render(<ImageCropper src="https://example.com/photo.jpg" transform={transform} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 40 });
+      Object.defineProperty(image, 'naturalHeight', { value: 20 });
+      fireEvent.load(image);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Show Adjustments' }));
+      expect(screen.getByText('0.00 EV')).toBeInTheDocument();
+
+      // Only the brightness applies, rather than NaN turning the image black
+      const [drawn] = putImageData.mock.lastCall;
+      expect(Array.from(drawn.data.slice(0, 4))).toEqual([154, 154, 154, 128]);
+    });
+
+    it('shows a histogram of the crop and marks clipping as the sliders move', () => {
+      const putImageData = mockPixelContext(200);
+
+      const transform = { ...DEFAULT_CROP_TRANSFORM, crop: { unit: '%' as const, x: 0, y: 0, width: 100, height: 100 } };
+      const { rerender } = render(<ImageCropper src="https://example.com/photo.jpg" transform={transform} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 40 });
+      Object.defineProperty(image, 'naturalHeight', { value: 20 });
+      fireEvent.load(image);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Show Adjustments' }));
+      expect(screen.getByRole('img', { name: 'Histogram' })).toBeInTheDocument();
+      expect(screen.getByText('Highlights clipped: 0.0%')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Show clipping on the image'));
+      const brighter = {
+        ...transform,
+        adjustments: { ...DEFAULT_CROP_TRANSFORM.adjustments, brightness: 150 },
+      };
+      rerender(<ImageCropper src="https://example.com/photo.jpg" transform={brighter} />);
+      expect(screen.getByText('Highlights clipped: 100.0%')).toBeInTheDocument();
+
+      // Every pixel is blown, so the overlay is solid red
+      const [drawn] = putImageData.mock.lastCall;
+      expect(Array.from(drawn.data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+    });
+
+    it('sets the sliders from the image with the auto buttons', () => {
+      const onTransformChange = jest.fn();
+      // A dull, warm image: two browns in alternate pixels
+      mockPixelContext((width, height) => {
+        const data = new Uint8ClampedArray(width * height * 4);
+        for (let i = 0; i < data.length; i += 4) data.set(i % 8 ? [180, 140, 100, 255] : [90, 70, 50, 255], i);
+        return data;
+      });
+
+      render(<ImageCropper src="https://example.com/photo.jpg" onTransformChange={onTransformChange} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 40 });
+      Object.defineProperty(image, 'naturalHeight', { value: 20 });
+      fireEvent.load(image);
+      fireEvent.click(screen.getByRole('button', { name: 'Show Adjustments' }));
+
+      fireEvent.click(screen.getByRole('button', { name: 'Auto White Balance' }));
+      const balanced = onTransformChange.mock.lastCall[0].adjustments;
+      expect(balanced.temperature).toBeLessThan(0);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Auto Levels' }));
+      const levelled = onTransformChange.mock.lastCall[0].adjustments;
+      expect(levelled.contrast).toBeGreaterThan(100);
+      // Earlier adjustments are kept, to be fine-tuned along with the new ones
+      expect(levelled.temperature).toBe(balanced.temperature);
+    });
+  });
+
+  describe('Batch', () => {
+    const mockedFileReader = global.FileReader;
+
+    // Reads each file as a data URL of its name; files named broken-… can't be read
+    class NameFileReader extends EventTarget {
+      result: string | null = null;
+      error: DOMException | null = null;
+
+      readAsDataURL(file: File) {
+        setTimeout(() => {
+          if (file.name.startsWith('broken')) {
+            this.error = new DOMException('Unreadable', 'NotReadableError');
+            this.dispatchEvent(new Event('error'));
+          } else {
+            this.result = `data:image/png;base64,${btoa(file.name)}`;
+            this.dispatchEvent(new Event('load'));
+          }
+        });
+      }
+    }
+
+    beforeEach(() => {
+      global.FileReader = NameFileReader as unknown as typeof FileReader;
+    });
+
+    afterEach(() => {
+      global.FileReader = mockedFileReader;
+    });
+
+    const upload = (container: HTMLElement, names: string[]) => {
+      const files = names.map(name => new File(['(⌐□_□)'], name, { type: 'image/png' }));
+      fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files } });
+    };
+
+    const loadShownImage = (width: number, height: number) => {
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: width });
+      Object.defineProperty(image, 'naturalHeight', { value: height });
+      fireEvent.load(image);
+    };
+
+    it('queues the images it can read and names the ones left out', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      try {
+        const { container } = render(<ImageCropper />);
+        upload(container, ['a.png', 'broken-1.png', 'b.png']);
+
+        expect(await screen.findByText('Batch (2 images)')).toBeInTheDocument();
+        expect(screen.getByRole('alert')).toHaveTextContent("Couldn't read broken-1.png, so it was left out.");
+        expect(screen.getByRole('button', { name: 'Edit a.png' })).toHaveAttribute('aria-current', 'true');
+        expect(screen.getByRole('button', { name: 'Edit b.png' })).toBeInTheDocument();
+
+        // With nothing readable, the upload prompt stays up with the error
+        fireEvent.click(screen.getByRole('button', { name: 'Change Image' }));
+        expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+        upload(container, ['broken-1.png', 'broken-2.png']);
+        expect(await screen.findByRole('alert')).toHaveTextContent("Couldn't read broken-1.png, broken-2.png, so they were left out.");
+        expect(screen.getByText(/Drop your image here/)).toBeInTheDocument();
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+
+    it("remembers each image's crop when moving between them", async () => {
+      const { container } = render(<ImageCropper />);
+      upload(container, ['a.png', 'b.png']);
+      await screen.findByText('Batch (2 images)');
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      loadShownImage(1000, 800);
+
+      const width = () => screen.getByLabelText('Width (px)');
+      fireEvent.change(width(), { target: { value: '400' } });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit b.png' }));
+      loadShownImage(1000, 800);
+      expect(width()).toHaveValue(1000);
+      expect(screen.getByText('Own crop')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit a.png' }));
+      loadShownImage(1000, 800);
+      expect(width()).toHaveValue(400);
+    });
+
+    it('moves on to the next image when the one being edited is removed', async () => {
+      const { container } = render(<ImageCropper />);
+      upload(container, ['a.png', 'b.png', 'c.png']);
+      await screen.findByText('Batch (3 images)');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Remove b.png' }));
+      expect(screen.getByText('Batch (2 images)')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Edit a.png' })).toHaveAttribute('aria-current', 'true');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Remove a.png' }));
+      expect(screen.getByRole('button', { name: 'Edit c.png' })).toHaveAttribute('aria-current', 'true');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Remove c.png' }));
+      expect(screen.getByText(/Drop your image here/)).toBeInTheDocument();
+    });
+
+    it('downloads every image, one file at a time or as a ZIP', async () => {
+      // Images load at 40×20 so the export can render them
+      const mockedImage = global.Image;
+      global.Image = class extends EventTarget {
+        naturalWidth = 40;
+        naturalHeight = 20;
+        set src(value: string) {
+          setTimeout(() => this.dispatchEvent(new Event('load')));
+        }
+      } as unknown as typeof Image;
+      mockPixelContext(128);
+      mockToDataURL.mockReturnValue('data:image/jpeg;base64,/9j/2Q==');
+      const downloads: string[] = [];
+      const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        downloads.push(this.download);
+      });
+      const createObjectURL = jest.fn(() => 'blob:archive');
+      Object.assign(URL, { createObjectURL, revokeObjectURL: jest.fn() });
+      // jsdom leaves out TextEncoder, which writes the manifest
+      Object.assign(global, { TextEncoder });
+
+      try {
+        const { container } = render(<ImageCropper />);
+        // Same base name, so the second download is numbered
+        upload(container, ['a.png', 'a.jpg']);
+        await screen.findByText('Batch (2 images)');
+
+        fireEvent.click(screen.getByRole('button', { name: /Download All \(2 Images\)/ }));
+        await waitFor(() => expect(downloads).toEqual(['a-cropped.jpeg', 'a-cropped-2.jpeg']));
+        await waitFor(() => expect(screen.getByRole('button', { name: /Download All/ })).toBeEnabled());
+
+        downloads.length = 0;
+        fireEvent.click(screen.getByLabelText('Download as a single ZIP'));
+        fireEvent.click(screen.getByRole('button', { name: /Download All \(2 Images\) as ZIP/ }));
+        await waitFor(() => expect(downloads).toEqual(['cropped-images.zip']));
+        expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+      } finally {
+        global.Image = mockedImage;
+        mockToDataURL.mockReset();
+        click.mockRestore();
+      }
+    });
+  });
+
+  describe('Sessions', () => {
+    // A session store in memory, offered as if IndexedDB were there
+    const keepSessions = (sessions: StoredSession[], images: Record<string, string> = {}) => {
+      const store = {
+        list: jest.fn(async () => sessions),
+        getImage: jest.fn(async (id: string) => images[id] ?? null),
+        save: jest.fn<Promise<void>, [StoredSession, string?]>(async () => {}),
+        remove: jest.fn(async () => {}),
+      } satisfies SessionStore;
+      jest.mocked(openSessionStore).mockResolvedValue(store);
+      Object.assign(global, { indexedDB: {} });
+      return store;
+    };
+
+    afterEach(() => {
+      Reflect.deleteProperty(global, 'indexedDB');
+    });
+
+    it('restores the last session with its edit', async () => {
+      const transform = { ...DEFAULT_CROP_TRANSFORM, rotation: 90 };
+      const stored: StoredSession = {
+        id: 'photo',
+        name: 'photo.jpg',
+        thumbnail: null,
+        edit: { transform, aspect: null, preset: null },
+        updatedAt: 1,
+      };
+      const store = keepSessions([stored], { photo: 'data:image/png;base64,cGhvdG8=' });
+      const onTransformChange = jest.fn();
+      render(<ImageCropper onTransformChange={onTransformChange} />);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Restore Last Session' }));
+      fireEvent.click(await screen.findByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      expect(image).toHaveAttribute('src', 'data:image/png;base64,cGhvdG8=');
+      Object.defineProperty(image, 'naturalWidth', { value: 40 });
+      Object.defineProperty(image, 'naturalHeight', { value: 20 });
+      fireEvent.load(image);
+      expect(onTransformChange).toHaveBeenLastCalledWith(transform);
+
+      // The image is already stored, so only the edit is saved
+      await waitFor(() => expect(store.save).toHaveBeenCalled());
+      expect(store.save).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'photo', name: 'photo.jpg' }), undefined);
+    });
+
+    it('saves the image again after a save fails', async () => {
+      const store = keepSessions([]);
+      store.save.mockRejectedValueOnce(new DOMException('Quota exceeded', 'QuotaExceededError'));
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      try {
+        render(<ImageCropper src="https://example.com/photo.jpg" />);
+        fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+        const image = screen.getByAltText('Crop me');
+        Object.defineProperty(image, 'naturalWidth', { value: 40 });
+        Object.defineProperty(image, 'naturalHeight', { value: 20 });
+        fireEvent.load(image);
+        await waitFor(() => expect(store.save).toHaveBeenCalledTimes(1));
+
+        fireEvent.click(screen.getByRole('button', { name: 'Rotate Right' }));
+        await waitFor(() => expect(store.save).toHaveBeenCalledTimes(2));
+        expect(store.save).toHaveBeenLastCalledWith(expect.anything(), 'https://example.com/photo.jpg');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Rotate Right' }));
+        await waitFor(() => expect(store.save).toHaveBeenCalledTimes(3));
+        expect(store.save).toHaveBeenLastCalledWith(expect.anything(), undefined);
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+  });
+
+  describe('Print Sheet', () => {
+    it('keeps the DPI in range and reports sheets it cannot create', () => {
+      render(<ImageCropper src="https://example.com/photo.jpg" />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 400 });
+      Object.defineProperty(image, 'naturalHeight', { value: 300 });
+      fireEvent.load(image);
+      fireEvent.click(screen.getByRole('button', { name: 'Print Sheet' }));
+
+      const dpi = screen.getByLabelText('DPI');
+      fireEvent.change(dpi, { target: { value: '3000' } });
+      expect(screen.getByRole('status')).toHaveTextContent('at 1200 DPI');
+      fireEvent.blur(dpi);
+      expect(dpi).toHaveValue(1200);
+
+      // The mocked canvas can't read pixels, so rendering the sheet fails
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      try {
+        fireEvent.click(screen.getByRole('button', { name: 'Download Sheet' }));
+        expect(screen.getByRole('alert')).toHaveTextContent("Couldn't create the sheet at 1200 DPI");
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+  });
+
+  describe('Recipes', () => {
+    it('applies a loaded recipe to the current image and to new ones', async () => {
+      const onTransformChange = jest.fn();
+      render(<ImageCropper src="https://example.com/photo.jpg" onTransformChange={onTransformChange} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 1000 });
+      Object.defineProperty(image, 'naturalHeight', { value: 800 });
+      fireEvent.load(image);
+
+      const crop = { unit: '%', x: 10, y: 20, width: 50, height: 40 };
+      const recipe = {
+        version: 1,
+        transform: { ...DEFAULT_CROP_TRANSFORM, crop },
+        aspect: null,
+        preset: null,
+        output: { format: 'jpeg', quality: 0.8, scale: 1 },
+        source: { width: 2000, height: 1000 },
+      };
+      const file = new File([JSON.stringify(recipe)], 'portrait.json', { type: 'application/json' });
+      Object.defineProperty(file, 'text', { value: () => Promise.resolve(JSON.stringify(recipe)) });
+      fireEvent.change(screen.getByLabelText('Recipe file'), { target: { files: [file] } });
+
+      expect(await screen.findByText(/is applied to each new image/)).toHaveTextContent('made on a 2000×1000 image');
+      expect(onTransformChange).toHaveBeenLastCalledWith(expect.objectContaining({ crop }));
+
+      onTransformChange.mockClear();
+      fireEvent.load(image);
+      expect(onTransformChange).toHaveBeenLastCalledWith(expect.objectContaining({ crop }));
+
+      fireEvent.change(screen.getByLabelText('Recipe file'), {
+        target: { files: [new File(['{'], 'broken.json')] },
+      });
+      expect(await screen.findByRole('alert')).toHaveTextContent("Couldn't load broken.json");
+    });
+  });
+
+  describe('Preset Picker', () => {
+    it('searches all presets and moves through the results with the keyboard', () => {
+      render(<ImageCropper src="https://example.com/photo.jpg" />);
+      fireEvent.click(screen.getByRole('button', { name: 'Show Presets' }));
+
+      const search = screen.getByRole('combobox', { name: 'Search presets' });
+      fireEvent.change(search, { target: { value: 'linkedin' } });
+      const results = screen.getByRole('listbox', { name: 'Presets' });
+      const options = within(results).getAllByRole('option');
+      expect(options.map(option => option.textContent)).toEqual(['LinkedIn Post', 'LinkedIn Cover', 'LinkedIn Profile']);
+      expect(search).toHaveAttribute('aria-activedescendant', options[0].id);
+
+      fireEvent.keyDown(search, { key: 'ArrowDown' });
+      expect(search).toHaveAttribute('aria-activedescendant', options[1].id);
+      expect(options[1]).toHaveAttribute('aria-selected', 'true');
+
+      fireEvent.keyDown(search, { key: 'ArrowUp' });
+      fireEvent.keyDown(search, { key: 'ArrowUp' });
+      expect(search).toHaveAttribute('aria-activedescendant', options[2].id);
+
+      fireEvent.change(screen.getByLabelText('Preset shape'), { target: { value: 'square' } });
+      expect(within(results).getByRole('option').textContent).toBe('LinkedIn Profile');
+
+      fireEvent.keyDown(search, { key: 'Escape' });
+      expect(search).toHaveValue('');
+    });
+
+    it('creates, edits and deletes custom presets', () => {
+      window.localStorage.clear();
+      render(<ImageCropper src="https://example.com/photo.jpg" />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 1200 });
+      Object.defineProperty(image, 'naturalHeight', { value: 400 });
+      fireEvent.load(image);
+      fireEvent.click(screen.getByRole('button', { name: 'Show Presets' }));
+
+      // A new preset starts from the selected area
+      fireEvent.click(screen.getByRole('button', { name: 'New Preset' }));
+      expect(screen.getByLabelText('Width')).toHaveValue(1200);
+      fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Banner' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Add Preset' }));
+      const results = screen.getByRole('listbox', { name: 'Presets' });
+      fireEvent.click(within(results).getByRole('option', { name: 'Banner' }));
+      expect(screen.getByText('Applied preset: Banner')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'New Preset' }));
+      fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Banner' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Add Preset' }));
+      expect(screen.getByRole('alert')).toHaveTextContent('A preset named "Banner" already exists');
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+      // The applied preset stays applied under its new name
+      fireEvent.click(screen.getByRole('button', { name: 'Edit Preset' }));
+      fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Wide Banner' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Save Preset' }));
+      expect(screen.getByText('Applied preset: Wide Banner')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Delete Preset' }));
+      expect(within(results).queryByRole('option', { name: 'Wide Banner' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Photo Requirements', () => {
+    it('checks document presets against the chosen rules with movable head guides', () => {
+      mockPixelContext(255);
+      render(<ImageCropper src="https://example.com/photo.jpg" />);
+      fireEvent.click(screen.getByRole('button', { name: 'Hide Preview' }));
+      const image = screen.getByAltText('Crop me');
+      Object.defineProperty(image, 'naturalWidth', { value: 600 });
+      Object.defineProperty(image, 'naturalHeight', { value: 800 });
+      fireEvent.load(image);
+      fireEvent.click(screen.getByRole('button', { name: 'Show Presets' }));
+      fireEvent.change(screen.getByRole('combobox', { name: 'Search presets' }), { target: { value: 'Passport Photo' } });
+      fireEvent.click(within(screen.getByRole('listbox', { name: 'Presets' })).getAllByRole('option')[0]);
+
+      const rules = screen.getByLabelText('Photo rules');
+      expect(screen.queryByRole('slider', { name: 'Chin guide' })).not.toBeInTheDocument();
+      fireEvent.change(rules, { target: { value: (rules as HTMLSelectElement).options[1].value } });
+      expect(screen.getByText(/Drag the crown, eyes and chin guides onto the face/)).toBeInTheDocument();
+      expect(screen.getAllByRole('listitem').length).toBeGreaterThan(0);
+
+      const chin = screen.getByRole('slider', { name: 'Chin guide' });
+      const before = Number(chin.getAttribute('aria-valuenow'));
+      for (let i = 0; i < 4; i++) fireEvent.keyDown(chin, { key: 'ArrowDown' });
+      expect(Number(screen.getByRole('slider', { name: 'Chin guide' }).getAttribute('aria-valuenow'))).toBe(before + 2);
+    });
+  });
+
   describe('After Image Load', () => {
     beforeEach(async () => {
       const { container } = render(<ImageCropper />);
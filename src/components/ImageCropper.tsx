@@ -1,82 +1,259 @@
 'use client';
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import ReactCrop, { type Crop, centerCrop, makeAspectCrop } from 'react-image-crop';
 import 'react-image-crop/dist/ReactCrop.css';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
+import BatchQueue, { type BatchItem } from '@/components/BatchQueue';
+import ComplianceGuides from '@/components/ComplianceGuides';
+import CompliancePanel from '@/components/CompliancePanel';
+import CustomPresetEditor from '@/components/CustomPresetEditor';
+import Histogram from '@/components/Histogram';
+import PrintSheetPanel from '@/components/PrintSheetPanel';
+import RecentSessions from '@/components/RecentSessions';
+import {
+  DEFAULT_ADJUSTMENTS,
+  DEFAULT_CROP_TRANSFORM,
+  MAX_OUTPUT_SIDE,
+  OUTPUT_FORMATS,
+  OUTPUT_FORMAT_LABELS,
+  ROTATION_MODES,
+  adjustPixels,
+  bytesToDataUrl,
+  constrainPixelCrop,
+  createImage,
+  dataUrlToBlob,
+  dataUrlToBytes,
+  getOutputSize,
+  getRotatedFrame,
+  getUpscaleFactor,
+  pixelsToCanvas,
+  readFileAsDataURL,
+  reframeCrop,
+  renderCrop,
+  resolvePixelCrop,
+  toCropOperations,
+  toPixelRegion,
+  type Adjustments,
+  type CropRegion,
+  type CropTransform,
+  type OutputFormat,
+  type OutputSize,
+  type PixelBuffer,
+  type PixelCrop,
+  type RotationMode,
+} from '@/lib/cropUtils';
+import { hasAdjustments } from '@/lib/adjustments';
+import { autoContrast, autoLevels, autoWhiteBalance } from '@/lib/autoEnhance';
+import { DOWNLOAD_DELAY_MS, downloadBlob, downloadUrl, toSlug } from '@/lib/download';
+import { createExportArchive, uniqueFilename, type ExportedFile } from '@/lib/exportArchive';
+import { FILTERS, createLutFilter, getFilter, type FilterDefinition } from '@/lib/filters';
+import { computeHistogram, markClipping } from '@/lib/histogram';
+import {
+  METADATA_FIELDS,
+  detectImageFormat,
+  prepareOutputMetadata,
+  readMetadata,
+  stripMetadata,
+  writeMetadata,
+  writeResolution,
+  type MetadataField,
+} from '@/lib/metadata';
+import { normalizeOrientation } from '@/lib/orientation';
+import {
+  checkCompliance,
+  getDefaultMarkers,
+  getRuleSetsForPreset,
+  measureBackground,
+  type HeadMarkers,
+} from '@/lib/photoCompliance';
+import {
+  CROP_PRESETS,
+  PRESET_CATEGORIES,
+  filterPresets,
+  getPresetPixelSize,
+  type CropPreset,
+  type PresetShape,
+} from '@/lib/presets';
+import { parseCubeLut, parseHaldClut } from '@/lib/lut';
+import { createRecipe, fitsRecipe, parseRecipe, serializeRecipe, type CropRecipe } from '@/lib/recipe';
+import { createSessionId, type StoredSession } from '@/lib/sessionStore';
+import { suggestCrops, type CropSuggestion } from '@/lib/smartCrop';
+import { DEFAULT_DPI, formatSize } from '@/lib/units';
+import { getStraightenAngle, normalizeRotation, rotateOnScreen } from '@/lib/straighten';
+import { cn } from '@/lib/utils';
+import { useCustomFilters } from '@/hooks/useCustomFilters';
+import { useCustomPresets } from '@/hooks/useCustomPresets';
+import { useHistory, type SetOptions } from '@/hooks/useHistory';
+import { usePresetPicks } from '@/hooks/usePresetPicks';
+import { useSessions } from '@/hooks/useSessions';
+
+// Longest side of the rendered preview, in pixels
+const PREVIEW_MAX_SIZE = 800;
+
+// Tallest the image is displayed in the crop area, in pixels
+const CROP_AREA_MAX_HEIGHT = 600;
+
+// Enlargement of the selected area beyond which exports warn about softness
+const DEFAULT_UPSCALE_WARNING_THRESHOLD = 1.5;
+
+
+// Width the crop is rendered at to measure the background for photo rules
+const COMPLIANCE_SAMPLE_WIDTH = 160;
+const SMART_CROP_SAMPLE_WIDTH = 240;
+const FILTER_THUMBNAIL_WIDTH = 80;
+// Width the crop is rendered at for the histogram and the auto adjustments
+const HISTOGRAM_SAMPLE_WIDTH = 256;
+
+const RECIPE_FILENAME = 'crop-recipe.json';
+
+// Preset tabs besides the categories; the prefix keeps them apart from custom category names
+const FAVORITES_TAB = ':favorites';
+const RECENT_TAB = ':recent';
+
+const PRESET_SHAPE_LABELS: Record<PresetShape, string> = {
+  square: 'Square',
+  landscape: 'Landscape',
+  portrait: 'Portrait',
+};
+
+// Straighten lines shorter than this (in displayed pixels) are treated as stray clicks
+const MIN_STRAIGHTEN_LINE = 10;
+
+// Inputs without text to undo; Ctrl/Cmd+Z in any other field is left to the field
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'range', 'button', 'submit', 'reset', 'file', 'color'];
+
+const isEditableField = (target: HTMLElement) =>
+  target.isContentEditable
+  || target.tagName === 'TEXTAREA'
+  || target.tagName === 'SELECT'
+  || (target.tagName === 'INPUT' && !NON_TEXT_INPUT_TYPES.includes((target as HTMLInputElement).type));
+
+const CROP_FIELD_LABELS: Record<keyof PixelCrop, string> = { x: 'X', y: 'Y', width: 'Width', height: 'Height' };
+
+const formatSigned = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+// Sliders after brightness, contrast and saturation, grouped by what they change
+const ADJUSTMENT_SLIDERS: {
+  key: Exclude<keyof Adjustments, 'brightness' | 'contrast' | 'saturation'>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  { key: 'exposure', label: 'Exposure', min: -3, max: 3, step: 0.05, format: value => `${value > 0 ? '+' : ''}${value.toFixed(2)} EV` },
+  { key: 'highlights', label: 'Highlights', min: -100, max: 100, step: 1, format: formatSigned },
+  { key: 'shadows', label: 'Shadows', min: -100, max: 100, step: 1, format: formatSigned },
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1, format: formatSigned },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, step: 1, format: formatSigned },
+  { key: 'vibrance', label: 'Vibrance', min: -100, max: 100, step: 1, format: formatSigned },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, step: 1, format: value => `${formatSigned(value)}°` },
+  { key: 'sharpness', label: 'Sharpness', min: 0, max: 100, step: 1, format: value => `${value}` },
+];
+
+const ROTATION_MODE_LABELS: Record<RotationMode, string> = {
+  expand: 'Expand (transparent corners)',
+  inscribe: 'Auto-crop corners',
+  fill: 'Fill corners with color',
+};
+
+const FULL_CROP: CropRegion = { unit: '%', x: 0, y: 0, width: 100, height: 100 };
 
 /**
- * Define preset crop dimensions for social media, documents, and other standard formats.
- * Presets include optimized dimensions for various platforms and use cases.
- * @author PNV Development Team
+ * Details passed to `onComplete` alongside the encoded image.
  */
-type PresetCategory = 'Social Media' | 'Documents' | 'Print' | 'Devices' | 'E-commerce';
-
-interface CropPreset {
-  name: string;
+export interface CropMetadata {
+  transform: CropTransform;
+  format: OutputFormat;
+  quality: number;
   width: number;
   height: number;
-  category: PresetCategory;
-  aspectRatio: number;
-  description?: string; // Optional description for the preset
+  /** Print resolution recorded in the file, for presets with one */
+  dpi: number | null;
+  preset: string | null;
 }
 
-const CROP_PRESETS: CropPreset[] = [
-  // Social Media Presets
-  { name: 'Instagram Post', width: 1080, height: 1080, category: 'Social Media', aspectRatio: 1, description: 'Square format for feed posts' },
-  { name: 'Instagram Story', width: 1080, height: 1920, category: 'Social Media', aspectRatio: 9/16, description: 'Vertical format for stories' },
-  { name: 'Instagram Reel', width: 1080, height: 1920, category: 'Social Media', aspectRatio: 9/16, description: 'Full-screen vertical videos' },
-  { name: 'Instagram Profile', width: 320, height: 320, category: 'Social Media', aspectRatio: 1, description: 'Profile picture' },
-  { name: 'Facebook Post', width: 1200, height: 630, category: 'Social Media', aspectRatio: 1200/630, description: 'Landscape format for feed' },
-  { name: 'Facebook Cover', width: 1640, height: 624, category: 'Social Media', aspectRatio: 1640/624, description: 'Page cover photo' },
-  { name: 'Facebook Profile', width: 500, height: 500, category: 'Social Media', aspectRatio: 1, description: 'Profile picture' },
-  { name: 'X/Twitter Post', width: 1600, height: 900, category: 'Social Media', aspectRatio: 16/9, description: 'Standard tweet image' },
-  { name: 'X/Twitter Header', width: 1500, height: 500, category: 'Social Media', aspectRatio: 3/1, description: 'Profile header image' },
-  { name: 'X/Twitter Profile', width: 400, height: 400, category: 'Social Media', aspectRatio: 1, description: 'Profile picture' },
-  { name: 'LinkedIn Post', width: 1200, height: 627, category: 'Social Media', aspectRatio: 1200/627, description: 'Standard post image' },
-  { name: 'LinkedIn Cover', width: 1584, height: 396, category: 'Social Media', aspectRatio: 1584/396, description: 'Profile cover image' },
-  { name: 'LinkedIn Profile', width: 400, height: 400, category: 'Social Media', aspectRatio: 1, description: 'Profile picture' },
-  { name: 'YouTube Thumbnail', width: 1280, height: 720, category: 'Social Media', aspectRatio: 16/9, description: 'Video thumbnail' },
-  { name: 'YouTube Banner', width: 2560, height: 1440, category: 'Social Media', aspectRatio: 16/9, description: 'Channel banner' },
-  { name: 'Pinterest Pin', width: 1000, height: 1500, category: 'Social Media', aspectRatio: 2/3, description: 'Vertical pin format' },
-  { name: 'TikTok Video', width: 1080, height: 1920, category: 'Social Media', aspectRatio: 9/16, description: 'Full-screen vertical video' },
-  { name: 'Snapchat Story', width: 1080, height: 1920, category: 'Social Media', aspectRatio: 9/16, description: 'Vertical story format' },
-  
-  // Document Presets
-  { name: 'ID Photo', width: 413, height: 531, category: 'Documents', aspectRatio: 413/531, description: 'Standard ID dimensions' },
-  { name: 'Passport Photo', width: 35, height: 45, category: 'Documents', aspectRatio: 35/45, description: 'International standard (mm)' },
-  { name: 'Visa Photo', width: 51, height: 51, category: 'Documents', aspectRatio: 1, description: 'Square format (mm)' },
-  { name: 'Resume Photo', width: 200, height: 200, category: 'Documents', aspectRatio: 1, description: 'Professional headshot' },
-  { name: 'Business Card', width: 1050, height: 600, category: 'Documents', aspectRatio: 1050/600, description: 'Standard size (3.5×2 inches)' },
-  { name: 'US Letter', width: 816, height: 1056, category: 'Documents', aspectRatio: 8.5/11, description: 'US standard page' },
-  { name: 'A4 Paper', width: 794, height: 1123, category: 'Documents', aspectRatio: 210/297, description: 'International standard page' },
-  
-  // Print Presets
-  { name: '4×6 Print', width: 1200, height: 1800, category: 'Print', aspectRatio: 2/3, description: 'Standard photo print' },
-  { name: '5×7 Print', width: 1500, height: 2100, category: 'Print', aspectRatio: 5/7, description: 'Medium photo print' },
-  { name: '8×10 Print', width: 2400, height: 3000, category: 'Print', aspectRatio: 4/5, description: 'Large photo print' },
-  { name: '11×14 Print', width: 3300, height: 4200, category: 'Print', aspectRatio: 11/14, description: 'Poster size print' },
-  { name: '16×20 Print', width: 4800, height: 6000, category: 'Print', aspectRatio: 4/5, description: 'Large poster print' },
-  { name: 'Wallet Print', width: 1050, height: 1350, category: 'Print', aspectRatio: 7/9, description: 'Small wallet-sized print' },
-  
-  // Device Screen Presets
-  { name: 'Smartphone', width: 1080, height: 1920, category: 'Devices', aspectRatio: 9/16, description: 'Common mobile screen' },
-  { name: 'Tablet', width: 1620, height: 2160, category: 'Devices', aspectRatio: 3/4, description: 'Common tablet screen' },
-  { name: 'Desktop Wallpaper', width: 1920, height: 1080, category: 'Devices', aspectRatio: 16/9, description: 'FHD monitor resolution' },
-  { name: '4K Wallpaper', width: 3840, height: 2160, category: 'Devices', aspectRatio: 16/9, description: 'UHD monitor resolution' },
-  { name: 'MacBook Pro', width: 1440, height: 900, category: 'Devices', aspectRatio: 16/10, description: 'Standard display resolution' },
-  { name: 'iPhone Wallpaper', width: 1290, height: 2796, category: 'Devices', aspectRatio: 1290/2796, description: 'iPhone 15 Pro Max' },
-  
-  // E-commerce Presets
-  { name: 'Product Image', width: 2000, height: 2000, category: 'E-commerce', aspectRatio: 1, description: 'Square product photo' },
-  { name: 'Amazon Product', width: 2000, height: 2000, category: 'E-commerce', aspectRatio: 1, description: 'Main product image' },
-  { name: 'eBay Product', width: 1600, height: 1600, category: 'E-commerce', aspectRatio: 1, description: 'Recommended size' },
-  { name: 'Etsy Product', width: 2000, height: 1600, category: 'E-commerce', aspectRatio: 5/4, description: 'Landscape format' },
-  { name: 'Shopify Product', width: 2048, height: 2048, category: 'E-commerce', aspectRatio: 1, description: 'High-res product image' },
-  { name: 'Banner Ad', width: 728, height: 90, category: 'E-commerce', aspectRatio: 728/90, description: 'Standard leaderboard ad' },
-];
+/**
+ * Everything undo/redo covers: the transform plus the aspect lock and preset
+ * that produced its crop.
+ */
+interface EditState {
+  transform: CropTransform;
+  aspect: number | undefined;
+  preset: string | null;
+}
+
+export interface ImageCropperProps {
+  /** Image to start with; without one the upload prompt is shown */
+  src?: string | File | Blob;
+  /** Crop applied when the initial image loads, in natural pixels or percent */
+  initialCrop?: CropRegion;
+  initialAspect?: number;
+  /** Name of a built-in or saved custom preset to apply when the initial image loads */
+  initialPreset?: string;
+  /** Formats offered for output; defaults to JPEG, PNG and WebP */
+  allowedFormats?: OutputFormat[];
+  /** Controlled mode: the parent owns the transform and must update it from `onTransformChange` */
+  transform?: CropTransform;
+  onTransformChange?: (transform: CropTransform) => void;
+  onCropChange?: (crop: CropRegion) => void;
+  /** Shows an apply button that hands the rendered image to the parent */
+  onComplete?: (blob: Blob, metadata: CropMetadata) => void;
+  /** Shows a cancel button */
+  onCancel?: () => void;
+  completeLabel?: string;
+  /** Whether the built-in download controls are shown; defaults to true unless `onComplete` is set */
+  showDownload?: boolean;
+  /** Warn when an export enlarges the selected area more than this; defaults to 1.5 */
+  upscaleWarningThreshold?: number;
+  className?: string;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const ARCHIVE_FILENAME = 'cropped-images.zip';
+
+// Sessions are saved this long after the last change
+const SESSION_SAVE_DELAY_MS = 500;
+const THUMBNAIL_SIZE = 160;
+
+// Null when the image can't be drawn, e.g. a cross-origin URL
+function createThumbnail(image: HTMLImageElement): string | null {
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.error('Error creating thumbnail:', error);
+    return null;
+  }
+}
+
+// Sizes the canvas to the pixels and draws them
+function drawPixels(canvas: HTMLCanvasElement, pixels: PixelBuffer) {
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const imageData = ctx.createImageData(pixels.width, pixels.height);
+  imageData.data.set(pixels.data);
+  ctx.putImageData(imageData, 0, 0);
+}
+
+// Name shown in the recent images list for an image passed in by the parent
+const getSourceName = (src: string | Blob) => {
+  if (src instanceof File) return src.name;
+  if (typeof src !== 'string' || src.startsWith('data:')) return 'Image';
+  return decodeURIComponent(src.split(/[?#]/)[0].split('/').pop() || 'Image');
+};
 
 function centerAspectCrop(
   mediaWidth: number,
@@ -109,1170 +286,2550 @@ function centerAspectCrop(
   );
 }
 
-export default function ImageCropper() {
+export default function ImageCropper({
+  src,
+  initialCrop,
+  initialAspect,
+  initialPreset,
+  allowedFormats,
+  transform,
+  onTransformChange,
+  onCropChange,
+  onComplete,
+  onCancel,
+  completeLabel = 'Apply',
+  showDownload = !onComplete,
+  upscaleWarningThreshold = DEFAULT_UPSCALE_WARNING_THRESHOLD,
+  className,
+}: ImageCropperProps = {}) {
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [previewSrc, setPreviewSrc] = useState<string | null>(null);
   const imgRef = useRef<HTMLImageElement | null>(null);
+  // Natural size of the loaded image
+  const [imageSize, setImageSize] = useState<{
+    naturalWidth: number;
+    naturalHeight: number;
+  } | null>(null);
+  // Width available for displaying the image, used to fit the rotated frame
+  const cropAreaRef = useRef<HTMLDivElement | null>(null);
+  const [cropAreaWidth, setCropAreaWidth] = useState(0);
+  // Straighten tool: the line being drawn over the crop area, in displayed pixels
+  const [straightening, setStraightening] = useState(false);
+  const [straightenLine, setStraightenLine] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null);
+  // The first image load keeps the initial crop/preset instead of resetting to the full image
+  const isInitialLoad = useRef(true);
   
-  // Helper functions for EXIF data handling
-  const extractExifData = (base64Data: string): ArrayBuffer | null => {
-    try {
-      // Convert base64 to binary
-      const binary = atob(base64Data);
-      const data = new Uint8Array(binary.length);
-      for (let i = 0; i < binary.length; i++) {
-        data[i] = binary.charCodeAt(i);
-      }
-      
-      // Check for EXIF marker (FF E1)
-      for (let i = 0; i < data.length - 1; i++) {
-        if (data[i] === 0xFF && data[i + 1] === 0xE1) {
-          // Get EXIF segment length (includes the length bytes)
-          const segmentLength = (data[i + 2] << 8) + data[i + 3];
-          
-          // Extract EXIF segment (including marker and length)
-          const exifSegment = data.slice(i, i + 2 + segmentLength);
-          return exifSegment.buffer;
-        }
-      }
-    } catch (error) {
-      console.error('Error extracting EXIF data:', error);
-    }
-    return null;
+  // Edit state with undo/redo. In controlled mode the parent's `transform` takes precedence.
+  const history = useHistory<EditState>(() => ({
+    transform: { ...DEFAULT_CROP_TRANSFORM, crop: initialCrop ?? FULL_CROP },
+    aspect: initialAspect,
+    preset: null,
+  }));
+  const edit = history.state;
+  const { aspect, preset: selectedPreset } = edit;
+
+  // Crop, rotation, zoom, flips, adjustments and filter. A parent's transform may
+  // predate newer fields, e.g. one kept from `onComplete`; those read as unchanged
+  const currentTransform = useMemo(
+    () => (transform
+      ? { ...DEFAULT_CROP_TRANSFORM, ...transform, adjustments: { ...DEFAULT_ADJUSTMENTS, ...transform.adjustments } }
+      : edit.transform),
+    [transform, edit.transform]
+  );
+  const { rotation, rotationMode, background, zoom, flipHorizontal, flipVertical, filter: activeFilter, filterIntensity } = currentTransform;
+  const { brightness, contrast, saturation } = currentTransform.adjustments;
+
+  const notifyTransformChange = (next: CropTransform) => {
+    if (next === currentTransform) return;
+    onTransformChange?.(next);
+    if (next.crop !== currentTransform.crop) onCropChange?.(next.crop);
   };
-  
-  const insertExifData = (imageBase64: string, exifData: ArrayBuffer): string => {
-    try {
-      // Convert base64 to binary
-      const binary = atob(imageBase64);
-      const imageData = new Uint8Array(binary.length);
-      for (let i = 0; i < binary.length; i++) {
-        imageData[i] = binary.charCodeAt(i);
-      }
-        // Find the position after SOI marker (FF D8)
-      const insertPosition = 2; // Default to just after SOI
-      
-      // Create a new array with the EXIF data inserted
-      const exifUint8 = new Uint8Array(exifData);
-      const result = new Uint8Array(imageData.length + exifUint8.length);
-      
-      // Copy SOI marker
-      result.set(imageData.slice(0, insertPosition), 0);
-      
-      // Insert EXIF data
-      result.set(exifUint8, insertPosition);
-      
-      // Copy the rest of the image
-      result.set(imageData.slice(insertPosition), insertPosition + exifUint8.length);
-      
-      // Convert back to base64
-      let resultStr = '';
-      for (let i = 0; i < result.length; i++) {
-        resultStr += String.fromCharCode(result[i]);
-      }
-      return btoa(resultStr);
-    } catch (error) {
-      console.error('Error inserting EXIF data:', error);
-      return imageBase64; // Return original if there's an error
-    }
+
+  const updateEdit = (patch: Partial<EditState>, options?: SetOptions) => {
+    const next = { ...edit, transform: currentTransform, ...patch };
+    history.set(next, options);
+    notifyTransformChange(next.transform);
   };
-  
-  const [crop, setCrop] = useState<Crop>();  // Remove initial state to let it be set on image load
-  const [rotation, setRotation] = useState(0);
-  const [zoom, setZoom] = useState(1);
-  const [flipHorizontal, setFlipHorizontal] = useState(false);
-  const [flipVertical, setFlipVertical] = useState(false);
-  const [aspect, setAspect] = useState<number | undefined>(undefined);
-  const [outputFormat, setOutputFormat] = useState<'jpeg' | 'png' | 'webp'>('jpeg');
+
+  const updateTransform = (patch: Partial<CropTransform>, options?: SetOptions) => {
+    updateEdit({ transform: { ...currentTransform, ...patch } }, options);
+  };
+
+  // The frame crops are measured against: the loaded image once rotated
+  const getImageFrame = (image: { naturalWidth: number; naturalHeight: number }, imageTransform = currentTransform) =>
+    getRotatedFrame(image.naturalWidth, image.naturalHeight, imageTransform.rotation, imageTransform.rotationMode);
+
+  // Rotation changes the frame, so move the crop along to stay on the same part of the image
+  const updateRotation = (patch: Partial<Pick<CropTransform, 'rotation' | 'rotationMode'>>, options?: SetOptions) => {
+    const next = { ...currentTransform, ...patch };
+    const crop = imageSize
+      ? reframeCrop(currentTransform.crop, getImageFrame(imageSize), getImageFrame(imageSize, next))
+      : currentTransform.crop;
+    updateTransform({ ...patch, crop }, options);
+  };
+
+  // Turns the displayed image a further `degrees` clockwise, whatever the flips
+  const rotateBy = (degrees: number, patch?: Partial<Pick<CropTransform, 'rotationMode'>>) => {
+    updateRotation({ ...patch, rotation: rotateOnScreen(rotation, degrees, currentTransform) });
+  };
+
+  const getPointerPosition = (e: React.PointerEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleStraightenStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    const { x, y } = getPointerPosition(e);
+    setStraightenLine({ x1: x, y1: y, x2: x, y2: y });
+  };
+
+  const handleStraightenMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!straightenLine) return;
+    const { x, y } = getPointerPosition(e);
+    setStraightenLine({ ...straightenLine, x2: x, y2: y });
+  };
+
+  // Rotates so the drawn line is level or upright, cropping the corners away
+  const handleStraightenEnd = () => {
+    const line = straightenLine;
+    setStraightenLine(null);
+    if (!line || Math.hypot(line.x2 - line.x1, line.y2 - line.y1) < MIN_STRAIGHTEN_LINE) return;
+
+    setStraightening(false);
+    rotateBy(getStraightenAngle(line.x1, line.y1, line.x2, line.y2), { rotationMode: 'inscribe' });
+  };
+
+  const handleUndo = () => {
+    const previous = history.undo();
+    if (previous) notifyTransformChange(previous.transform);
+  };
+
+  const handleRedo = () => {
+    const next = history.redo();
+    if (next) notifyTransformChange(next.transform);
+  };
+
+  // Reset every edit in one undoable step
+  const handleResetAll = () => {
+    updateEdit({
+      transform: { ...DEFAULT_CROP_TRANSFORM, crop: FULL_CROP },
+      aspect: undefined,
+      preset: null,
+    });
+  };
+
+  const formats = allowedFormats && allowedFormats.length > 0 ? allowedFormats : OUTPUT_FORMATS;
+  const defaultFormat = formats.includes('jpeg') ? 'jpeg' : formats[0];
+
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(defaultFormat);
   const [outputQuality, setOutputQuality] = useState(0.92);
   const [isDragging, setIsDragging] = useState(false);
   const [showPreview, setShowPreview] = useState(true);
   
-  // Image adjustment controls
-  const [brightness, setBrightness] = useState(100); // 100% is normal
-  const [contrast, setContrast] = useState(100);     // 100% is normal
-  const [saturation, setSaturation] = useState(100); // 100% is normal
+  // Image adjustment controls (values live in the transform, 100% is normal)
   const [showAdjustments, setShowAdjustments] = useState(false);
+  // Marks clipped highlights and shadows over the crop area
+  const [showClipping, setShowClipping] = useState(false);
   
   // Preset dimensions state
-  const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
-  const [presetCategory, setPresetCategory] = useState<PresetCategory | 'All'>('Social Media');
+  const [presetCategory, setPresetCategory] = useState<string>('Social Media');
   const [showPresets, setShowPresets] = useState(false);
   const [showPresetInfo, setShowPresetInfo] = useState(false);
+
+  // The user's own presets
+  const customPresets = useCustomPresets();
+  const allPresets = [...CROP_PRESETS, ...customPresets.presets];
+  const presetCategories = Array.from(new Set<string>([
+    ...PRESET_CATEGORIES,
+    ...customPresets.presets.map(preset => preset.category),
+  ]));
+
+  // Preset search and filters; `activePresetIndex` is the result picked with the arrow keys
+  const presetPicks = usePresetPicks();
+  const [presetQuery, setPresetQuery] = useState('');
+  const [presetShape, setPresetShape] = useState<PresetShape | null>(null);
+  const [presetMinSize, setPresetMinSize] = useState<number | null>(null);
+  const [activePresetIndex, setActivePresetIndex] = useState(0);
+
+  // A query searches every preset; otherwise the tab picks which ones are listed
+  const presetsByName = (names: string[]) =>
+    names.flatMap(name => allPresets.find(preset => preset.name === name) ?? []);
+  const tabPresets = presetQuery.trim()
+    ? allPresets
+    : presetCategory === FAVORITES_TAB
+      ? presetsByName(presetPicks.favorites)
+      : presetCategory === RECENT_TAB
+        ? presetsByName(presetPicks.recent)
+        : allPresets.filter(preset => presetCategory === 'All' || preset.category === presetCategory);
+  const visiblePresets = filterPresets(tabPresets, {
+    query: presetQuery,
+    shape: presetShape ?? undefined,
+    minSize: presetMinSize ?? undefined,
+  });
+  const activePresetResult = Math.min(activePresetIndex, visiblePresets.length - 1);
+  const presetTabs = [
+    { id: 'All', label: 'All' },
+    { id: FAVORITES_TAB, label: `★ Favorites (${presetsByName(presetPicks.favorites).length})` },
+    { id: RECENT_TAB, label: 'Recent' },
+    ...presetCategories.map(category => ({ id: category, label: category })),
+  ];
+
+  // Passport/ID photo rules being checked, and where the user placed the head guides
+  const [complianceRuleSetId, setComplianceRuleSetId] = useState<string | null>(null);
+  const [headMarkers, setHeadMarkers] = useState<HeadMarkers | null>(null);
+
+  // Smart crop suggestions, with the framing and aspect ratio they were made for
+  const [smartCrops, setSmartCrops] = useState<{ key: string; suggestions: CropSuggestion[] } | null>(null);
+
+  // Print sheet: copies of the crop tiled onto paper
+  const [showPrintSheet, setShowPrintSheet] = useState(false);
   
-  // Filter state
-  const [activeFilter, setActiveFilter] = useState<string | null>(null);
+  // Filter panel state (the active filter lives in the transform)
   const [showFilters, setShowFilters] = useState(false);
+
+  // Looks imported as LUTs, listed after the built-in ones
+  const customFilters = useCustomFilters();
+  const allFilters = [...FILTERS, ...customFilters.filters];
+  const [lutError, setLutError] = useState<string | null>(null);
+  const lutInputRef = useRef<HTMLInputElement>(null);
   
-  // EXIF data preservation
-  const [preserveExif, setPreserveExif] = useState(false);
-  
-  // Instagram-like filter presets
-  const filters = {
-    normal: { 
-      name: 'Normal', 
-      style: {}, 
-      adjustments: { brightness: 100, contrast: 100, saturation: 100 } 
-    },
-    clarendon: { 
-      name: 'Clarendon', 
-      style: { filter: 'contrast(1.2) saturate(1.35)' },
-      adjustments: { brightness: 105, contrast: 120, saturation: 135 } 
-    },
-    gingham: { 
-      name: 'Gingham', 
-      style: { filter: 'brightness(1.05) hue-rotate(-10deg)' },
-      adjustments: { brightness: 105, contrast: 90, saturation: 85 } 
-    },
-    moon: { 
-      name: 'Moon', 
-      style: { filter: 'grayscale(1) contrast(1.1) brightness(1.1)' },
-      adjustments: { brightness: 110, contrast: 110, saturation: 0 } 
-    },
-    lark: { 
-      name: 'Lark', 
-      style: { filter: 'contrast(0.9) brightness(1.1) saturate(1.1)' },
-      adjustments: { brightness: 110, contrast: 90, saturation: 110 } 
-    },
-    reyes: { 
-      name: 'Reyes', 
-      style: { filter: 'sepia(0.22) brightness(1.1) contrast(0.85) saturate(0.75)' },
-      adjustments: { brightness: 110, contrast: 85, saturation: 75 } 
-    },
-    juno: { 
-      name: 'Juno', 
-      style: { filter: 'saturate(1.4) contrast(1.1)' },
-      adjustments: { brightness: 100, contrast: 110, saturation: 140 } 
-    },
-    slumber: { 
-      name: 'Slumber', 
-      style: { filter: 'saturate(0.66) brightness(1.05)' },
-      adjustments: { brightness: 105, contrast: 100, saturation: 66 } 
-    },
-    crema: { 
-      name: 'Crema', 
-      style: { filter: 'sepia(0.5) contrast(1.25) brightness(1.15) saturate(0.9)' },
-      adjustments: { brightness: 115, contrast: 125, saturation: 90 } 
-    },
-    valencia: { 
-      name: 'Valencia', 
-      style: { filter: 'contrast(1.08) brightness(1.08) sepia(0.08)' },
-      adjustments: { brightness: 108, contrast: 108, saturation: 108 } 
-    },
-    sierra: { 
-      name: 'Sierra', 
-      style: { filter: 'contrast(0.95) brightness(0.9)' },
-      adjustments: { brightness: 90, contrast: 95, saturation: 100 } 
-    },
-  };
+  // Metadata preservation, minus the field groups the user strips
+  const [preserveMetadata, setPreserveMetadata] = useState(false);
+  const [strippedMetadata, setStrippedMetadata] = useState<MetadataField[]>([]);
   
   // Multiple output options
   const [outputOptions, setOutputOptions] = useState<{
     id: string;
     enabled: boolean;
-    format: 'jpeg' | 'png' | 'webp';
+    format: OutputFormat;
     quality: number;
     scale: number;
+    /** Exact output size, overriding the scale */
+    width?: number;
+    height?: number;
     label: string;
   }[]>([
     {
       id: '1',
       enabled: true,
-      format: 'jpeg',
+      format: defaultFormat,
       quality: 0.92,
       scale: 1,
       label: 'Original Size'
     }
   ]);
   const [showMultipleOptions, setShowMultipleOptions] = useState(false);
+  const [bundleZip, setBundleZip] = useState(false);
 
-  const onSelectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const reader = new FileReader();
-      reader.addEventListener('load', () => {
-        setImageSrc(reader.result?.toString() || null);
+  // A loaded recipe is applied to each new image until cleared
+  const [activeRecipe, setActiveRecipe] = useState<{ name: string; recipe: CropRecipe } | null>(null);
+  const [recipeError, setRecipeError] = useState<string | null>(null);
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+
+  // The image and edit are saved as a session; `src` is the image it belongs to
+  const savedSessions = useSessions();
+  const { saveSession } = savedSessions;
+  const [session, setSession] = useState<{ id: string; name: string; thumbnail: string | null; src: string } | null>(null);
+  const [imageName, setImageName] = useState('Image');
+  const restoringSession = useRef<StoredSession | null>(null);
+  // Sessions whose image is already stored, so edits only rewrite the small session record
+  const storedSessionImages = useRef(new Set<string>());
+
+  // Batch mode: several images sharing the edit, each with its own crop
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const [batchProgress, setBatchProgress] = useState<number | null>(null);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const isBatch = batch.length > 0;
+
+  // Shows a data URL once it has been turned upright according to its EXIF orientation
+  const loadDataUrl = useCallback((dataUrl: string) => {
+    normalizeOrientation(dataUrl)
+      .then(upright => {
+        setImageSrc(upright);
         setPreviewSrc(null); // Reset preview when changing image
+      })
+      .catch(error => console.error('Error loading image:', error));
+  }, []);
+
+  const loadFile = useCallback((file: Blob) => {
+    readFileAsDataURL(file)
+      .then(loadDataUrl)
+      .catch(error => console.error('Error reading image:', error));
+  }, [loadDataUrl]);
+
+  // One file opens the regular editor, several start a batch
+  const loadFiles = useCallback((files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+
+    setBatch([]);
+    setActiveBatchId(null);
+    setBatchError(null);
+    if (images.length === 1) {
+      setImageName(images[0].name);
+      loadFile(images[0]);
+      return;
+    }
+
+    // Images that can't be read are left out rather than failing the whole batch
+    Promise.allSettled(images.map(file => readFileAsDataURL(file).then(normalizeOrientation)))
+      .then(results => {
+        const skipped: string[] = [];
+        const items: BatchItem[] = [];
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            items.push({ id: `${Date.now()}-${index}`, name: images[index].name, src: result.value, crop: null });
+          } else {
+            console.error(`Error reading ${images[index].name}:`, result.reason);
+            skipped.push(images[index].name);
+          }
+        });
+        if (skipped.length > 0) {
+          setBatchError(`Couldn't read ${skipped.join(', ')}, so ${skipped.length === 1 ? 'it was' : 'they were'} left out.`);
+        }
+        if (items.length === 0) return;
+
+        setBatch(items);
+        setActiveBatchId(items[0].id);
+        setImageSrc(items[0].src);
+        setPreviewSrc(null);
       });
-      reader.readAsDataURL(e.target.files[0]);
+  }, [loadFile]);
+
+  // Load the image passed in by the parent
+  useEffect(() => {
+    if (!src) return;
+    setImageName(getSourceName(src));
+    if (typeof src !== 'string') {
+      loadFile(src);
+    } else if (src.startsWith('data:')) {
+      loadDataUrl(src);
+    } else {
+      setImageSrc(src);
+      setPreviewSrc(null);
+    }
+  }, [src, loadFile, loadDataUrl]);
+
+  const onSelectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      loadFiles(Array.from(e.target.files));
     }
   };
 
   const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
-    const { width, height } = e.currentTarget;
+    const { naturalWidth, naturalHeight } = e.currentTarget;
     imgRef.current = e.currentTarget;
-    
-    // Set initial crop to encompass the entire image
-    const initialCrop: Crop = {
-      unit: 'px',
-      x: 0,
-      y: 0,
-      width: width,
-      height: height
-    };
-    
-    setCrop(initialCrop);
-  };  // Helper function to create a cropped image canvas
-  const createCroppedCanvas = useCallback((
-    scale: number = 1,
-  ): HTMLCanvasElement | null => {
-    if (!imgRef.current || !crop) return null;
+    setImageSize({ naturalWidth, naturalHeight });
+    setSmartCrops(null);
 
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
+    // A restored session brings back its own edit
+    const restored = restoringSession.current;
+    if (restored) {
+      restoringSession.current = null;
+      isInitialLoad.current = false;
+      const restoredEdit = {
+        transform: { ...restored.edit.transform },
+        aspect: restored.edit.aspect ?? undefined,
+        preset: restored.edit.preset,
+      };
+      setSession({ id: restored.id, name: restored.name, thumbnail: restored.thumbnail, src: imageSrc ?? '' });
+      history.reset(restoredEdit);
+      notifyTransformChange(restoredEdit.transform);
+      return;
+    }
 
-    // Get the actual pixel dimensions
-    const scaleX = imgRef.current.naturalWidth / imgRef.current.width;
-    const scaleY = imgRef.current.naturalHeight / imgRef.current.height;
+    // Batch images keep one session each when revisited
+    const activeItem = batch.find(item => item.id === activeBatchId);
+    setSession({
+      id: activeItem?.id ?? createSessionId(),
+      name: activeItem?.name ?? imageName,
+      thumbnail: createThumbnail(e.currentTarget),
+      src: imageSrc ?? '',
+    });
 
-    // Apply zoom factor to scaling calculations
-    const zoomScaleX = scaleX / zoom;
-    const zoomScaleY = scaleY / zoom;
-    
-    // Set canvas size to match the crop dimensions with optional scaling
-    const baseWidth = crop.unit === '%' 
-      ? Math.floor((crop.width / 100) * imgRef.current.naturalWidth)
-      : Math.floor(crop.width * zoomScaleX);
-    const baseHeight = crop.unit === '%'
-      ? Math.floor((crop.height / 100) * imgRef.current.naturalHeight)
-      : Math.floor(crop.height * zoomScaleY);
-    
-    // Apply output scaling
-    canvas.width = Math.floor(baseWidth * scale);
-    canvas.height = Math.floor(baseHeight * scale);
+    if (isInitialLoad.current) {
+      isInitialLoad.current = false;
+      const presetEdit = initialPreset ? getPresetEdit(initialPreset) : null;
+      if (presetEdit) {
+        history.reset(presetEdit);
+        notifyTransformChange(presetEdit.transform);
+      }
+      return;
+    }
 
-    ctx.imageSmoothingQuality = 'high';
-    ctx.imageSmoothingEnabled = true;
+    // A new image starts a new history. Batch images keep the shared preset and
+    // get their own crop, or the preset's centered crop; others use the loaded
+    // recipe or the entire image.
+    const batchItem = batch.find(item => item.id === activeBatchId);
+    if (activeRecipe && !batchItem) {
+      const recipeEdit = getRecipeEdit(activeRecipe.recipe);
+      history.reset(recipeEdit);
+      notifyTransformChange(recipeEdit.transform);
+      return;
+    }
 
-    // Calculate crop coordinates adjusted for zoom
-    const cropX = crop.unit === '%'
-      ? (crop.x / 100) * imgRef.current.naturalWidth
-      : crop.x * zoomScaleX;
-    const cropY = crop.unit === '%'
-      ? (crop.y / 100) * imgRef.current.naturalHeight
-      : crop.y * zoomScaleY;
+    const frame = getImageFrame(e.currentTarget);
+    const crop = batchItem
+      ? batchItem.crop ?? (aspect ? centerAspectCrop(frame.width, frame.height, aspect) : FULL_CROP)
+      : FULL_CROP;
+    const next = { ...edit, transform: { ...currentTransform, crop }, preset: batchItem ? edit.preset : null };
+    history.reset(next);
+    notifyTransformChange(next.transform);
+  };
 
-    const rotRad = (rotation * Math.PI) / 180;
+  // Keep the session in IndexedDB; the image is written once, the edit after every change
+  useEffect(() => {
+    if (!session || session.src !== imageSrc) return;
+    const timer = setTimeout(() => {
+      const { id, name, thumbnail, src: image } = session;
+      const isImageStored = storedSessionImages.current.has(id);
+      saveSession({
+        id,
+        name,
+        thumbnail,
+        edit: { transform: currentTransform, aspect: aspect ?? null, preset: selectedPreset },
+        updatedAt: Date.now(),
+      }, isImageStored ? undefined : image).then(saved => {
+        // Until a save goes through, each save carries the image again
+        if (saved) storedSessionImages.current.add(id);
+      });
+    }, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [session, imageSrc, currentTransform, aspect, selectedPreset, saveSession]);
 
-    ctx.save();
+  const restoreSession = async (id: string) => {
+    const stored = savedSessions.sessions.find(candidate => candidate.id === id);
+    if (!stored) return;
 
-    // Apply flips first
-    ctx.translate(flipHorizontal ? canvas.width : 0, flipVertical ? canvas.height : 0);
-    ctx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
-    
-    // Then apply rotation around the center of the (possibly flipped) canvas
-    ctx.translate(canvas.width / 2, canvas.height / 2);
-    ctx.rotate(rotRad);
-    ctx.translate(-canvas.width / 2, -canvas.height / 2);
-
-    // Draw the cropped image with scaling
-    ctx.drawImage(
-      imgRef.current,
-      cropX,
-      cropY,
-      baseWidth / scale,
-      baseHeight / scale,
-      0,
-      0,
-      canvas.width,
-      canvas.height
-    );    // Apply image adjustments (brightness, contrast, saturation)
-    if (brightness !== 100 || contrast !== 100 || saturation !== 100 || activeFilter) {
-      // Get the image data to apply adjustments
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imageData.data;
-
-      // Get filter adjustments if a filter is active
-      let brightnessValue = brightness / 100;
-      let contrastValue = contrast / 100;
-      let saturationValue = saturation / 100;
-      
-      // Apply filter adjustments if a filter is selected
-      if (activeFilter && filters[activeFilter as keyof typeof filters]) {
-        const filterAdjustments = filters[activeFilter as keyof typeof filters].adjustments;
-        brightnessValue = (filterAdjustments.brightness / 100) * brightnessValue;
-        contrastValue = (filterAdjustments.contrast / 100) * contrastValue;
-        saturationValue = (filterAdjustments.saturation / 100) * saturationValue;
-      }
+    try {
+      const image = await savedSessions.getSessionImage(id);
+      if (!image) throw new Error('The image is no longer stored');
+      storedSessionImages.current.add(id);
+      restoringSession.current = stored;
+      setBatch([]);
+      setActiveBatchId(null);
+      setImageSrc(image);
+      setPreviewSrc(null);
+    } catch (error) {
+      console.error('Error restoring session:', error);
+      savedSessions.removeSession(id);
+    }
+  };
 
-      // Apply adjustments to each pixel
-      for (let i = 0; i < data.length; i += 4) {
-        // Apply brightness
-        if (brightness !== 100) {
-          data[i] = Math.min(255, Math.max(0, data[i] * brightnessValue));     // R
-          data[i + 1] = Math.min(255, Math.max(0, data[i + 1] * brightnessValue)); // G
-          data[i + 2] = Math.min(255, Math.max(0, data[i + 2] * brightnessValue)); // B
-        }
+  useEffect(() => {
+    const cropArea = cropAreaRef.current;
+    if (!cropArea) return;
 
-        // Apply contrast
-        if (contrast !== 100) {
-          const factor = (259 * (contrastValue * 255 + 255)) / (255 * (259 - contrastValue * 255));
-          data[i] = Math.min(255, Math.max(0, factor * (data[i] - 128) + 128));
-          data[i + 1] = Math.min(255, Math.max(0, factor * (data[i + 1] - 128) + 128));
-          data[i + 2] = Math.min(255, Math.max(0, factor * (data[i + 2] - 128) + 128));
-        }
+    const observer = new ResizeObserver(() => setCropAreaWidth(cropArea.clientWidth));
+    observer.observe(cropArea);
+    setCropAreaWidth(cropArea.clientWidth);
+    return () => observer.disconnect();
+  }, [imageSrc]);
 
-        // Apply saturation
-        if (saturation !== 100) {
-          const gray = 0.2989 * data[i] + 0.5870 * data[i + 1] + 0.1140 * data[i + 2]; // Weighted grayscale conversion
-          data[i] = Math.min(255, Math.max(0, gray + saturationValue * (data[i] - gray)));
-          data[i + 1] = Math.min(255, Math.max(0, gray + saturationValue * (data[i + 1] - gray)));
-          data[i + 2] = Math.min(255, Math.max(0, gray + saturationValue * (data[i + 2] - gray)));
-        }
-      }
+  // The rotated frame is displayed scaled to fit the crop area, never enlarged
+  const frame = imageSize ? getImageFrame(imageSize) : null;
+  const displayScale = frame
+    ? Math.min(1, (cropAreaWidth || frame.width) / frame.width, CROP_AREA_MAX_HEIGHT / frame.height)
+    : 1;
+  const imageStyle: React.CSSProperties = {
+    transform: `scale(${zoom}) scaleX(${flipHorizontal ? -1 : 1}) scaleY(${flipVertical ? -1 : 1}) rotate(${rotation}deg)`,
+    ...(frame && imageSize ? {
+      position: 'absolute',
+      left: (frame.width - imageSize.naturalWidth) * displayScale / 2,
+      top: (frame.height - imageSize.naturalHeight) * displayScale / 2,
+      width: imageSize.naturalWidth * displayScale,
+      height: imageSize.naturalHeight * displayScale,
+      maxWidth: 'none',
+    } : {
+      maxWidth: '100%',
+      maxHeight: `${CROP_AREA_MAX_HEIGHT}px`,
+    }),
+  };
 
-      // Put the modified image data back on the canvas
-      ctx.putImageData(imageData, 0, 0);
+  // Adjustments and the filter are shown by drawing the image through the same
+  // pipeline as the export, at display size, over the untouched image
+  const editedImageRef = useRef<HTMLCanvasElement>(null);
+  const { adjustments } = currentTransform;
+  const isAdjusted = hasAdjustments(adjustments);
+  const isPixelEdited = isAdjusted || Boolean(getFilter(activeFilter, customFilters.filters)?.operations.length);
+  const editedImageWidth = imageSize
+    ? Math.max(1, Math.round(Math.min(imageSize.naturalWidth, imageSize.naturalWidth * displayScale * 2)))
+    : 0;
+
+  useEffect(() => {
+    const canvas = editedImageRef.current;
+    if (!canvas || !imgRef.current || !isPixelEdited) return;
+
+    try {
+      drawPixels(canvas, renderCrop(imgRef.current, [{ type: 'adjust', adjustments, filter: activeFilter, filterIntensity, customFilters: customFilters.filters }], {
+        scale: 1,
+        width: editedImageWidth,
+      }));
+    } catch (error) {
+      console.error('Error drawing adjustments:', error);
     }
-  ctx.restore();
-    return canvas;
-  }, [imgRef, crop, rotation, flipHorizontal, flipVertical, brightness, contrast, saturation, zoom, activeFilter, filters]);
-  // Function to download a single cropped image
-  const downloadCroppedImage = (
-    format: 'jpeg' | 'png' | 'webp' = 'jpeg',
-    quality: number = 0.92,
-    scale: number = 1,
-    customFilename?: string
-  ) => {
-    const canvas = createCroppedCanvas(scale);
-    if (!canvas) return;
+  }, [isPixelEdited, adjustments, activeFilter, filterIntensity, customFilters.filters, editedImageWidth, imageSrc]);
 
-    const link = document.createElement('a');
-    const filename = customFilename || `cropped-image-${scale.toFixed(1)}x.${format}`;
-    link.download = filename;
-    
-    // Handle EXIF data
-    if (preserveExif && imageSrc && imageSrc.startsWith('data:image/')) {
-      try {
-        // Create a new image with the same dimensions as the canvas
-        const img = new Image();
-        img.src = imageSrc;
-        
-        // Create a temporary canvas to combine the cropped image with EXIF data
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = canvas.width;
-        tempCanvas.height = canvas.height;
-        const tempCtx = tempCanvas.getContext('2d');
-        if (tempCtx) {
-          // Draw the cropped image on the temporary canvas
-          tempCtx.drawImage(canvas, 0, 0);
-          
-          // Get the cropped image data without EXIF
-          const croppedImageData = tempCanvas.toDataURL(`image/${format}`, quality);
-          
-          // Extract base64 part of data URL
-          const base64Data = croppedImageData.split(',')[1];
-          
-          // Extract EXIF data from original image
-          const originalBase64 = imageSrc.split(',')[1];
-          const exifData = extractExifData(originalBase64);
-          
-          // If EXIF data exists and format supports it (JPEG)
-          if (exifData && format === 'jpeg') {
-            // Combine EXIF data with cropped image
-            const imageWithExif = insertExifData(base64Data, exifData);
-            link.href = `data:image/jpeg;base64,${imageWithExif}`;
-          } else {
-            // Just use the regular data URL if no EXIF or format doesn't support it
-            link.href = croppedImageData;
-          }
-        }
-      } catch (error) {
-        console.error('Error preserving EXIF data:', error);
-        // Fallback to standard method without EXIF
-        link.href = canvas.toDataURL(`image/${format}`, quality);
-      }
-    } else {
-      // Standard method without preserving EXIF
-      link.href = canvas.toDataURL(`image/${format}`, quality);
+  // Clipping is only marked while the adjustments that cause it are open
+  const clippingRef = useRef<HTMLCanvasElement>(null);
+  const isClippingShown = showAdjustments && showClipping;
+
+  useEffect(() => {
+    const canvas = clippingRef.current;
+    if (!canvas || !imgRef.current || !isClippingShown) return;
+
+    try {
+      drawPixels(canvas, markClipping(renderCrop(imgRef.current, [{ type: 'adjust', adjustments, filter: activeFilter, filterIntensity, customFilters: customFilters.filters }], {
+        scale: 1,
+        width: editedImageWidth,
+      })));
+    } catch (error) {
+      console.error('Error drawing clipping:', error);
     }
-    
-    link.click();
-  };
+  }, [isClippingShown, adjustments, activeFilter, filterIntensity, customFilters.filters, editedImageWidth, imageSrc]);
 
-  // Function to handle single download (original behavior)
-  const handleSingleDownload = () => {
-    downloadCroppedImage(outputFormat, outputQuality, 1);
-  };
+  // ReactCrop works in displayed pixels, the transform in pixels of the rotated frame
+  const displayCrop = useMemo((): Crop | undefined => {
+    if (!imageSize) return undefined;
 
-  // Function to handle multiple downloads
-  const handleMultipleDownloads = () => {
-    // Filter only enabled output options
-    const enabledOptions = outputOptions.filter(option => option.enabled);
-    
-    if (enabledOptions.length === 0) {
-      // If no options are enabled, download with default settings
-      handleSingleDownload();
+    const { crop } = currentTransform;
+    if (crop.unit === '%') return { ...crop };
+
+    return { unit: 'px', x: crop.x * displayScale, y: crop.y * displayScale, width: crop.width * displayScale, height: crop.height * displayScale };
+  }, [imageSize, currentTransform, displayScale]);
+
+  // Drags are coalesced into one history entry, closed by ReactCrop's onComplete
+  const setDisplayCrop = (crop: Crop) => {
+    if (!imageSize) return;
+
+    if (crop.unit === '%') {
+      updateTransform({ crop: { unit: '%', x: crop.x, y: crop.y, width: crop.width, height: crop.height } }, { coalesce: 'crop' });
       return;
     }
-    
-    // Download each enabled version
-    enabledOptions.forEach((option, index) => {
-      // Small delay between downloads to prevent browser blocking
-      setTimeout(() => {
-        const filename = `cropped-image-${option.label.toLowerCase().replace(/\s+/g, '-')}.${option.format}`;
-        downloadCroppedImage(option.format, option.quality, option.scale, filename);
-      }, index * 100);
-    });
+
+    updateTransform({
+      crop: {
+        unit: 'px',
+        x: crop.x / displayScale,
+        y: crop.y / displayScale,
+        width: crop.width / displayScale,
+        height: crop.height / displayScale,
+      },
+    }, { coalesce: 'crop' });
   };
 
-  // Main download handler
-  const handleDownload = () => {
-    if (showMultipleOptions) {
-      handleMultipleDownloads();
-    } else {
-      handleSingleDownload();
-    }
+  // Shared, DOM-free description of the current edit, once an image is loaded
+  const cropTransform = imageSize ? currentTransform : null;
+
+  const activePreset = allPresets.find(preset => preset.name === selectedPreset) ?? null;
+
+  const hasExactSize = (output: OutputSize) => Boolean(output.width || output.height);
+
+  // Presets export at their exact pixel size, times the output scale; explicit sizes win over both
+  const getOutputTarget = (output: OutputSize): OutputSize => {
+    if (hasExactSize(output) || !activePreset) return output;
+    const size = getPresetPixelSize(activePreset);
+    return {
+      scale: 1,
+      width: Math.round(size.width * output.scale),
+      height: Math.round(size.height * output.scale),
+    };
   };
 
-  const handleAspectRatioChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const value = e.target.value;
-    const newAspect = value === 'free' ? undefined : Number(value);
-    setAspect(newAspect);
-    
-    if (imgRef.current) {
-      const { width, height } = imgRef.current;
-      const newCrop = centerAspectCrop(width, height, newAspect);
-      setCrop(newCrop);
-    }
-    
-    // Clear any selected preset when manually changing aspect ratio
-    setSelectedPreset(null);
+  // Print resolution for an output of `width` pixels, keeping the preset's physical size
+  const getOutputDpi = (width: number): number | null => {
+    if (!activePreset?.dpi) return null;
+    return Math.round((activePreset.dpi * width) / getPresetPixelSize(activePreset).width);
   };
-  /**
-   * Applies a preset crop dimension to the current image.
-   * Centers the crop with the specified aspect ratio from the preset.
-   * 
-   * @param presetName - The name of the preset to apply
-   * @return void
-   */
-  const applyPreset = (presetName: string) => {
-    if (!imgRef.current) return;
-    
-    const preset = CROP_PRESETS.find(p => p.name === presetName);
-    if (!preset) return;
-    
-    // Set the aspect ratio based on the preset
-    setAspect(preset.aspectRatio);
-    
-    // Apply the crop with the new aspect ratio
-    const { width, height } = imgRef.current;
-    const newCrop = centerAspectCrop(width, height, preset.aspectRatio);
-    setCrop(newCrop);
-    
-    // Update selected preset
-    setSelectedPreset(presetName);
-    
-    // Generate a new preview with the updated crop
-    generatePreview();
+
+  // The selected area in pixels of the rotated frame, and the largest enlargement an export would apply to it
+  const selectedArea = frame ? resolvePixelCrop(currentTransform.crop, zoom, frame.width, frame.height) : null;
+  const upscale = (() => {
+    if (!selectedArea) return null;
+    const enabledOptions = showMultipleOptions ? outputOptions.filter(option => option.enabled) : [];
+    const outputs: OutputSize[] = enabledOptions.length > 0 ? enabledOptions : [{ scale: 1 }];
+    return outputs
+      .map(output => {
+        const size = getOutputSize(selectedArea, getOutputTarget(output));
+        return { ...size, factor: getUpscaleFactor(selectedArea, size) };
+      })
+      .reduce((largest, candidate) => (candidate.factor > largest.factor ? candidate : largest));
+  })();
+
+  // Typed crops are in pixels of the rotated frame and kept within the crop area at the current
+  // zoom; with the aspect ratio locked, the edited side leads
+  const setCropPixels = (patch: Partial<PixelCrop>, field: keyof PixelCrop) => {
+    if (!frame || !selectedArea) return;
+
+    const changed = field === 'width' || field === 'height' ? field : undefined;
+    const crop = constrainPixelCrop(
+      { ...selectedArea, ...patch },
+      { width: frame.width / zoom, height: frame.height / zoom },
+      changed ? { aspect, changed } : {}
+    );
+    updateTransform({ crop: toPixelRegion(crop, zoom) }, { coalesce: 'crop' });
   };
 
-  const handleDrag = useCallback((e: React.DragEvent) => {
+  // Arrow keys nudge by a pixel, or ten with Shift
+  const handleCropFieldKeyDown = (field: keyof PixelCrop) => (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!selectedArea || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
     e.preventDefault();
-    e.stopPropagation();
-  }, []);
+    const step = (e.shiftKey ? 10 : 1) * (e.key === 'ArrowUp' ? 1 : -1);
+    setCropPixels({ [field]: Math.round(selectedArea[field]) + step }, field);
+  };
 
-  const handleDragIn = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    if (e.dataTransfer.items && e.dataTransfer.items.length > 0) {
-      setIsDragging(true);
+  const toggleAspectLock = () => {
+    if (aspect !== undefined) {
+      updateEdit({ aspect: undefined, preset: null });
+    } else if (selectedArea) {
+      updateEdit({ aspect: selectedArea.width / selectedArea.height });
     }
-  }, []);
+  };
 
-  const handleDragOut = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setIsDragging(false);
-  }, []);
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setIsDragging(false);
+  // Suggestions go stale when the image is turned or the aspect ratio changes
+  const smartCropKey = [aspect, rotation, rotationMode, flipHorizontal, flipVertical].join(':');
+  const smartCropSuggestions = smartCrops?.key === smartCropKey ? smartCrops.suggestions : null;
 
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('image/')) {
-        const reader = new FileReader();
-        reader.addEventListener('load', () => {
-          setImageSrc(reader.result?.toString() || null);
-          setPreviewSrc(null); // Reset preview when changing image
-        });
-        reader.readAsDataURL(file);
-      }
-    }
-  }, []);  // Function to generate preview image
-  const generatePreview = useCallback(() => {
-    if (!showPreview) {
-      setPreviewSrc(null);
-      return;
-    }
+  // Analyses a small copy of the rotated frame; without a locked aspect ratio the crop keeps its proportions
+  const findSmartCrops = () => {
+    if (!imgRef.current || !frame) return;
+    const suggestionAspect = aspect ?? (selectedArea ? selectedArea.width / selectedArea.height : frame.width / frame.height);
+    const frameTransform = { ...DEFAULT_CROP_TRANSFORM, rotation, rotationMode, background, flipHorizontal, flipVertical };
 
-    const canvas = createCroppedCanvas(1);
+    try {
+      const pixels = renderCrop(imgRef.current, toCropOperations(frameTransform), { scale: 1, width: SMART_CROP_SAMPLE_WIDTH });
+      setSmartCrops({ key: smartCropKey, suggestions: suggestCrops(pixels, { aspect: suggestionAspect }) });
+    } catch (error) {
+      console.error('Error finding smart crops:', error);
+      setSmartCrops({ key: smartCropKey, suggestions: [] });
+    }
+  };
+
+  // Each filter drawn on a small copy of the rotated frame, as it will be exported
+  const filterThumbnails = useMemo<Record<string, string>>(() => {
+    if (!showFilters || !imageSize || !imgRef.current) return {};
+    const frameTransform = { ...DEFAULT_CROP_TRANSFORM, rotation, rotationMode, background, flipHorizontal, flipVertical };
+
+    try {
+      const base = renderCrop(imgRef.current, toCropOperations(frameTransform), { scale: 1, width: FILTER_THUMBNAIL_WIDTH });
+      return Object.fromEntries([...FILTERS, ...customFilters.filters].map(({ id }) => [
+        id,
+        pixelsToCanvas(adjustPixels(base, DEFAULT_ADJUSTMENTS, id, 100, customFilters.filters)).toDataURL('image/png'),
+      ]));
+    } catch (error) {
+      console.error('Error drawing filter thumbnails:', error);
+      return {};
+    }
+  }, [showFilters, imageSize, rotation, rotationMode, background, flipHorizontal, flipVertical, customFilters.filters]);
+
+  const applySmartCrop = (suggestion: CropSuggestion) => {
+    updateTransform({
+      crop: {
+        unit: '%',
+        x: suggestion.x * 100,
+        y: suggestion.y * 100,
+        width: suggestion.width * 100,
+        height: suggestion.height * 100,
+      },
+    });
+  };
+
+  // Photo rules for document presets, checked against the rendered crop and the head guides
+  const complianceRuleSets = getRuleSetsForPreset(selectedPreset);
+  const complianceRuleSet = complianceRuleSets.find(ruleSet => ruleSet.id === complianceRuleSetId) ?? null;
+  const markers = complianceRuleSet ? headMarkers ?? getDefaultMarkers(complianceRuleSet) : null;
+
+  const backgroundStats = useMemo(() => {
+    if (!complianceRuleSet || !imgRef.current || !cropTransform) return null;
+    const pixels = renderCrop(imgRef.current, toCropOperations(cropTransform, customFilters.filters), {
+      scale: 1,
+      width: COMPLIANCE_SAMPLE_WIDTH,
+    });
+    return measureBackground(pixels);
+  }, [complianceRuleSet, cropTransform, customFilters.filters]);
+
+  // Histogram of the crop as it will be exported, while the adjustments are open
+  const histogram = useMemo(() => {
+    if (!showAdjustments || !imgRef.current || !cropTransform) return null;
+    try {
+      return computeHistogram(
+        renderCrop(imgRef.current, toCropOperations(cropTransform, customFilters.filters), { scale: 1, width: HISTOGRAM_SAMPLE_WIDTH })
+      );
+    } catch (error) {
+      console.error('Error measuring histogram:', error);
+      return null;
+    }
+  }, [showAdjustments, cropTransform, customFilters.filters]);
+
+  // Auto adjustments measure the crop without the filter and without the sliders they set,
+  // so applying one twice gives the same values
+  const measureCrop = (adjustments: Adjustments) => {
+    if (!imgRef.current || !cropTransform) return null;
+    try {
+      return renderCrop(imgRef.current, toCropOperations({ ...cropTransform, adjustments, filter: null }), {
+        scale: 1,
+        width: HISTOGRAM_SAMPLE_WIDTH,
+      });
+    } catch (error) {
+      console.error('Error measuring the image:', error);
+      return null;
+    }
+  };
+
+  const applyAutoAdjustment = (kind: 'levels' | 'contrast' | 'whiteBalance') => {
+    const current = currentTransform.adjustments;
+    if (kind === 'whiteBalance') {
+      // White balance comes first in the pipeline, after exposure only
+      const pixels = measureCrop({ ...DEFAULT_ADJUSTMENTS, exposure: current.exposure });
+      if (pixels) updateTransform({ adjustments: { ...current, ...autoWhiteBalance(pixels) } });
+      return;
+    }
+
+    const pixels = measureCrop({ ...current, brightness: 100, contrast: 100, sharpness: 0 });
+    if (!pixels) return;
+    const measured = computeHistogram(pixels);
+    updateTransform({
+      adjustments: { ...current, ...(kind === 'levels' ? autoLevels(measured) : autoContrast(measured)) },
+    });
+  };
+
+  const complianceResults = complianceRuleSet && markers && selectedArea && backgroundStats
+    ? checkCompliance(complianceRuleSet, selectedArea, markers, backgroundStats)
+    : null;
+  const failedRules = complianceResults?.filter(result => !result.passed) ?? [];
+
+  const selectRuleSet = (id: string) => {
+    const ruleSet = complianceRuleSets.find(candidate => candidate.id === id) ?? null;
+    setComplianceRuleSetId(ruleSet?.id ?? null);
+    setHeadMarkers(ruleSet ? getDefaultMarkers(ruleSet) : null);
+  };
+
+  // Head guides stay within the crop selection
+  const moveHeadMarker = (marker: keyof HeadMarkers, position: number) => {
+    if (!markers) return;
+    setHeadMarkers({ ...markers, [marker]: Math.min(1, Math.max(0, position)) });
+  };
+
+  // Helper function to create a cropped image canvas
+  const createCroppedCanvas = useCallback((
+    scale: number = 1,
+  ): HTMLCanvasElement | null => {
+    if (!imgRef.current || !cropTransform) return null;
+
+    const pixels = renderCrop(imgRef.current, toCropOperations(cropTransform, customFilters.filters), { scale });
+    return pixelsToCanvas(pixels);
+  }, [imgRef, cropTransform, customFilters.filters]);
+
+  // Encode a cropped image as a data URL, carrying over metadata from its source when requested
+  const encodeImage = (
+    image: HTMLImageElement,
+    sourceSrc: string | null,
+    imageTransform: CropTransform,
+    format: OutputFormat = 'jpeg',
+    quality: number = 0.92,
+    output: OutputSize = { scale: 1 }
+  ): { dataUrl: string; width: number; height: number; dpi: number | null } => {
+    const canvas = pixelsToCanvas(renderCrop(image, toCropOperations(imageTransform, customFilters.filters), getOutputTarget(output)));
+
+    const result = {
+      dataUrl: canvas.toDataURL(`image/${format}`, quality),
+      width: canvas.width,
+      height: canvas.height,
+      dpi: getOutputDpi(canvas.width),
+    };
+
+    // Carry over the source's metadata, updated to describe the output
+    if (preserveMetadata && sourceSrc && sourceSrc.startsWith('data:image/')) {
+      try {
+        const sourceMetadata = readMetadata(dataUrlToBytes(sourceSrc));
+        const metadata = stripMetadata(prepareOutputMetadata(sourceMetadata, canvas, result.dpi ?? undefined), strippedMetadata);
+        const bytes = writeMetadata(dataUrlToBytes(result.dataUrl), metadata);
+        result.dataUrl = bytesToDataUrl(bytes, `image/${detectImageFormat(bytes) ?? format}`);
+      } catch (error) {
+        console.error('Error preserving metadata:', error);
+      }
+    }
+
+    // Print presets record their resolution so the file prints at the right size
+    if (result.dpi) {
+      const bytes = writeResolution(dataUrlToBytes(result.dataUrl), result.dpi);
+      result.dataUrl = bytesToDataUrl(bytes, `image/${detectImageFormat(bytes) ?? format}`);
+    }
+
+    return result;
+  };
+
+  // Encode the image being edited
+  const encodeCroppedImage = (
+    format: OutputFormat = 'jpeg',
+    quality: number = 0.92,
+    output: OutputSize = { scale: 1 }
+  ): { dataUrl: string; width: number; height: number; dpi: number | null } | null => {
+    if (!imgRef.current || !cropTransform) return null;
+    return encodeImage(imgRef.current, imageSrc, cropTransform, format, quality, output);
+  };
+
+  // Function to download a single cropped image
+  const downloadCroppedImage = (
+    format: OutputFormat = 'jpeg',
+    quality: number = 0.92,
+    output: OutputSize = { scale: 1 },
+    customFilename?: string
+  ) => {
+    const encoded = encodeCroppedImage(format, quality, output);
+    if (!encoded) return;
+
+    const size = hasExactSize(getOutputTarget(output))
+      ? `${encoded.width}x${encoded.height}`
+      : `${output.scale.toFixed(1)}x`;
+    downloadUrl(encoded.dataUrl, customFilename || `cropped-image-${size}.${format}`);
+  };
+
+  // The crop for the print sheet, at the size of one photo on it
+  const renderSheetPhoto = (width: number, height: number) => {
+    if (!imgRef.current || !cropTransform) return null;
+    return renderCrop(imgRef.current, toCropOperations(cropTransform, customFilters.filters), { scale: 1, width, height });
+  };
+
+  // Hand the cropped image to the embedding form
+  const handleComplete = () => {
+    if (!onComplete) return;
+
+    const encoded = encodeCroppedImage(outputFormat, outputQuality);
+    if (!encoded) return;
+
+    onComplete(dataUrlToBlob(encoded.dataUrl), {
+      transform: currentTransform,
+      format: outputFormat,
+      quality: outputQuality,
+      width: encoded.width,
+      height: encoded.height,
+      dpi: encoded.dpi,
+      preset: selectedPreset,
+    });
+  };
+
+  // Function to handle single download (original behavior)
+  const handleSingleDownload = () => {
+    downloadCroppedImage(outputFormat, outputQuality);
+  };
+
+  // Function to handle multiple downloads
+  const handleMultipleDownloads = async () => {
+    // Filter only enabled output options
+    const enabledOptions = outputOptions.filter(option => option.enabled);
+    
+    if (enabledOptions.length === 0) {
+      // If no options are enabled, download with default settings
+      handleSingleDownload();
+      return;
+    }
+
+    if (bundleZip) {
+      const files: ExportedFile[] = [];
+      for (const option of enabledOptions) {
+        const encoded = encodeCroppedImage(option.format, option.quality, option);
+        if (!encoded) return;
+        files.push({
+          ...encoded,
+          filename: `cropped-image-${toSlug(option.label)}.${option.format}`,
+          source: null,
+          preset: selectedPreset,
+          format: option.format,
+          quality: option.quality,
+          scale: option.scale,
+        });
+      }
+      downloadBlob(createExportArchive(files), ARCHIVE_FILENAME);
+      return;
+    }
+    
+    // Download each enabled version, pausing between them to prevent browser blocking
+    const taken = new Set<string>();
+    for (const [index, option] of enabledOptions.entries()) {
+      if (index > 0) await delay(DOWNLOAD_DELAY_MS);
+      const filename = uniqueFilename(`cropped-image-${toSlug(option.label)}.${option.format}`, taken);
+      downloadCroppedImage(option.format, option.quality, option, filename);
+    }
+  };
+
+  // Crop for a batch image: the live crop for the one being edited, otherwise its own or the preset's
+  const getBatchItemCrop = (item: BatchItem, image: HTMLImageElement): CropRegion => {
+    if (item.id === activeBatchId) return currentTransform.crop;
+    if (item.crop || !aspect) return item.crop ?? FULL_CROP;
+
+    const frame = getImageFrame(image);
+    return centerAspectCrop(frame.width, frame.height, aspect);
+  };
+
+  // Export every batch image with the shared edit, in every enabled output version,
+  // either one file at a time or bundled into a single ZIP
+  const handleBatchDownload = async () => {
+    const enabledOptions = showMultipleOptions ? outputOptions.filter(option => option.enabled) : [];
+    const outputs = enabledOptions.length > 0
+      ? enabledOptions
+      : [{ format: outputFormat, quality: outputQuality, scale: 1, label: '' }];
+
+    const files: ExportedFile[] = [];
+    const taken = new Set<string>();
+    setBatchProgress(0);
+    try {
+      for (const [index, item] of batch.entries()) {
+        const image = await createImage(item.src);
+        const itemTransform = {
+          ...currentTransform,
+          crop: getBatchItemCrop(item, image),
+        };
+        const baseName = item.name.replace(/\.[^.]+$/, '') || `image-${index + 1}`;
+
+        for (const output of outputs) {
+          const encoded = encodeImage(image, item.src, itemTransform, output.format, output.quality, output);
+          const suffix = output.label ? `-${toSlug(output.label)}` : '';
+          const filename = uniqueFilename(`${baseName}-cropped${suffix}.${output.format}`, taken);
+
+          if (bundleZip) {
+            files.push({
+              ...encoded,
+              filename,
+              source: item.name,
+              preset: selectedPreset,
+              format: output.format,
+              quality: output.quality,
+              scale: output.scale,
+            });
+          } else {
+            downloadUrl(encoded.dataUrl, filename);
+            await delay(DOWNLOAD_DELAY_MS);
+          }
+        }
+        setBatchProgress(index + 1);
+      }
+
+      if (bundleZip) {
+        downloadBlob(createExportArchive(files), ARCHIVE_FILENAME);
+      }
+    } catch (error) {
+      console.error('Error exporting batch:', error);
+    } finally {
+      setBatchProgress(null);
+    }
+  };
+
+  const selectBatchItem = (id: string) => {
+    const item = batch.find(candidate => candidate.id === id);
+    if (!item || id === activeBatchId) return;
+
+    // Remember the crop of the image we're leaving
+    setBatch(items => items.map(candidate =>
+      candidate.id === activeBatchId ? { ...candidate, crop: currentTransform.crop } : candidate
+    ));
+    setActiveBatchId(id);
+    setImageSrc(item.src);
+    setPreviewSrc(null);
+    setImageSize(null);
+  };
+
+  const removeBatchItem = (id: string) => {
+    const index = batch.findIndex(item => item.id === id);
+    const remaining = batch.filter(item => item.id !== id);
+    setBatch(remaining);
+    if (id !== activeBatchId) return;
+
+    const next = remaining[Math.min(index, remaining.length - 1)];
+    setActiveBatchId(next?.id ?? null);
+    setImageSrc(next?.src ?? null);
+    setPreviewSrc(null);
+    setImageSize(null);
+  };
+
+  // Main download handler
+  const handleDownload = () => {
+    if (isBatch) {
+      handleBatchDownload();
+    } else if (showMultipleOptions) {
+      handleMultipleDownloads();
+    } else {
+      handleSingleDownload();
+    }
+  };
+
+  const handleAspectRatioChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    const newAspect = value === 'free' ? undefined : Number(value);
+    
+    const crop = frame
+      ? centerAspectCrop(frame.width, frame.height, newAspect)
+      : currentTransform.crop;
+    
+    // Clear any selected preset when manually changing aspect ratio
+    updateEdit({ transform: { ...currentTransform, crop }, aspect: newAspect, preset: null });
+    clearBatchCrops();
+  };
+  /**
+   * Builds the edit state for a preset: its aspect ratio and a centered crop.
+   * 
+   * @param presetName - The name of the preset to apply
+   * @return The new edit state, or null if the preset or image is missing
+   */
+  const getPresetEdit = (
+    presetName: string,
+    preset: CropPreset | undefined = allPresets.find(p => p.name === presetName)
+  ): EditState | null => {
+    if (!imgRef.current || !preset) return null;
+    
+    const { width, height } = getImageFrame(imgRef.current);
+    return {
+      transform: { ...currentTransform, crop: centerAspectCrop(width, height, preset.aspectRatio) },
+      aspect: preset.aspectRatio,
+      preset: presetName,
+    };
+  };
+
+  /**
+   * Applies a preset crop dimension to the current image.
+   * Centers the crop with the specified aspect ratio from the preset.
+   * 
+   * @param presetName - The name of the preset to apply
+   * @param preset - The preset itself, when it was only just saved
+   * @return void
+   */
+  const applyPreset = (presetName: string, preset?: CropPreset) => {
+    const presetEdit = getPresetEdit(presetName, preset);
+    if (!presetEdit) return;
+
+    updateEdit(presetEdit);
+    clearBatchCrops();
+    presetPicks.addRecent(presetName);
+  };
+
+  // The search box moves through the results with the arrow keys and applies one with Enter
+  const handlePresetSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape' && presetQuery) {
+      e.preventDefault();
+      setPresetQuery('');
+      setActivePresetIndex(0);
+      return;
+    }
+    if (visiblePresets.length === 0) return;
+
+    const count = visiblePresets.length;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActivePresetIndex((activePresetResult + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+    } else if (e.key === 'PageDown' || e.key === 'PageUp') {
+      e.preventDefault();
+      setActivePresetIndex(e.key === 'PageDown' ? count - 1 : 0);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      applyPreset(visiblePresets[activePresetResult].name);
+    }
+  };
+
+  // Keep the result picked with the keyboard on screen
+  useEffect(() => {
+    if (!showPresets || activePresetResult < 0) return;
+    document.getElementById(`preset-option-${activePresetResult}`)?.scrollIntoView?.({ block: 'nearest' });
+  }, [showPresets, activePresetResult]);
+
+  // A new aspect ratio invalidates the crops batch images were given
+  const clearBatchCrops = () => {
+    setBatch(items => items.map(item => ({ ...item, crop: null })));
+  };
+
+  const getRecipeEdit = (recipe: CropRecipe): EditState => ({
+    transform: { ...recipe.transform },
+    aspect: recipe.aspect ?? undefined,
+    preset: recipe.preset,
+  });
+
+  // Output settings come with the recipe; formats this cropper doesn't offer are left out
+  const applyRecipeOutput = (recipe: CropRecipe) => {
+    if (formats.includes(recipe.output.format)) setOutputFormat(recipe.output.format);
+    setOutputQuality(recipe.output.quality);
+
+    const versions = recipe.versions?.filter(version => formats.includes(version.format)) ?? [];
+    if (versions.length > 0) {
+      setOutputOptions(versions.map((version, index) => ({
+        id: String(index + 1),
+        enabled: version.enabled,
+        format: version.format,
+        quality: version.quality,
+        scale: version.scale,
+        width: version.width,
+        height: version.height,
+        label: version.label,
+      })));
+      setShowMultipleOptions(true);
+    }
+  };
+
+  const saveRecipe = () => {
+    if (!frame) return;
+
+    const versions = showMultipleOptions
+      ? outputOptions.map(option => ({
+        format: option.format,
+        quality: option.quality,
+        scale: option.scale,
+        ...(option.width ? { width: option.width } : {}),
+        ...(option.height ? { height: option.height } : {}),
+        label: option.label,
+        enabled: option.enabled,
+      }))
+      : undefined;
+    const recipe = createRecipe(edit, frame, { format: outputFormat, quality: outputQuality, scale: 1 }, versions);
+    downloadBlob(new Blob([serializeRecipe(recipe)], { type: 'application/json' }), RECIPE_FILENAME);
+  };
+
+  // Loading a recipe applies it to the current image, as one undoable step, and to images opened later
+  const handleRecipeLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const recipe = parseRecipe(JSON.parse(await file.text()));
+      setActiveRecipe({ name: file.name, recipe });
+      setRecipeError(null);
+      updateEdit(getRecipeEdit(recipe));
+      clearBatchCrops();
+      applyRecipeOutput(recipe);
+    } catch (error) {
+      setRecipeError(`Couldn't load ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  // .cube files are text; anything else is read as a HaldCLUT image
+  const handleLutLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const baseName = file.name.replace(/\.[^.]+$/, '');
+      let filter: FilterDefinition;
+      if (/\.cube$/i.test(file.name)) {
+        const { title, lut } = parseCubeLut(await file.text());
+        filter = createLutFilter(title ?? baseName, lut);
+      } else {
+        const image = await createImage(await readFileAsDataURL(file));
+        filter = createLutFilter(baseName, parseHaldClut(renderCrop(image, [])));
+      }
+      customFilters.addFilter(filter);
+      setLutError(null);
+      updateTransform({ filter: filter.id, filterIntensity: 100 });
+    } catch (error) {
+      setLutError(`Couldn't import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const removeCustomFilter = (id: string) => {
+    customFilters.removeFilter(id);
+    if (activeFilter === id) updateTransform({ filter: null });
+  };
+
+  // An applied preset stays applied, with its new name and size
+  const handleCustomPresetSave = (preset: CropPreset, previousName: string | null) => {
+    if (previousName !== null && previousName === selectedPreset) applyPreset(preset.name, preset);
+    setPresetCategory(preset.category);
+  };
+
+  const handleDrag = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+  }, []);
+
+  const handleDragIn = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.dataTransfer.items && e.dataTransfer.items.length > 0) {
+      setIsDragging(true);
+    }
+  }, []);
+
+  const handleDragOut = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+  }, []);
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      loadFiles(Array.from(e.dataTransfer.files));
+    }
+  }, [loadFiles]);  // Function to generate preview image
+  const generatePreview = useCallback(() => {
+    if (!showPreview) {
+      setPreviewSrc(null);
+      return;
+    }
+
+    // The preview is displayed small, so don't render it at full resolution
+    const imageFrame = imgRef.current && cropTransform
+      ? getRotatedFrame(imgRef.current.naturalWidth, imgRef.current.naturalHeight, cropTransform.rotation, cropTransform.rotationMode)
+      : null;
+    const pixelCrop = imageFrame && cropTransform
+      ? resolvePixelCrop(cropTransform.crop, cropTransform.zoom, imageFrame.width, imageFrame.height)
+      : null;
+    const previewScale = pixelCrop
+      ? Math.min(1, PREVIEW_MAX_SIZE / Math.max(pixelCrop.width, pixelCrop.height, 1))
+      : 1;
+
+    const canvas = createCroppedCanvas(previewScale);
     if (!canvas) {
       setPreviewSrc(null);
       return;
     }
 
-    // Generate preview URL
-    setPreviewSrc(canvas.toDataURL(`image/${outputFormat}`, outputQuality));
-  }, [showPreview, createCroppedCanvas, outputFormat, outputQuality]);
-  // Update preview when crop or image transformations change
-  useEffect(() => {    generatePreview();
-  }, [generatePreview, crop, rotation, zoom, flipHorizontal, flipVertical, brightness, contrast, saturation, outputFormat, outputQuality, activeFilter]);
+    // Generate preview URL
+    setPreviewSrc(canvas.toDataURL(`image/${outputFormat}`, outputQuality));
+  }, [showPreview, createCroppedCanvas, cropTransform, outputFormat, outputQuality]);
+  // Update preview when crop or image transformations change
+  useEffect(() => {    generatePreview();
+  }, [generatePreview, currentTransform, outputFormat, outputQuality]);
+
+  // Keyboard shortcuts for undo (Ctrl/Cmd+Z) and redo (Ctrl/Cmd+Shift+Z or Ctrl+Y)
+  const historyShortcuts = useRef({ undo: handleUndo, redo: handleRedo });
+  historyShortcuts.current = { undo: handleUndo, redo: handleRedo };
+
+  useEffect(() => {
+    if (!imageSrc) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      // Leave text and number fields to their native undo
+      const target = e.target as HTMLElement | null;
+      if (target && isEditableField(target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        historyShortcuts.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        historyShortcuts.current.redo();
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [imageSrc]);
+
+  // Escape leaves the straighten tool without rotating
+  useEffect(() => {
+    if (!straightening) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setStraightening(false);
+      setStraightenLine(null);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [straightening]);
+
+  return (
+    <Card className={cn('bg-white shadow-xl rounded-lg overflow-hidden', className)}>
+      <div className="p-6 space-y-6">
+        {!imageSrc ? (
+          <div 
+            className={`flex flex-col items-center justify-center p-8 border-2 border-dashed 
+              ${isDragging 
+                ? 'border-primary bg-primary/5' 
+                : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
+              } rounded-lg transition-colors`}
+            onDragEnter={handleDragIn}
+            onDragLeave={handleDragOut}
+            onDragOver={handleDrag}
+            onDrop={handleDrop}
+          >
+            <label className="w-full cursor-pointer">
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={onSelectFile}
+                className="hidden"
+              />
+              <div className="text-center">
+                <div className={`mx-auto h-12 w-12 mb-4 transition-colors
+                  ${isDragging ? 'text-primary' : 'text-gray-400'}`}>
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
+                  </svg>
+                </div>
+                <div className={`flex flex-col items-center text-sm
+                  ${isDragging ? 'text-primary' : 'text-gray-600'}`}>
+                  <span className="font-medium">Drop your image here</span>
+                  <span>or click to upload (select several to crop a batch)</span>
+                  <span className="text-xs text-gray-500 mt-1">PNG, JPG, WEBP (max 10MB)</span>
+                </div>
+              </div>
+            </label>
+            {batchError && (
+              <p role="alert" className="mt-4 text-xs text-red-800 bg-red-50 border border-red-200 rounded-md p-2">
+                {batchError}
+              </p>
+            )}
+            {onCancel && (
+              <Button variant="ghost" size="sm" onClick={onCancel} className="mt-4">
+                Cancel
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">                <div className="flex flex-wrap gap-4 items-center justify-between">
+              <div className="flex gap-4 items-center">
+                <label className="text-sm font-medium text-gray-700">Aspect Ratio:</label>
+                <select
+                  value={aspect?.toString() || 'free'}
+                  onChange={handleAspectRatioChange}
+                  className="min-w-[120px] rounded-md border border-gray-300 py-1.5 px-3 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                >
+                  <option value="free">Free Selection</option>
+                  <option value="1">Square (1:1)</option>
+                  <option value="1.7777777777777777">Landscape (16:9)</option>
+                  <option value="0.5625">Portrait (9:16)</option>
+                  <option value="1.3333333333333333">Standard (4:3)</option>
+                </select>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowPresets(prev => !prev)}
+                  className="text-sm"
+                >
+                  {showPresets ? 'Hide Presets' : 'Show Presets'}
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={smartCropSuggestions ? () => setSmartCrops(null) : findSmartCrops}
+                  disabled={!frame}
+                  title="Suggest crops around the subject"
+                  className="text-sm"
+                >
+                  {smartCropSuggestions ? 'Hide Smart Crop' : 'Smart Crop'}
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowPrintSheet(prev => !prev)}
+                  className="text-sm"
+                >
+                  {showPrintSheet ? 'Hide Print Sheet' : 'Print Sheet'}
+                </Button>
+              </div>
+              
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleUndo}
+                  disabled={!history.canUndo}
+                  title="Undo (Ctrl+Z)"
+                  className="text-sm"
+                >
+                  Undo
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleRedo}
+                  disabled={!history.canRedo}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="text-sm"
+                >
+                  Redo
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleResetAll}
+                  className="text-sm"
+                >
+                  Reset All
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={saveRecipe}
+                  disabled={!frame}
+                  title="Download the edit and output settings as JSON"
+                  className="text-sm"
+                >
+                  Save Recipe
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => recipeInputRef.current?.click()}
+                  className="text-sm"
+                >
+                  Load Recipe
+                </Button>
+                <input
+                  ref={recipeInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleRecipeLoad}
+                  className="hidden"
+                  aria-label="Recipe file"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => setShowPreview(prev => !prev)}
+                  className="text-sm"
+                >
+                  {showPreview ? 'Hide Preview' : 'Show Preview'}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setImageSrc(null);
+                    setPreviewSrc(null);
+                    setImageSize(null);
+                    setBatch([]);
+                    setActiveBatchId(null);
+                    setBatchError(null);
+                    setSession(null);
+                  }}
+                  className="text-sm"
+                >
+                  Change Image
+                </Button>
+              </div>
+            </div>
+
+            {recipeError && (
+              <p role="alert" className="text-xs text-red-800 bg-red-50 border border-red-200 rounded-md p-2">
+                {recipeError}
+              </p>
+            )}
+            {activeRecipe && (
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded-md p-2">
+                <span role="status">
+                  Recipe <span className="font-medium">{activeRecipe.name}</span> is applied to each new image.
+                  {frame && !fitsRecipe(activeRecipe.recipe, frame) && activeRecipe.recipe.source && (
+                    <span className="text-amber-800">
+                      {' '}It was made on a {activeRecipe.recipe.source.width}×{activeRecipe.recipe.source.height} image,
+                      so its crop is stretched on this one.
+                    </span>
+                  )}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => setActiveRecipe(null)} className="text-xs">
+                  Clear
+                </Button>
+              </div>
+            )}
+
+            {smartCropSuggestions && (
+              <div className="bg-gray-50 rounded-lg border border-gray-200 p-3">
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                  <h3 className="text-sm font-medium text-gray-700">Smart Crop</h3>
+                  <span className="text-xs text-gray-500">Suggestions are outlined on the image, best first</span>
+                </div>
+                {smartCropSuggestions.length === 0 ? (
+                  <p className="text-xs text-gray-600">No suggestions for this image.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {smartCropSuggestions.map((suggestion, index) => (
+                      <Button
+                        key={index}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => applySmartCrop(suggestion)}
+                        className="text-xs"
+                      >
+                        {index + 1}. {index === 0 ? 'Best' : 'Alternative'}
+                        {frame && (
+                          <span className="text-gray-500">
+                            {Math.round(suggestion.width * frame.width)}×{Math.round(suggestion.height * frame.height)} px
+                          </span>
+                        )}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {batchError && (
+              <p role="alert" className="text-xs text-red-800 bg-red-50 border border-red-200 rounded-md p-2">
+                {batchError}
+              </p>
+            )}
+            {isBatch && (
+              <BatchQueue
+                items={batch}
+                activeId={activeBatchId}
+                onSelect={selectBatchItem}
+                onRemove={removeBatchItem}
+              />
+            )}
+
+            {/* Preset Crop Dimensions */}
+            {showPresets && (
+              <div className="bg-gray-50 rounded-lg border border-gray-200 p-4">
+                <div className="mb-3">
+                  <div className="flex flex-wrap justify-between items-center mb-2">
+                    <h3 className="text-sm font-medium text-gray-700 mb-2 md:mb-0">Preset Dimensions</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {presetTabs.map(tab => (
+                        <Button
+                          key={tab.id}
+                          variant={presetCategory === tab.id && !presetQuery.trim() ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => {
+                            setPresetCategory(tab.id);
+                            setPresetQuery('');
+                            setActivePresetIndex(0);
+                          }}
+                          className="text-xs"
+                        >
+                          {tab.label}
+                        </Button>
+                      ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowPresetInfo(prev => !prev)}
+                        className="text-xs"
+                      >
+                        {showPresetInfo ? 'Hide Info' : 'Show Info'}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {/* Search and filters */}
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <input
+                      type="search"
+                      role="combobox"
+                      aria-label="Search presets"
+                      aria-controls="preset-results"
+                      aria-expanded={true}
+                      aria-autocomplete="list"
+                      aria-activedescendant={activePresetResult >= 0 ? `preset-option-${activePresetResult}` : undefined}
+                      placeholder="Search all presets"
+                      value={presetQuery}
+                      onChange={(e) => {
+                        setPresetQuery(e.target.value);
+                        setActivePresetIndex(0);
+                      }}
+                      onKeyDown={handlePresetSearchKeyDown}
+                      className="flex-1 min-w-[160px] rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+                    />
+                    <select
+                      aria-label="Preset shape"
+                      value={presetShape ?? ''}
+                      onChange={(e) => {
+                        setPresetShape((e.target.value || null) as PresetShape | null);
+                        setActivePresetIndex(0);
+                      }}
+                      className="rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+                    >
+                      <option value="">Any shape</option>
+                      {(Object.keys(PRESET_SHAPE_LABELS) as PresetShape[]).map(shape => (
+                        <option key={shape} value={shape}>{PRESET_SHAPE_LABELS[shape]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      aria-label="Minimum size in pixels"
+                      title="Shortest side of the exported image"
+                      placeholder="Min. size (px)"
+                      min={1}
+                      step={1}
+                      value={presetMinSize ?? ''}
+                      onChange={(e) => {
+                        const value = Math.round(Number(e.target.value));
+                        setPresetMinSize(value > 0 ? value : null);
+                        setActivePresetIndex(0);
+                      }}
+                      className="w-32 rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+                    />
+                  </div>
+
+                  {/* Custom presets, saved in this browser and shared as JSON files */}
+                  <CustomPresetEditor
+                    customPresets={customPresets}
+                    categories={presetCategories}
+                    appliedPreset={activePreset}
+                    cropSize={selectedArea}
+                    onSave={handleCustomPresetSave}
+                    onImport={() => setPresetCategory('All')}
+                  />
+
+                  <div
+                    id="preset-results"
+                    role="listbox"
+                    aria-label="Presets"
+                    className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 mt-3"
+                  >
+                    {visiblePresets.map((preset, index) => (
+                      <Button
+                        key={preset.name}
+                        id={`preset-option-${index}`}
+                        role="option"
+                        aria-selected={index === activePresetResult}
+                        tabIndex={-1}
+                        variant={selectedPreset === preset.name ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => {
+                          setActivePresetIndex(index);
+                          applyPreset(preset.name);
+                        }}
+                        className={cn(
+                          'text-xs justify-start overflow-hidden',
+                          index === activePresetResult && 'ring-2 ring-primary ring-offset-1'
+                        )}
+                        title={showPresetInfo ? `${formatSize(preset.width, preset.height, preset.unit)} - ${preset.description || ''}` : undefined}
+                      >
+                        <div className="truncate flex items-center w-full">
+                          {presetPicks.favorites.includes(preset.name) && (
+                            <span className="mr-1 text-amber-500" aria-label="Favorite">★</span>
+                          )}
+                          <span className="truncate">{preset.name}</span>
+                          {showPresetInfo && (
+                            <span className="text-xs opacity-70 ml-1 truncate">
+                              ({formatSize(preset.width, preset.height, preset.unit)})
+                            </span>
+                          )}
+                        </div>
+                      </Button>
+                    ))}
+                  </div>
+                  {visiblePresets.length === 0 && (
+                    <p className="text-xs text-gray-500 mt-3">
+                      {presetCategory === FAVORITES_TAB && !presetQuery.trim() && presetPicks.favorites.length === 0
+                        ? 'No favorites yet. Apply a preset and add it to your favorites to list it here.'
+                        : 'No presets match.'}
+                    </p>
+                  )}
+                </div>
+                
+                {selectedPreset && (
+                  <div className="text-xs text-gray-600 bg-white p-2 rounded border border-gray-200 mt-2">
+                    <div className="font-medium">Applied preset: {selectedPreset}</div>
+                    {(() => {
+                      const preset = allPresets.find(p => p.name === selectedPreset);
+                      const pixels = preset ? getPresetPixelSize(preset) : null;
+                      return preset && pixels ? (
+                        <div className="mt-1">
+                          <div>
+                            Dimensions: {preset.unit === 'px'
+                              ? `${pixels.width}×${pixels.height} pixels`
+                              : `${formatSize(preset.width, preset.height, preset.unit)} at ${preset.dpi ?? DEFAULT_DPI} DPI (${pixels.width}×${pixels.height} pixels)`}
+                          </div>
+                          <div>Aspect Ratio: {preset.aspectRatio.toFixed(3)}</div>
+                          {preset.description && <div>Description: {preset.description}</div>}
+                          <div className="flex gap-2 mt-2">
+                            <Button variant="outline" size="sm" onClick={() => presetPicks.toggleFavorite(preset.name)} className="text-xs">
+                              {presetPicks.favorites.includes(preset.name) ? '★ Remove from Favorites' : '☆ Add to Favorites'}
+                            </Button>
+                          </div>
+                        </div>
+                      ) : null;
+                    })()}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Passport/ID photo rules for document presets */}
+            {complianceRuleSets.length > 0 && (
+              <CompliancePanel
+                ruleSets={complianceRuleSets}
+                ruleSet={complianceRuleSet}
+                results={complianceResults}
+                onSelect={selectRuleSet}
+              />
+            )}
 
-  return (
-    <div className="min-h-screen bg-gray-50 py-10 px-4 sm:px-6 lg:px-8">
-      <div className="max-w-5xl mx-auto">
-        <div className="text-center mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Image Cropper</h1>
-          <p className="text-gray-600">Upload, crop, and convert your images with precision</p>
-        </div>
-
-        <Card className="bg-white shadow-xl rounded-lg overflow-hidden">
-          <div className="p-6 space-y-6">
-            {!imageSrc ? (
-              <div 
-                className={`flex flex-col items-center justify-center p-8 border-2 border-dashed 
-                  ${isDragging 
-                    ? 'border-primary bg-primary/5' 
-                    : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
-                  } rounded-lg transition-colors`}
-                onDragEnter={handleDragIn}
-                onDragLeave={handleDragOut}
-                onDragOver={handleDrag}
-                onDrop={handleDrop}
-              >
-                <label className="w-full cursor-pointer">
-                  <input
-                    type="file"
-                    accept="image/*"
-                    onChange={onSelectFile}
-                    className="hidden"
-                  />
-                  <div className="text-center">
-                    <div className={`mx-auto h-12 w-12 mb-4 transition-colors
-                      ${isDragging ? 'text-primary' : 'text-gray-400'}`}>
-                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
-                      </svg>
-                    </div>
-                    <div className={`flex flex-col items-center text-sm
-                      ${isDragging ? 'text-primary' : 'text-gray-600'}`}>
-                      <span className="font-medium">Drop your image here</span>
-                      <span>or click to upload</span>
-                      <span className="text-xs text-gray-500 mt-1">PNG, JPG, WEBP (max 10MB)</span>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div ref={cropAreaRef} className="relative w-full bg-black/5 rounded-lg overflow-hidden">
+                <ReactCrop
+                  crop={displayCrop}
+                  onChange={setDisplayCrop}
+                  onComplete={history.commit}
+                  aspect={aspect}
+                  className="max-h-[600px]"
+                  renderSelectionAddon={complianceRuleSet && markers
+                    ? () => <ComplianceGuides ruleSet={complianceRuleSet} markers={markers} onMove={moveHeadMarker} />
+                    : undefined}
+                >
+                  {/* The crop overlay sits on the rotated frame, with the image rotated and flipped inside it */}
+                  <div
+                    className="relative overflow-hidden"
+                    style={frame && imageSize ? {
+                      width: frame.width * displayScale,
+                      height: frame.height * displayScale,
+                      backgroundColor: rotationMode === 'fill' ? background : undefined,
+                    } : undefined}
+                  >
+                    <img
+                      key={activeBatchId ?? 'single'} // Remount so onLoad fires for every batch image
+                      ref={imgRef}
+                      alt="Crop me"
+                      src={imageSrc}
+                      crossOrigin="anonymous" // Keep remote `src` images readable for export
+                      onLoad={onImageLoad}
+                      style={imageStyle}
+                      className="mx-auto"
+                    />
+                    {isPixelEdited && frame && imageSize && (
+                      <canvas ref={editedImageRef} aria-hidden style={imageStyle} className="pointer-events-none" />
+                    )}
+                    {isClippingShown && frame && imageSize && (
+                      <canvas ref={clippingRef} aria-hidden style={imageStyle} className="pointer-events-none" />
+                    )}
+                    {smartCropSuggestions?.map((suggestion, index) => (
+                      <div
+                        key={index}
+                        className="absolute pointer-events-none border-2 border-dashed border-sky-400"
+                        style={{
+                          left: `${suggestion.x * 100}%`,
+                          top: `${suggestion.y * 100}%`,
+                          width: `${suggestion.width * 100}%`,
+                          height: `${suggestion.height * 100}%`,
+                        }}
+                      >
+                        <span className="absolute top-0 left-0 bg-sky-400 text-white text-[10px] font-medium px-1">
+                          {index + 1}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </ReactCrop>
+                {straightening && (
+                  <div
+                    className="absolute inset-0 z-10 cursor-crosshair touch-none"
+                    onPointerDown={handleStraightenStart}
+                    onPointerMove={handleStraightenMove}
+                    onPointerUp={handleStraightenEnd}
+                    onPointerCancel={() => setStraightenLine(null)}
+                  >
+                    <svg className="absolute inset-0 h-full w-full pointer-events-none">
+                      {straightenLine && (
+                        <line
+                          x1={straightenLine.x1}
+                          y1={straightenLine.y1}
+                          x2={straightenLine.x2}
+                          y2={straightenLine.y2}
+                          stroke="#facc15"
+                          strokeWidth={2}
+                          strokeDasharray="6 4"
+                        />
+                      )}
+                    </svg>
+                    <span className="absolute top-2 left-2 text-xs font-medium bg-black/70 text-white px-2 py-1 rounded">
+                      Draw a line along something that should be level or upright (Esc to cancel)
+                    </span>
+                  </div>
+                )}
+              </div>                  {/* Preview Section */}
+              {showPreview && previewSrc && (
+                <div className="relative w-full bg-black/5 rounded-lg overflow-hidden flex flex-col">
+                  <div className="absolute top-2 left-2 z-10">
+                    <span className="text-xs font-medium bg-black/70 text-white px-2 py-1 rounded">Preview</span>
+                  </div>
+                  <div className="flex items-center justify-center h-full">
+                    <div className="relative p-4">                          <img 
+                        src={previewSrc} 
+                        alt="Preview" 
+                        className="max-w-full max-h-[300px] rounded shadow-sm"
+                      /><div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
+                        {outputFormat.toUpperCase()} • {Math.round(outputQuality * 100)}%
+                        {selectedPreset && (() => {
+                          const preset = allPresets.find(p => p.name === selectedPreset);
+                          const size = preset ? getPresetPixelSize(preset) : null;
+                          return size ? ` • ${size.width}×${size.height}` : '';
+                        })()}
+                        {isAdjusted && (
+                          <span className="ml-1">
+                            • Adjusted
+                          </span>
+                        )}
+                        {activeFilter && activeFilter !== 'normal' && (
+                          <span className="ml-1">
+                            • Filter: {getFilter(activeFilter, customFilters.filters)?.name ?? activeFilter}
+                          </span>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </label>
+                </div>
+              )}
+            </div>
+
+            {/* Exact crop position and size, kept in step with the drag handles */}
+            {selectedArea && (
+              <div className="flex flex-wrap items-end gap-3">
+                {(Object.keys(CROP_FIELD_LABELS) as (keyof PixelCrop)[]).map(field => (
+                  <div key={field}>
+                    <label htmlFor={`crop-${field}`} className="block text-xs font-medium text-gray-600 mb-1">
+                      {CROP_FIELD_LABELS[field]} (px)
+                    </label>
+                    <input
+                      type="number"
+                      id={`crop-${field}`}
+                      value={Math.round(selectedArea[field])}
+                      min={field === 'x' || field === 'y' ? 0 : 1}
+                      step={1}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        if (e.target.value !== '' && Number.isFinite(value)) setCropPixels({ [field]: value }, field);
+                      }}
+                      onKeyDown={handleCropFieldKeyDown(field)}
+                      onBlur={history.commit}
+                      className="w-24 rounded-md border border-gray-300 py-1 px-2 text-sm text-right focus:ring-2 focus:ring-primary focus:border-primary"
+                    />
+                  </div>
+                ))}
+                <div className="flex items-center pb-1.5">
+                  <input
+                    type="checkbox"
+                    id="crop-aspect-lock"
+                    checked={aspect !== undefined}
+                    onChange={toggleAspectLock}
+                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  <label htmlFor="crop-aspect-lock" className="ml-2 block text-sm text-gray-700">
+                    Lock aspect ratio
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500 pb-1.5">
+                  In pixels of the {rotation ? 'rotated ' : ''}image. Arrow keys nudge by 1 px, or 10 px with Shift.
+                </p>
               </div>
-            ) : (
-              <div className="space-y-6">                <div className="flex flex-wrap gap-4 items-center justify-between">
-                  <div className="flex gap-4 items-center">
-                    <label className="text-sm font-medium text-gray-700">Aspect Ratio:</label>
-                    <select
-                      value={aspect?.toString() || 'free'}
-                      onChange={handleAspectRatioChange}
-                      className="min-w-[120px] rounded-md border border-gray-300 py-1.5 px-3 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
-                    >
-                      <option value="free">Free Selection</option>
-                      <option value="1">Square (1:1)</option>
-                      <option value="1.7777777777777777">Landscape (16:9)</option>
-                      <option value="0.5625">Portrait (9:16)</option>
-                      <option value="1.3333333333333333">Standard (4:3)</option>
-                    </select>
+            )}
 
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setShowPresets(prev => !prev)}
-                      className="text-sm"
-                    >
-                      {showPresets ? 'Hide Presets' : 'Show Presets'}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              <Button variant="outline" onClick={() => rotateBy(-90)}>
+                Rotate Left
+              </Button>
+              <Button variant="outline" onClick={() => rotateBy(90)}>
+                Rotate Right
+              </Button>
+              <Button variant="outline" onClick={() => updateTransform({ flipHorizontal: !flipHorizontal })}>
+                Flip Horizontal {flipHorizontal && "(On)"}
+              </Button>
+              <Button variant="outline" onClick={() => updateTransform({ flipVertical: !flipVertical })}>
+                Flip Vertical {flipVertical && "(On)"}
+              </Button>
+            </div>
+
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-sm font-medium text-gray-700">Image Adjustments</h3>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowAdjustments(prev => !prev)}
+                  className="text-xs"
+                >
+                  {showAdjustments ? 'Hide Adjustments' : 'Show Adjustments'}
+                </Button>
+              </div>
+              
+              {showAdjustments && (
+                <div className="space-y-4 bg-gray-50 p-4 rounded-lg border border-gray-200">
+                  {histogram && <Histogram histogram={histogram} />}
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => applyAutoAdjustment('levels')} className="text-xs">
+                      Auto Levels
                     </Button>
+                    <Button variant="outline" size="sm" onClick={() => applyAutoAdjustment('contrast')} className="text-xs">
+                      Auto Contrast
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => applyAutoAdjustment('whiteBalance')} className="text-xs">
+                      Auto White Balance
+                    </Button>
+                  </div>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="show-clipping"
+                      checked={showClipping}
+                      onChange={() => setShowClipping(prev => !prev)}
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                    />
+                    <label htmlFor="show-clipping" className="ml-2 block text-sm text-gray-700">
+                      Show clipping on the image
+                    </label>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <label className="block text-sm font-medium text-gray-700">
+                        Brightness
+                      </label>
+                      <span className="text-xs text-gray-600">{brightness}%</span>
+                    </div>
+                    <Slider
+                      value={[brightness]}
+                      onValueChange={(value) => updateTransform({
+                        adjustments: { ...currentTransform.adjustments, brightness: value[0] }
+                      }, { coalesce: 'brightness' })}
+                      onValueCommit={history.commit}
+                      min={0}
+                      max={200}
+                      step={1}
+                      className="w-full"
+                    />
                   </div>
                   
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      onClick={() => setShowPreview(prev => !prev)}
-                      className="text-sm"
-                    >
-                      {showPreview ? 'Hide Preview' : 'Show Preview'}
-                    </Button>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <label className="block text-sm font-medium text-gray-700">
+                        Contrast
+                      </label>
+                      <span className="text-xs text-gray-600">{contrast}%</span>
+                    </div>
+                    <Slider
+                      value={[contrast]}
+                      onValueChange={(value) => updateTransform({
+                        adjustments: { ...currentTransform.adjustments, contrast: value[0] }
+                      }, { coalesce: 'contrast' })}
+                      onValueCommit={history.commit}
+                      min={0}
+                      max={200}
+                      step={1}
+                      className="w-full"
+                    />
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <label className="block text-sm font-medium text-gray-700">
+                        Saturation
+                      </label>
+                      <span className="text-xs text-gray-600">{saturation}%</span>
+                    </div>
+                    <Slider
+                      value={[saturation]}
+                      onValueChange={(value) => updateTransform({
+                        adjustments: { ...currentTransform.adjustments, saturation: value[0] }
+                      }, { coalesce: 'saturation' })}
+                      onValueCommit={history.commit}
+                      min={0}
+                      max={200}
+                      step={1}
+                      className="w-full"
+                    />
+                  </div>
+
+                  {ADJUSTMENT_SLIDERS.map(({ key, label, min, max, step, format }) => (
+                    <div key={key} className="space-y-2">
+                      <div className="flex justify-between">
+                        <label className="block text-sm font-medium text-gray-700">
+                          {label}
+                        </label>
+                        <span className="text-xs text-gray-600">{format(adjustments[key])}</span>
+                      </div>
+                      <Slider
+                        value={[adjustments[key]]}
+                        onValueChange={(value) => updateTransform({
+                          adjustments: { ...currentTransform.adjustments, [key]: value[0] }
+                        }, { coalesce: key })}
+                        onValueCommit={history.commit}
+                        min={min}
+                        max={max}
+                        step={step}
+                        className="w-full"
+                      />
+                    </div>
+                  ))}
+                  
+                  <div className="flex justify-end pt-2">
                     <Button
                       variant="outline"
+                      size="sm"
                       onClick={() => {
-                        setImageSrc(null);
-                        setPreviewSrc(null);
-                        setCrop({
-                          unit: '%',
-                          x: 0,
-                          y: 0,
-                          width: 100,
-                          height: 100
-                        } as Crop);
-                        setSelectedPreset(null);
+                        updateTransform({ adjustments: DEFAULT_CROP_TRANSFORM.adjustments });
                       }}
-                      className="text-sm"
+                      className="text-xs"
                     >
-                      Change Image
+                      Reset to Default
                     </Button>
                   </div>
-                </div>                {/* Preset Crop Dimensions */}
-                {showPresets && (
-                  <div className="bg-gray-50 rounded-lg border border-gray-200 p-4">
-                    <div className="mb-3">
-                      <div className="flex flex-wrap justify-between items-center mb-2">
-                        <h3 className="text-sm font-medium text-gray-700 mb-2 md:mb-0">Preset Dimensions</h3>
-                        <div className="flex flex-wrap gap-2">
-                          <Button
-                            key="All"
-                            variant={presetCategory === 'All' ? 'default' : 'outline'}
-                            size="sm"
-                            onClick={() => setPresetCategory('All')}
-                            className="text-xs"
+                </div>
+              )}
+            </div>
+
+            {/* Instagram-like Filters */}
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-sm font-medium text-gray-700">Filters</h3>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowFilters(prev => !prev)}
+                  className="text-xs"
+                >
+                  {showFilters ? 'Hide Filters' : 'Show Filters'}
+                </Button>
+              </div>
+              
+              {showFilters && (
+                <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+                  <div className="overflow-x-auto pb-2">
+                    <div className="flex space-x-4">
+                      {allFilters.map(({ id, name }) => (
+                        <div 
+                          key={id} 
+                          className={`relative flex flex-col items-center cursor-pointer transition-all ${
+                            activeFilter === id ? 'scale-105 ring-2 ring-primary ring-offset-2' : 'hover:scale-105'
+                          }`}
+                          onClick={() => updateTransform({ filter: id === 'normal' && activeFilter === 'normal' ? null : id })}
+                        >                              <div 
+                            className="w-20 h-20 mb-1 rounded-md overflow-hidden bg-gray-200 border border-gray-300 relative"
                           >
-                            All
-                          </Button>
-                          {(['Social Media', 'Documents', 'Print', 'Devices', 'E-commerce'] as const).map(category => (
-                            <Button
-                              key={category}
-                              variant={presetCategory === category ? 'default' : 'outline'}
-                              size="sm"
-                              onClick={() => setPresetCategory(category)}
-                              className="text-xs"
+                            {filterThumbnails[id] && (
+                              <div 
+                                className="absolute inset-0"
+                                style={{ 
+                                  backgroundImage: `url(${filterThumbnails[id]})`,
+                                  backgroundSize: 'cover',
+                                  backgroundPosition: 'center',
+                                }}
+                              ></div>
+                            )}
+                          </div>
+                          <span className="text-xs font-medium">{name}</span>
+                          {activeFilter === id && <div className="mt-1 w-3 h-1 bg-primary rounded-full"></div>}
+                          {customFilters.filters.some(filter => filter.id === id) && (
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                removeCustomFilter(id);
+                              }}
+                              className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-white border border-gray-300 text-gray-500 hover:text-red-500 text-xs leading-none"
+                              aria-label={`Remove ${name}`}
                             >
-                              {category}
-                            </Button>
-                          ))}
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => setShowPresetInfo(prev => !prev)}
-                            className="text-xs"
-                          >
-                            {showPresetInfo ? 'Hide Info' : 'Show Info'}
-                          </Button>
+                              ×
+                            </button>
+                          )}
                         </div>
-                      </div>
-                      
-                      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 mt-3">
-                        {CROP_PRESETS
-                          .filter(preset => presetCategory === 'All' || preset.category === presetCategory)
-                          .map(preset => (
-                            <Button
-                              key={preset.name}
-                              variant={selectedPreset === preset.name ? 'default' : 'outline'}
-                              size="sm"
-                              onClick={() => applyPreset(preset.name)}
-                              className="text-xs justify-start overflow-hidden"
-                              title={showPresetInfo ? `${preset.width}×${preset.height} - ${preset.description || ''}` : undefined}
-                            >
-                              <div className="truncate flex items-center w-full">
-                                <span className="truncate">{preset.name}</span>
-                                {showPresetInfo && (
-                                  <span className="text-xs opacity-70 ml-1 truncate">
-                                    ({preset.width}×{preset.height})
-                                  </span>
-                                )}
-                              </div>
-                            </Button>
-                          ))}
-                      </div>
+                      ))}
                     </div>
-                    
-                    {selectedPreset && (
-                      <div className="text-xs text-gray-600 bg-white p-2 rounded border border-gray-200 mt-2">
-                        <div className="font-medium">Applied preset: {selectedPreset}</div>
-                        {(() => {
-                          const preset = CROP_PRESETS.find(p => p.name === selectedPreset);
-                          return preset ? (
-                            <div className="mt-1">
-                              <div>Dimensions: {preset.width}×{preset.height} pixels</div>
-                              <div>Aspect Ratio: {preset.aspectRatio.toFixed(3)}</div>
-                              {preset.description && <div>Description: {preset.description}</div>}
-                            </div>
-                          ) : null;
-                        })()}
-                      </div>
-                    )}
                   </div>
-                )}
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="relative w-full bg-black/5 rounded-lg overflow-hidden">
-                    <ReactCrop
-                      crop={crop}
-                      onChange={(c) => setCrop(c)}
-                      aspect={aspect}
-                      className="max-h-[600px]"
-                    >
-                      <img
-                        ref={imgRef}
-                        alt="Crop me"
-                        src={imageSrc}
-                        onLoad={onImageLoad}                        style={{
-                          transform: `scale(${zoom}) rotate(${rotation}deg) scaleX(${flipHorizontal ? -1 : 1}) scaleY(${flipVertical ? -1 : 1})`,
-                          maxWidth: '100%',
-                          maxHeight: '600px',
-                          ...(activeFilter && activeFilter !== 'normal' ? filters[activeFilter as keyof typeof filters].style : {})
-                        }}
-                        className="mx-auto"
-                      />
-                    </ReactCrop>
-                  </div>                  {/* Preview Section */}
-                  {showPreview && previewSrc && (
-                    <div className="relative w-full bg-black/5 rounded-lg overflow-hidden flex flex-col">
-                      <div className="absolute top-2 left-2 z-10">
-                        <span className="text-xs font-medium bg-black/70 text-white px-2 py-1 rounded">Preview</span>
-                      </div>
-                      <div className="flex items-center justify-center h-full">
-                        <div className="relative p-4">                          <img 
-                            src={previewSrc} 
-                            alt="Preview" 
-                            className="max-w-full max-h-[300px] rounded shadow-sm"
-                            style={activeFilter && activeFilter !== 'normal' ? filters[activeFilter as keyof typeof filters].style : undefined}
-                          /><div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
-                            {outputFormat.toUpperCase()} • {Math.round(outputQuality * 100)}%
-                            {selectedPreset && (() => {
-                              const preset = CROP_PRESETS.find(p => p.name === selectedPreset);
-                              return preset ? ` • ${preset.width}×${preset.height}` : '';
-                            })()}
-                            {(brightness !== 100 || contrast !== 100 || saturation !== 100) && (
-                              <span className="ml-1">
-                                • Adjusted
-                              </span>
-                            )}
-                            {activeFilter && activeFilter !== 'normal' && (
-                              <span className="ml-1">
-                                • Filter: {filters[activeFilter as keyof typeof filters].name}
-                              </span>
-                            )}
-                          </div>
-                        </div>
+                  {getFilter(activeFilter, customFilters.filters)?.operations.length ? (
+                    <div className="mt-4 space-y-2">
+                      <div className="flex justify-between">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Intensity
+                        </label>
+                        <span className="text-xs text-gray-600">{filterIntensity}%</span>
                       </div>
+                      <Slider
+                        value={[filterIntensity]}
+                        onValueChange={(value) => updateTransform({ filterIntensity: value[0] }, { coalesce: 'filterIntensity' })}
+                        onValueCommit={history.commit}
+                        min={0}
+                        max={100}
+                        step={1}
+                        className="w-full"
+                      />
+                    </div>
+                  ) : null}
+
+                  {(lutError || customFilters.saveError) && (
+                    <div className="mt-4 text-xs text-red-600" role="alert">
+                      {lutError ?? customFilters.saveError}
                     </div>
                   )}
-                </div>                <div className="grid grid-cols-2 gap-4 mb-4">
-                  <Button variant="outline" onClick={() => setFlipHorizontal(prev => !prev)}>
-                    Flip Horizontal {flipHorizontal && "(On)"}
-                  </Button>
-                  <Button variant="outline" onClick={() => setFlipVertical(prev => !prev)}>
-                    Flip Vertical {flipVertical && "(On)"}
-                  </Button>
-                </div>
 
-                <div className="mb-6">
-                  <div className="flex justify-between items-center mb-2">
-                    <h3 className="text-sm font-medium text-gray-700">Image Adjustments</h3>
+                  <div className="mt-4 flex justify-between gap-2">
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => setShowAdjustments(prev => !prev)}
+                      onClick={() => lutInputRef.current?.click()}
                       className="text-xs"
+                      title="Add a look from a .cube LUT or a HaldCLUT PNG"
                     >
-                      {showAdjustments ? 'Hide Adjustments' : 'Show Adjustments'}
+                      Import LUT
                     </Button>
+                    <input
+                      ref={lutInputRef}
+                      type="file"
+                      accept=".cube,image/png"
+                      onChange={handleLutLoad}
+                      className="hidden"
+                      aria-label="LUT file"
+                    />
+                    {activeFilter && activeFilter !== 'normal' && (
+                      <Button 
+                        variant="outline" 
+                        size="sm" 
+                        onClick={() => updateTransform({ filter: 'normal', filterIntensity: 100 })}
+                        className="text-xs"
+                      >
+                        Reset Filter
+                      </Button>
+                    )}
                   </div>
-                  
-                  {showAdjustments && (
-                    <div className="space-y-4 bg-gray-50 p-4 rounded-lg border border-gray-200">
-                      <div className="space-y-2">
-                        <div className="flex justify-between">
-                          <label className="block text-sm font-medium text-gray-700">
-                            Brightness
-                          </label>
-                          <span className="text-xs text-gray-600">{brightness}%</span>
-                        </div>
-                        <Slider
-                          value={[brightness]}
-                          onValueChange={(value) => setBrightness(value[0])}
-                          min={0}
-                          max={200}
-                          step={1}
-                          className="w-full"
-                        />
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <div className="flex justify-between">
-                          <label className="block text-sm font-medium text-gray-700">
-                            Contrast
-                          </label>
-                          <span className="text-xs text-gray-600">{contrast}%</span>
-                        </div>
-                        <Slider
-                          value={[contrast]}
-                          onValueChange={(value) => setContrast(value[0])}
-                          min={0}
-                          max={200}
-                          step={1}
-                          className="w-full"
-                        />
-                      </div>
-                      
-                      <div className="space-y-2">
-                        <div className="flex justify-between">
-                          <label className="block text-sm font-medium text-gray-700">
-                            Saturation
-                          </label>
-                          <span className="text-xs text-gray-600">{saturation}%</span>
-                        </div>
-                        <Slider
-                          value={[saturation]}
-                          onValueChange={(value) => setSaturation(value[0])}
-                          min={0}
-                          max={200}
-                          step={1}
-                          className="w-full"
-                        />
-                      </div>
-                      
-                      <div className="flex justify-end pt-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setBrightness(100);
-                            setContrast(100);
-                            setSaturation(100);
-                          }}
-                          className="text-xs"
-                        >
-                          Reset to Default
-                        </Button>
-                      </div>
-                    </div>
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Rotation</label>
+                <div className="flex items-center gap-4">
+                  <Slider
+                    value={[rotation]}
+                    onValueChange={(value) => updateRotation({ rotation: value[0] }, { coalesce: 'rotation' })}
+                    onValueCommit={history.commit}
+                    min={0}
+                    max={360}
+                    step={0.1}
+                    className="flex-1"
+                  />
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      value={rotation}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        if (e.target.value !== '' && Number.isFinite(value)) {
+                          updateRotation({ rotation: normalizeRotation(value) }, { coalesce: 'rotation' });
+                        }
+                      }}
+                      onBlur={history.commit}
+                      min={0}
+                      max={360}
+                      step={0.1}
+                      className="w-20 rounded-md border border-gray-300 py-1 px-2 text-sm text-right focus:ring-2 focus:ring-primary focus:border-primary"
+                      aria-label="Rotation angle"
+                    />
+                    <span className="text-sm text-gray-600">°</span>
+                  </div>
+                  <Button
+                    variant={straightening ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => {
+                      setStraightening(!straightening);
+                      setStraightenLine(null);
+                    }}
+                    disabled={!imageSize}
+                  >
+                    Straighten
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={rotationMode}
+                    onChange={(e) => updateRotation({ rotationMode: e.target.value as RotationMode })}
+                    className="flex-1 rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+                    aria-label="Rotated corners"
+                  >
+                    {ROTATION_MODES.map(mode => (
+                      <option key={mode} value={mode}>{ROTATION_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                  {rotationMode === 'fill' && (
+                    <input
+                      type="color"
+                      value={background}
+                      onChange={(e) => updateTransform({ background: e.target.value }, { coalesce: 'background' })}
+                      onBlur={history.commit}
+                      className="h-7 w-10 rounded border border-gray-300"
+                      aria-label="Corner fill color"
+                    />
                   )}
                 </div>
+              </div>
 
-                {/* Instagram-like Filters */}
-                <div className="mb-6">
-                  <div className="flex justify-between items-center mb-2">
-                    <h3 className="text-sm font-medium text-gray-700">Filters</h3>
-                    <Button
-                      variant="outline"
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Zoom</label>
+                <div className="flex items-center gap-4">
+                  <Slider
+                    value={[zoom]}
+                    onValueChange={(value) => updateTransform({ zoom: value[0] }, { coalesce: 'zoom' })}
+                    onValueCommit={history.commit}
+                    min={0.5}
+                    max={3}
+                    step={0.1}
+                    className="flex-1"
+                  />
+                  <span className="text-sm text-gray-600 w-12 text-right">{zoom.toFixed(1)}x</span>
+                </div>
+              </div>
+            </div>
+            
+            {/* Print sheet: copies of the crop tiled at their physical size */}
+            {showPrintSheet && (
+              <PrintSheetPanel
+                presetSize={activePreset && activePreset.unit !== 'px'
+                  ? { width: activePreset.width, height: activePreset.height, unit: activePreset.unit }
+                  : null}
+                cropSize={selectedArea}
+                outputFormat={outputFormat}
+                outputQuality={outputQuality}
+                renderPhoto={renderSheetPhoto}
+              />
+            )}
+
+            {/* Format, Quality, and Download Section */}
+            <div className="grid gap-6 md:grid-cols-2 items-start">
+              {/* Column 1: Format and (conditional) Quality Slider */}
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+                    <select
+                      value={outputFormat}
+                      onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+                      className="w-full rounded-md border border-gray-300 py-1.5 px-3 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                      disabled={showMultipleOptions}
+                    >
+                      {formats.map(format => (
+                        <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="pt-6">
+                    <Button 
+                      variant="outline" 
                       size="sm"
-                      onClick={() => setShowFilters(prev => !prev)}
-                      className="text-xs"
+                      onClick={() => setShowMultipleOptions(prev => !prev)}
+                      className="text-xs whitespace-nowrap"
                     >
-                      {showFilters ? 'Hide Filters' : 'Show Filters'}
+                      {showMultipleOptions ? 'Single Output' : 'Multiple Outputs'}
                     </Button>
                   </div>
-                  
-                  {showFilters && (
-                    <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-                      <div className="overflow-x-auto pb-2">
-                        <div className="flex space-x-4">
-                          {Object.entries(filters).map(([id, filter]) => (
-                            <div 
-                              key={id} 
-                              className={`flex flex-col items-center cursor-pointer transition-all ${
-                                activeFilter === id ? 'scale-105 ring-2 ring-primary ring-offset-2' : 'hover:scale-105'
-                              }`}
-                              onClick={() => setActiveFilter(id === 'normal' && activeFilter === 'normal' ? null : id)}
-                            >                              <div 
-                                className="w-20 h-20 mb-1 rounded-md overflow-hidden bg-gray-200 border border-gray-300 relative"
-                              >
-                                {imageSrc && (
-                                  <div 
-                                    className="absolute inset-0"
-                                    style={{ 
-                                      backgroundImage: `url(${imageSrc})`,
-                                      backgroundSize: 'cover',
-                                      backgroundPosition: 'center',
-                                      ...filter.style
-                                    }}
-                                  ></div>
-                                )}
-                              </div>
-                              <span className="text-xs font-medium">{filter.name}</span>
-                              {activeFilter === id && <div className="mt-1 w-3 h-1 bg-primary rounded-full"></div>}
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                      
-                      {activeFilter && activeFilter !== 'normal' && (
-                        <div className="mt-4 flex justify-end">
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            onClick={() => setActiveFilter('normal')}
-                            className="text-xs"
-                          >
-                            Reset Filter
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-                  )}
                 </div>
 
-                <div className="grid gap-6 md:grid-cols-2">
+                {!showMultipleOptions && (outputFormat === 'jpeg' || outputFormat === 'webp') && (
                   <div className="space-y-2">
-                    <label className="block text-sm font-medium text-gray-700">Rotation</label>
-                    <div className="flex items-center gap-4">
-                      <Slider
-                        value={[rotation]}
-                        onValueChange={(value) => setRotation(value[0])}
-                        min={0}
-                        max={360}
-                        step={1}
-                        className="flex-1"
-                      />
-                      <span className="text-sm text-gray-600 w-12 text-right">{rotation}°</span>
-                    </div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Quality ({Math.round(outputQuality * 100)}%)
+                    </label>
+                    <Slider
+                      value={[outputQuality]}
+                      onValueChange={(value) => setOutputQuality(value[0])}
+                      min={0.1}
+                      max={1}
+                      step={0.01}
+                      className="w-full"
+                    />
                   </div>
+                )}
 
-                  <div className="space-y-2">
-                    <label className="block text-sm font-medium text-gray-700">Zoom</label>
-                    <div className="flex items-center gap-4">
-                      <Slider
-                        value={[zoom]}
-                        onValueChange={(value) => setZoom(value[0])}
-                        min={0.5}
-                        max={3}
-                        step={0.1}
-                        className="flex-1"
-                      />
-                      <span className="text-sm text-gray-600 w-12 text-right">{zoom.toFixed(1)}x</span>
-                    </div>
+                {/* Metadata Preservation */}
+                <div className="mt-4">
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="preserve-metadata"
+                      checked={preserveMetadata}
+                      onChange={() => setPreserveMetadata(prev => !prev)}
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                    />
+                    <label htmlFor="preserve-metadata" className="ml-2 block text-sm text-gray-700">
+                      Preserve metadata (EXIF, XMP, IPTC)
+                    </label>
                   </div>
-                </div>
-                
-                {/* Format, Quality, and Download Section */}
-                <div className="grid gap-6 md:grid-cols-2 items-start">
-                  {/* Column 1: Format and (conditional) Quality Slider */}
-                  <div className="space-y-4">
-                    <div className="flex items-center gap-2">
-                      <div className="flex-1">
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
-                        <select
-                          value={outputFormat}
-                          onChange={(e) => setOutputFormat(e.target.value as 'jpeg' | 'png' | 'webp')}
-                          className="w-full rounded-md border border-gray-300 py-1.5 px-3 text-sm focus:ring-2 focus:ring-primary focus:border-primary"
-                          disabled={showMultipleOptions}
-                        >
-                          <option value="jpeg">JPEG</option>
-                          <option value="png">PNG</option>
-                          <option value="webp">WebP</option>
-                        </select>
-                      </div>
-                      <div className="pt-6">
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          onClick={() => setShowMultipleOptions(prev => !prev)}
-                          className="text-xs whitespace-nowrap"
-                        >
-                          {showMultipleOptions ? 'Single Output' : 'Multiple Outputs'}
-                        </Button>
-                      </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {preserveMetadata 
+                      ? "Dimensions and orientation are updated to match the output and thumbnails are removed. IPTC is kept in JPEG only."
+                      : "Metadata will be stripped from the output image"}
+                  </p>
+                  {preserveMetadata && (
+                    <div className="mt-2 ml-6 space-y-1">
+                      <p className="text-xs font-medium text-gray-600">Remove from the output:</p>
+                      {METADATA_FIELDS.map(field => (
+                        <div key={field.id} className="flex items-center">
+                          <input
+                            type="checkbox"
+                            id={`strip-${field.id}`}
+                            checked={strippedMetadata.includes(field.id)}
+                            onChange={() => setStrippedMetadata(prev =>
+                              prev.includes(field.id) ? prev.filter(id => id !== field.id) : [...prev, field.id]
+                            )}
+                            className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                          />
+                          <label htmlFor={`strip-${field.id}`} className="ml-2 block text-xs text-gray-700">
+                            {field.label}
+                          </label>
+                        </div>
+                      ))}
                     </div>
+                  )}
+                </div>
 
-                    {!showMultipleOptions && (outputFormat === 'jpeg' || outputFormat === 'webp') && (
-                      <div className="space-y-2">
-                        <label className="block text-sm font-medium text-gray-700">
-                          Quality ({Math.round(outputQuality * 100)}%)
-                        </label>
-                        <Slider
-                          value={[outputQuality]}
-                          onValueChange={(value) => setOutputQuality(value[0])}
-                          min={0.1}
-                          max={1}
-                          step={0.01}
-                          className="w-full"
-                        />
-                      </div>
-                    )}
-
-                    {/* EXIF Metadata Preservation */}
-                    <div className="mt-4">
-                      <div className="flex items-center">
-                        <input
-                          type="checkbox"
-                          id="preserve-exif"
-                          checked={preserveExif}
-                          onChange={() => setPreserveExif(prev => !prev)}
-                          className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
-                        />
-                        <label htmlFor="preserve-exif" className="ml-2 block text-sm text-gray-700">
-                          Preserve EXIF metadata
-                        </label>
-                      </div>
-                      <p className="text-xs text-gray-500 mt-1">
-                        {preserveExif 
-                          ? "EXIF data like camera settings and location will be preserved in the output image (JPEG format only)"
-                          : "EXIF metadata will be stripped from the output image"}
-                      </p>
+                {/* ZIP bundling, when the download produces several files */}
+                {(showMultipleOptions || isBatch) && (
+                  <div className="mt-4">
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        id="bundle-zip"
+                        checked={bundleZip}
+                        onChange={() => setBundleZip(prev => !prev)}
+                        className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                      />
+                      <label htmlFor="bundle-zip" className="ml-2 block text-sm text-gray-700">
+                        Download as a single ZIP
+                      </label>
                     </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Includes a manifest.json listing each file&apos;s preset, format, quality, scale, dimensions and DPI
+                    </p>
+                  </div>
+                )}
 
-                    {/* Multiple Output Options */}
-                    {showMultipleOptions && (
-                      <div className="mt-4 space-y-4">
-                        <div className="flex justify-between items-center">
-                          <h3 className="text-sm font-medium text-gray-700">Output Versions</h3>
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                            onClick={() => {
-                              // Create a new unique ID
-                              const newId = String(Date.now());
-                              
-                              // Add a new output option
-                              setOutputOptions(prev => [
-                                ...prev, 
-                                {
-                                  id: newId,
-                                  enabled: true,
-                                  format: 'jpeg',
-                                  quality: 0.92,
-                                  scale: 1,
-                                  label: `Version ${prev.length + 1}`
-                                }
-                              ]);
-                            }}
-                            className="text-xs"
-                          >
-                            Add Version
-                          </Button>
-                        </div>
-                        
-                        <div className="space-y-3 max-h-[300px] overflow-y-auto pr-1">
-                          {outputOptions.map((option, index) => (
-                            <div key={option.id} className="border border-gray-200 rounded-md p-3 bg-gray-50">
-                              <div className="flex justify-between items-center mb-2">
-                                <div className="flex items-center gap-2">
-                                  <input 
-                                    type="checkbox" 
-                                    id={`enable-${option.id}`}
-                                    checked={option.enabled}
-                                    onChange={() => {
-                                      const updatedOptions = [...outputOptions];
-                                      updatedOptions[index].enabled = !option.enabled;
-                                      setOutputOptions(updatedOptions);
-                                    }}
-                                    className="rounded border-gray-300 text-primary focus:ring-primary"
-                                  />
-                                  <div className="relative">
-                                    <input 
-                                      type="text"
-                                      value={option.label}
-                                      onChange={(e) => {
-                                        const updatedOptions = [...outputOptions];
-                                        updatedOptions[index].label = e.target.value;
-                                        setOutputOptions(updatedOptions);
-                                      }}
-                                      className="rounded-md border border-gray-300 py-1 px-2 text-sm w-full focus:ring-2 focus:ring-primary focus:border-primary"
-                                    />
-                                  </div>
-                                </div>
-                                
-                                {/* Only show delete button if there's more than one option */}
-                                {outputOptions.length > 1 && (
-                                  <button 
-                                    onClick={() => {
-                                      // Remove this option
-                                      setOutputOptions(prev => prev.filter(item => item.id !== option.id));
-                                    }}
-                                    className="text-gray-500 hover:text-red-500 transition-colors"
-                                    aria-label="Remove output version"
-                                  >
-                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
-                                      <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
-                                    </svg>
-                                  </button>
-                                )}
+                {/* Multiple Output Options */}
+                {showMultipleOptions && (
+                  <div className="mt-4 space-y-4">
+                    <div className="flex justify-between items-center">
+                      <h3 className="text-sm font-medium text-gray-700">Output Versions</h3>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => {
+                          // Create a new unique ID
+                          const newId = String(Date.now());
+                          
+                          // Add a new output option
+                          setOutputOptions(prev => [
+                            ...prev, 
+                            {
+                              id: newId,
+                              enabled: true,
+                              format: defaultFormat,
+                              quality: 0.92,
+                              scale: 1,
+                              label: `Version ${prev.length + 1}`
+                            }
+                          ]);
+                        }}
+                        className="text-xs"
+                      >
+                        Add Version
+                      </Button>
+                    </div>
+                    
+                    <div className="space-y-3 max-h-[300px] overflow-y-auto pr-1">
+                      {outputOptions.map((option, index) => (
+                        <div key={option.id} className="border border-gray-200 rounded-md p-3 bg-gray-50">
+                          <div className="flex justify-between items-center mb-2">
+                            <div className="flex items-center gap-2">
+                              <input 
+                                type="checkbox" 
+                                id={`enable-${option.id}`}
+                                checked={option.enabled}
+                                onChange={() => {
+                                  const updatedOptions = [...outputOptions];
+                                  updatedOptions[index].enabled = !option.enabled;
+                                  setOutputOptions(updatedOptions);
+                                }}
+                                className="rounded border-gray-300 text-primary focus:ring-primary"
+                              />
+                              <div className="relative">
+                                <input 
+                                  type="text"
+                                  value={option.label}
+                                  onChange={(e) => {
+                                    const updatedOptions = [...outputOptions];
+                                    updatedOptions[index].label = e.target.value;
+                                    setOutputOptions(updatedOptions);
+                                  }}
+                                  className="rounded-md border border-gray-300 py-1 px-2 text-sm w-full focus:ring-2 focus:ring-primary focus:border-primary"
+                                />
                               </div>
-                              
-                              <div className="grid grid-cols-2 gap-2">
-                                <div>
-                                  <label className="block text-xs font-medium text-gray-600 mb-1">Format</label>
-                                  <select
-                                    value={option.format}
-                                    onChange={(e) => {
-                                      const updatedOptions = [...outputOptions];
-                                      updatedOptions[index].format = e.target.value as 'jpeg' | 'png' | 'webp';
-                                      setOutputOptions(updatedOptions);
-                                    }}
-                                    className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
-                                  >
-                                    <option value="jpeg">JPEG</option>
-                                    <option value="png">PNG</option>
-                                    <option value="webp">WebP</option>
-                                  </select>
-                                </div>
-                                
-                                <div>
-                                  <label className="block text-xs font-medium text-gray-600 mb-1">Scale</label>
-                                  <select
-                                    value={option.scale}
+                            </div>
+                            
+                            {/* Only show delete button if there's more than one option */}
+                            {outputOptions.length > 1 && (
+                              <button 
+                                onClick={() => {
+                                  // Remove this option
+                                  setOutputOptions(prev => prev.filter(item => item.id !== option.id));
+                                }}
+                                className="text-gray-500 hover:text-red-500 transition-colors"
+                                aria-label="Remove output version"
+                              >
+                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                  <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                                </svg>
+                              </button>
+                            )}
+                          </div>
+                          
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <label className="block text-xs font-medium text-gray-600 mb-1">Format</label>
+                              <select
+                                value={option.format}
+                                onChange={(e) => {
+                                  const updatedOptions = [...outputOptions];
+                                  updatedOptions[index].format = e.target.value as OutputFormat;
+                                  setOutputOptions(updatedOptions);
+                                }}
+                                className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+                              >
+                                {formats.map(format => (
+                                  <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+                                ))}
+                              </select>
+                            </div>
+                            
+                            <div>
+                              <label className="block text-xs font-medium text-gray-600 mb-1">Scale</label>
+                              <select
+                                value={hasExactSize(option) ? 'size' : option.scale}
+                                onChange={(e) => {
+                                  const updatedOptions = [...outputOptions];
+                                  if (e.target.value === 'size') {
+                                    // Start from the size this version currently exports at
+                                    const size = selectedArea
+                                      ? getOutputSize(selectedArea, getOutputTarget(option))
+                                      : activePreset ?? { width: 1080, height: 1080 };
+                                    updatedOptions[index] = { ...option, width: size.width, height: size.height };
+                                  } else {
+                                    updatedOptions[index] = { ...option, scale: Number(e.target.value), width: undefined, height: undefined };
+                                  }
+                                  setOutputOptions(updatedOptions);
+                                }}
+                                className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+                              >
+                                <option value="0.25">0.25x</option>
+                                <option value="0.5">0.5x</option>
+                                <option value="1">{activePreset ? '1x (Preset size)' : '1x (Original)'}</option>
+                                <option value="1.5">1.5x</option>
+                                <option value="2">2x</option>
+                                <option value="size">Exact size</option>
+                              </select>
+                            </div>
+                          </div>
+
+                          {hasExactSize(option) && (
+                            <div className="mt-2 grid grid-cols-2 gap-2">
+                              {(['width', 'height'] as const).map(side => (
+                                <div key={side}>
+                                  <label htmlFor={`${side}-${option.id}`} className="block text-xs font-medium text-gray-600 mb-1">
+                                    {side === 'width' ? 'Width (px)' : 'Height (px)'}
+                                  </label>
+                                  <input
+                                    type="number"
+                                    id={`${side}-${option.id}`}
+                                    value={option[side] ?? ''}
+                                    min={1}
+                                    max={MAX_OUTPUT_SIDE}
+                                    step={1}
+                                    placeholder="Auto"
                                     onChange={(e) => {
+                                      // Leaving one side empty keeps the crop's aspect ratio
+                                      const value = Math.min(MAX_OUTPUT_SIDE, Math.round(Number(e.target.value)));
                                       const updatedOptions = [...outputOptions];
-                                      updatedOptions[index].scale = Number(e.target.value);
+                                      updatedOptions[index] = { ...option, [side]: value > 0 ? value : undefined };
                                       setOutputOptions(updatedOptions);
                                     }}
                                     className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
-                                  >
-                                    <option value="0.25">0.25x</option>
-                                    <option value="0.5">0.5x</option>
-                                    <option value="1">1x (Original)</option>
-                                    <option value="1.5">1.5x</option>
-                                    <option value="2">2x</option>
-                                  </select>
-                                </div>
-                              </div>
-                              
-                              {(option.format === 'jpeg' || option.format === 'webp') && (
-                                <div className="mt-2">
-                                  <label className="block text-xs font-medium text-gray-600">
-                                    Quality ({Math.round(option.quality * 100)}%)
-                                  </label>
-                                  <Slider
-                                    value={[option.quality]}
-                                    onValueChange={(value) => {
-                                      const updatedOptions = [...outputOptions];
-                                      updatedOptions[index].quality = value[0];
-                                      setOutputOptions(updatedOptions);
-                                    }}
-                                    min={0.1}
-                                    max={1}
-                                    step={0.01}
-                                    className="w-full"
                                   />
                                 </div>
-                              )}
+                              ))}
                             </div>
-                          ))}
+                          )}
+                          
+                          {(option.format === 'jpeg' || option.format === 'webp') && (
+                            <div className="mt-2">
+                              <label className="block text-xs font-medium text-gray-600">
+                                Quality ({Math.round(option.quality * 100)}%)
+                              </label>
+                              <Slider
+                                value={[option.quality]}
+                                onValueChange={(value) => {
+                                  const updatedOptions = [...outputOptions];
+                                  updatedOptions[index].quality = value[0];
+                                  setOutputOptions(updatedOptions);
+                                }}
+                                min={0.1}
+                                max={1}
+                                step={0.01}
+                                className="w-full"
+                              />
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    )}
+                      ))}
+                    </div>
                   </div>
+                )}
+              </div>
 
-                  {/* Column 2: Download Button */}
-                  <div className="flex items-end h-full">
-                    <Button 
-                      onClick={handleDownload}
-                      className="w-full min-w-[140px] mt-auto" // mt-auto for vertical alignment
-                    >
-                      {showMultipleOptions 
-                        ? `Download ${outputOptions.filter(o => o.enabled).length} Versions`
-                        : 'Download'
-                      }
-                      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 ml-2">
-                        <path d="M10.75 2.75a.75.75 0 00-1.5 0v8.614L6.295 8.235a.75.75 0 10-1.09 1.03l4.25 4.5a.75.75 0 001.09 0l4.25-4.5a.75.75 0 00-1.09-1.03l-2.955 3.129V2.75z" />
-                        <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
-                      </svg>
-                    </Button>
-                  </div>
-                </div>
+              {/* Column 2: Download, apply and cancel buttons */}
+              <div className="flex flex-col justify-end gap-2 h-full">
+                {showDownload && (
+                  <Button 
+                    onClick={handleDownload}
+                    disabled={batchProgress !== null}
+                    className="w-full min-w-[140px] mt-auto" // mt-auto for vertical alignment
+                  >
+                    {batchProgress !== null
+                      ? `Exporting ${batchProgress}/${batch.length}…`
+                      : isBatch
+                        ? `Download All (${batch.length} Images)${bundleZip ? ' as ZIP' : ''}`
+                        : showMultipleOptions 
+                          ? `Download ${outputOptions.filter(o => o.enabled).length} Versions${bundleZip ? ' as ZIP' : ''}`
+                          : 'Download'
+                    }
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 ml-2">
+                      <path d="M10.75 2.75a.75.75 0 00-1.5 0v8.614L6.295 8.235a.75.75 0 10-1.09 1.03l4.25 4.5a.75.75 0 001.09 0l4.25-4.5a.75.75 0 00-1.09-1.03l-2.955 3.129V2.75z" />
+                      <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
+                    </svg>
+                  </Button>
+                )}
+                {onComplete && (
+                  <Button
+                    variant={showDownload ? 'outline' : 'default'}
+                    onClick={handleComplete}
+                    className="w-full min-w-[140px]"
+                  >
+                    {completeLabel}
+                  </Button>
+                )}
+                {onCancel && (
+                  <Button variant="ghost" onClick={onCancel} className="w-full min-w-[140px]">
+                    Cancel
+                  </Button>
+                )}
+                {complianceRuleSet && failedRules.length > 0 && (
+                  <p role="status" className="text-xs text-red-800 bg-red-50 border border-red-200 rounded-md p-2">
+                    The photo fails {failedRules.length} of {complianceResults?.length} {complianceRuleSet.name} requirements:{' '}
+                    {failedRules.map(result => result.label.toLowerCase()).join(', ')}.
+                  </p>
+                )}
+                {selectedArea && upscale && upscale.factor > upscaleWarningThreshold && (
+                  <p role="status" className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-md p-2">
+                    The selected area is {selectedArea.width}×{selectedArea.height} px, so exporting at {upscale.width}×{upscale.height} px
+                    enlarges it {upscale.factor.toFixed(1)}× and may look soft. Select a larger area or use a higher resolution image.
+                  </p>
+                )}
               </div>
-            )}
+            </div>
+          </div>
+        )}
+
+        {!imageSrc && savedSessions.sessions.length > 0 && (
+          <div className="mt-4">
+            <RecentSessions
+              sessions={savedSessions.sessions}
+              onRestore={restoreSession}
+              onRemove={savedSessions.removeSession}
+            />
           </div>
-        </Card>
+        )}
       </div>
-    </div>
+    </Card>
   );
 }
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  OUTPUT_FORMAT_LABELS,
+  bytesToDataUrl,
+  dataUrlToBytes,
+  pixelsToCanvas,
+  type OutputFormat,
+  type PixelBuffer,
+} from '@/lib/cropUtils';
+import { downloadBlob, downloadUrl, toSlug } from '@/lib/download';
+import { detectImageFormat, writeResolution } from '@/lib/metadata';
+import { createImagePdf } from '@/lib/pdf';
+import { CROP_PRESETS } from '@/lib/presets';
+import { MAX_SHEET_DPI, MIN_SHEET_DPI, layoutSheet, renderSheet, type PhysicalSize } from '@/lib/printSheet';
+import { DEFAULT_DPI, formatSize } from '@/lib/units';
+
+// Paper a print sheet can be laid out on
+const SHEET_PAPERS = CROP_PRESETS.filter(preset =>
+  preset.category === 'Print' || preset.name === 'US Letter' || preset.name === 'A4 Paper'
+);
+
+interface PrintSheetSettings {
+  /** Name of a preset from `SHEET_PAPERS` */
+  paper: string;
+  /** Photo width in mm, for crops without a physical preset size */
+  photoWidth: number;
+  /** In mm */
+  margin: number;
+  gutter: number;
+  /** Fills the sheet when null */
+  copies: number | null;
+  cutMarks: boolean;
+  dpi: number;
+  output: 'image' | 'pdf';
+}
+
+const DEFAULT_PRINT_SHEET: PrintSheetSettings = {
+  paper: '4×6 Print',
+  photoWidth: 50,
+  margin: 3,
+  gutter: 2,
+  copies: null,
+  cutMarks: true,
+  dpi: DEFAULT_DPI,
+  output: 'image',
+};
+
+interface PrintSheetPanelProps {
+  /** Physical size of the applied preset; without one the photo width is picked here */
+  presetSize: PhysicalSize | null;
+  /** Size of the crop in source pixels, which gives the photo its proportions */
+  cropSize: { width: number; height: number } | null;
+  outputFormat: OutputFormat;
+  outputQuality: number;
+  /** Renders the crop at the pixel size it takes on the sheet; null without an image */
+  renderPhoto: (width: number, height: number) => PixelBuffer | null;
+}
+
+/**
+ * Print sheet settings and download: copies of the crop tiled onto paper at
+ * their physical size.
+ */
+export default function PrintSheetPanel({ presetSize, cropSize, outputFormat, outputQuality, renderPhoto }: PrintSheetPanelProps) {
+  const [settings, setSettings] = useState<PrintSheetSettings>(DEFAULT_PRINT_SHEET);
+  const [sheetError, setSheetError] = useState<string | null>(null);
+
+  // The preset's physical size, or the chosen width with the crop's proportions
+  const paper = SHEET_PAPERS.find(sheet => sheet.name === settings.paper) ?? SHEET_PAPERS[0];
+  const photo: PhysicalSize | null = presetSize ?? (cropSize
+    ? {
+      width: settings.photoWidth,
+      height: Math.round((settings.photoWidth * cropSize.height * 10) / cropSize.width) / 10,
+      unit: 'mm',
+    }
+    : null);
+  // The DPI field may hold a half-typed value; sheets use it within the supported range
+  const dpi = Math.min(MAX_SHEET_DPI, Math.max(MIN_SHEET_DPI, settings.dpi));
+  const layout = photo
+    ? layoutSheet({
+      paper,
+      photo,
+      margin: settings.margin,
+      gutter: settings.gutter,
+      dpi,
+      copies: settings.copies ?? undefined,
+      cutMarks: settings.cutMarks,
+    })
+    : null;
+
+  const update = (patch: Partial<PrintSheetSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  // Download the sheet as an image in the output format, or as a PDF of the paper size
+  const download = () => {
+    if (!layout || layout.cells.length === 0) return;
+
+    const { cutMarks, output } = settings;
+    const filename = `print-sheet-${toSlug(paper.name)}`;
+    setSheetError(null);
+    try {
+      const pixels = renderPhoto(layout.photoWidth, layout.photoHeight);
+      if (!pixels) return;
+      const canvas = pixelsToCanvas(renderSheet(pixels, layout, { dpi, cutMarks }));
+      // Browsers return an empty data URL for canvases larger than they can encode
+      const encode = (type: string) => {
+        const bytes = dataUrlToBytes(canvas.toDataURL(type, outputQuality));
+        if (bytes.length === 0) throw new Error('the sheet is too large for this browser');
+        return bytes;
+      };
+
+      if (output === 'pdf') {
+        const page = { width: canvas.width / dpi, height: canvas.height / dpi };
+        downloadBlob(new Blob([createImagePdf(encode('image/jpeg'), canvas, page)], { type: 'application/pdf' }), `${filename}.pdf`);
+        return;
+      }
+
+      const bytes = writeResolution(encode(`image/${outputFormat}`), dpi);
+      downloadUrl(bytesToDataUrl(bytes, `image/${detectImageFormat(bytes) ?? outputFormat}`), `${filename}.${outputFormat}`);
+    } catch (error) {
+      console.error('Error creating print sheet:', error);
+      setSheetError(`Couldn't create the sheet at ${dpi} DPI (${(error as Error).message}); try a lower DPI.`);
+    }
+  };
+
+  if (!layout || !photo) return null;
+
+  return (
+    <div className="bg-gray-50 rounded-lg border border-gray-200 p-4 space-y-3">
+      <h3 className="text-sm font-medium text-gray-700">Print Sheet</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label htmlFor="sheet-paper" className="block text-xs font-medium text-gray-600 mb-1">Paper</label>
+          <select
+            id="sheet-paper"
+            value={paper.name}
+            onChange={(e) => update({ paper: e.target.value })}
+            className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+          >
+            {SHEET_PAPERS.map(sheet => (
+              <option key={sheet.name} value={sheet.name}>
+                {sheet.name} ({formatSize(sheet.width, sheet.height, sheet.unit)})
+              </option>
+            ))}
+          </select>
+        </div>
+        {presetSize ? (
+          <div>
+            <span className="block text-xs font-medium text-gray-600 mb-1">Photo size</span>
+            <p className="text-xs text-gray-700 py-1">{formatSize(photo.width, photo.height, photo.unit)}</p>
+          </div>
+        ) : (
+          <div>
+            <label htmlFor="sheet-photo-width" className="block text-xs font-medium text-gray-600 mb-1">Photo width (mm)</label>
+            <input
+              type="number"
+              id="sheet-photo-width"
+              value={settings.photoWidth}
+              min={1}
+              step={1}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value > 0) update({ photoWidth: value });
+              }}
+              className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="sheet-margin" className="block text-xs font-medium text-gray-600 mb-1">Margin (mm)</label>
+          <input
+            type="number"
+            id="sheet-margin"
+            value={settings.margin}
+            min={0}
+            step={0.5}
+            onChange={(e) => update({ margin: Math.max(0, Number(e.target.value)) })}
+            className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+          />
+        </div>
+        <div>
+          <label htmlFor="sheet-gutter" className="block text-xs font-medium text-gray-600 mb-1">Gutter (mm)</label>
+          <input
+            type="number"
+            id="sheet-gutter"
+            value={settings.gutter}
+            min={0}
+            step={0.5}
+            onChange={(e) => update({ gutter: Math.max(0, Number(e.target.value)) })}
+            className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+          />
+        </div>
+        <div>
+          <label htmlFor="sheet-copies" className="block text-xs font-medium text-gray-600 mb-1">Copies</label>
+          <input
+            type="number"
+            id="sheet-copies"
+            value={settings.copies ?? ''}
+            min={1}
+            step={1}
+            placeholder="Fill sheet"
+            onChange={(e) => {
+              const value = Math.round(Number(e.target.value));
+              update({ copies: value > 0 ? value : null });
+            }}
+            className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+          />
+        </div>
+        <div>
+          <label htmlFor="sheet-dpi" className="block text-xs font-medium text-gray-600 mb-1">DPI</label>
+          <input
+            type="number"
+            id="sheet-dpi"
+            value={settings.dpi}
+            min={MIN_SHEET_DPI}
+            max={MAX_SHEET_DPI}
+            step={1}
+            onChange={(e) => {
+              const value = Math.round(Number(e.target.value));
+              if (value > 0) update({ dpi: value });
+            }}
+            onBlur={() => update({ dpi: dpi })}
+            className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+          />
+        </div>
+        <div>
+          <label htmlFor="sheet-output" className="block text-xs font-medium text-gray-600 mb-1">Save as</label>
+          <select
+            id="sheet-output"
+            value={settings.output}
+            onChange={(e) => update({ output: e.target.value as PrintSheetSettings['output'] })}
+            className="w-full rounded-md border border-gray-300 py-1 px-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary"
+          >
+            <option value="image">Image ({OUTPUT_FORMAT_LABELS[outputFormat]})</option>
+            <option value="pdf">PDF</option>
+          </select>
+        </div>
+        <div className="flex items-center pt-5">
+          <input
+            type="checkbox"
+            id="sheet-cut-marks"
+            checked={settings.cutMarks}
+            onChange={() => update({ cutMarks: !settings.cutMarks })}
+            className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+          />
+          <label htmlFor="sheet-cut-marks" className="ml-2 block text-xs text-gray-700">
+            Cut marks
+          </label>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-600" role="status">
+          {layout.cells.length > 0
+            ? `${layout.cells.length} × ${formatSize(photo.width, photo.height, photo.unit)} on ${paper.name} `
+              + `(${layout.width}×${layout.height} px at ${dpi} DPI)`
+            : 'The photo doesn\'t fit on this paper with these margins.'}
+        </p>
+        <Button size="sm" onClick={download} disabled={layout.cells.length === 0} className="text-xs">
+          Download Sheet
+        </Button>
+      </div>
+      {sheetError && (
+        <p className="text-xs text-red-600" role="alert">{sheetError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import type { StoredSession } from '@/lib/sessionStore';
+
+interface RecentSessionsProps {
+  /** Newest first; the first one is offered for restoring */
+  sessions: StoredSession[];
+  onRestore: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Offers to restore the last session and lists the other recent images.
+ */
+export default function RecentSessions({ sessions, onRestore, onRemove }: RecentSessionsProps) {
+  if (sessions.length === 0) return null;
+  const [last, ...others] = sessions;
+
+  return (
+    <div className="bg-gray-50 rounded-lg border border-gray-200 p-3 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2" role="status">
+        <div className="text-sm text-gray-700">
+          Pick up where you left off with <span className="font-medium">{last.name}</span>
+          <span className="text-xs text-gray-500"> (edited {formatTime(last.updatedAt)})</span>?
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => onRestore(last.id)}>
+            Restore Last Session
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => onRemove(last.id)}>
+            Discard
+          </Button>
+        </div>
+      </div>
+
+      {others.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Recent Images</h3>
+          <div className="flex flex-wrap gap-3">
+            {others.map(session => (
+              <div key={session.id} className="relative w-20">
+                <button
+                  type="button"
+                  onClick={() => onRestore(session.id)}
+                  className="block w-20 h-20 rounded-md overflow-hidden border border-gray-300 bg-gray-200 transition-all hover:scale-105"
+                  aria-label={`Restore ${session.name}`}
+                  title={`Edited ${formatTime(session.updatedAt)}`}
+                >
+                  {session.thumbnail && (
+                    <div
+                      className="w-full h-full"
+                      style={{
+                        backgroundImage: `url(${session.thumbnail})`,
+                        backgroundSize: 'cover',
+                        backgroundPosition: 'center',
+                      }}
+                    ></div>
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(session.id)}
+                  className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-white border border-gray-300 text-gray-500 hover:text-red-500 text-xs leading-none"
+                  aria-label={`Remove ${session.name}`}
+                >
+                  ×
+                </button>
+                <div className="mt-1 text-xs text-gray-600 truncate" title={session.name}>
+                  {session.name}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { act, renderHook } from '@testing-library/react';
+import { CUSTOM_FILTERS_STORAGE_KEY, type FilterDefinition } from '@/lib/filters';
+import { useCustomFilters } from './useCustomFilters';
+
+const warm: FilterDefinition = { id: 'lut-warm', name: 'Warm', operations: [{ type: 'colorMatrix', matrix: [1.1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0.9, 0] }] };
+
+const stored = () => JSON.parse(window.localStorage.getItem(CUSTOM_FILTERS_STORAGE_KEY) ?? 'null');
+
+describe('useCustomFilters', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('adds and removes filters and keeps them in localStorage', () => {
+    const { result } = renderHook(() => useCustomFilters());
+
+    act(() => result.current.addFilter(warm));
+    expect(stored()).toEqual([warm]);
+
+    // Adding under the same id replaces the filter
+    act(() => result.current.addFilter({ ...warm, name: 'Warmer' }));
+    expect(result.current.filters.map(filter => filter.name)).toEqual(['Warmer']);
+
+    act(() => result.current.removeFilter('lut-warm'));
+    expect(stored()).toEqual([]);
+  });
+
+  it('loads saved filters', () => {
+    window.localStorage.setItem(CUSTOM_FILTERS_STORAGE_KEY, JSON.stringify([warm]));
+    const { result } = renderHook(() => useCustomFilters());
+    expect(result.current.filters).toEqual([warm]);
+  });
+
+  it('skips saved filters that do not validate', () => {
+    const broken = { id: 'lut-broken', name: 'Broken', operations: [{ type: 'lut', size: 2, table: '' }] };
+    window.localStorage.setItem(CUSTOM_FILTERS_STORAGE_KEY, JSON.stringify([broken, warm]));
+    const { result } = renderHook(() => useCustomFilters());
+    expect(result.current.filters).toEqual([warm]);
+  });
+
+  it('leaves a corrupt saved list alone', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      window.localStorage.setItem(CUSTOM_FILTERS_STORAGE_KEY, '[{"id": "lut-warm"');
+      const { result } = renderHook(() => useCustomFilters());
+      expect(result.current.filters).toEqual([]);
+
+      act(() => result.current.addFilter(warm));
+      expect(window.localStorage.getItem(CUSTOM_FILTERS_STORAGE_KEY)).toBe('[{"id": "lut-warm"');
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('says when the filters do not fit in storage', () => {
+    const { result } = renderHook(() => useCustomFilters());
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      act(() => result.current.addFilter(warm));
+      expect(result.current.saveError).toMatch('Not enough browser storage');
+    } finally {
+      setItem.mockRestore();
+      consoleError.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { loadCustomFilters, saveCustomFilters, type FilterDefinition } from '@/lib/filters';
+import { useStoredList } from './useStoredList';
+
+/**
+ * The user's own filters, e.g. imported LUTs, kept in localStorage. Pass
+ * `filters` along when rendering so a transform can name them. Imported LUTs
+ * are large, so saving can run out of storage; `saveError` then says so and
+ * the filters last until the page is closed.
+ */
+export function useCustomFilters() {
+  const { items: filters, setItems: setFilters, saveFailed } = useStoredList(loadCustomFilters, saveCustomFilters, 'custom filters');
+  const saveError = saveFailed
+    ? "Not enough browser storage to keep your imported looks; they'll be gone when you close the page"
+    : null;
+
+  /**
+   * Adds a filter, replacing any with the same id.
+   */
+  const addFilter = useCallback((filter: FilterDefinition) => {
+    setFilters(prev => [...prev.filter(existing => existing.id !== filter.id), filter]);
+  }, [setFilters]);
+
+  const removeFilter = useCallback((id: string) => {
+    setFilters(prev => prev.filter(filter => filter.id !== id));
+  }, [setFilters]);
+
+  return { filters, addFilter, removeFilter, saveError };
+}
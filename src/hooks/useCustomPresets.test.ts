@@ -0,0 +1,76 @@
+import { act, renderHook } from '@testing-library/react';
+import { CUSTOM_PRESETS_STORAGE_KEY } from '@/lib/presets';
+import { useCustomPresets } from './useCustomPresets';
+
+const header = { name: 'Newsletter Header', width: 600, height: 200, unit: 'px', category: 'Email' };
+
+const stored = () => JSON.parse(window.localStorage.getItem(CUSTOM_PRESETS_STORAGE_KEY) ?? 'null');
+
+describe('useCustomPresets', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('adds, edits and removes presets and keeps them in localStorage', () => {
+    const { result } = renderHook(() => useCustomPresets());
+
+    act(() => {
+      result.current.savePreset(header);
+    });
+    expect(stored().presets).toEqual([header]);
+
+    act(() => {
+      result.current.savePreset({ ...header, name: 'Email Header', width: 1200 }, 'Newsletter Header');
+    });
+    expect(result.current.presets.map(preset => [preset.name, preset.width])).toEqual([['Email Header', 1200]]);
+
+    act(() => result.current.removePreset('Email Header'));
+    expect(stored().presets).toEqual([]);
+  });
+
+  it('loads saved presets', () => {
+    window.localStorage.setItem(CUSTOM_PRESETS_STORAGE_KEY, JSON.stringify({ version: 1, presets: [header] }));
+    const { result } = renderHook(() => useCustomPresets());
+    expect(result.current.presets).toEqual([{ ...header, aspectRatio: 3, custom: true }]);
+  });
+
+  it('skips saved presets that no longer validate', () => {
+    // e.g. a name that has since become a built-in preset
+    const conflicting = { ...header, name: 'A4 Paper' };
+    window.localStorage.setItem(CUSTOM_PRESETS_STORAGE_KEY, JSON.stringify({ version: 1, presets: [conflicting, header] }));
+    const { result } = renderHook(() => useCustomPresets());
+    expect(result.current.presets.map(preset => preset.name)).toEqual(['Newsletter Header']);
+  });
+
+  it('leaves a corrupt saved file alone', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      window.localStorage.setItem(CUSTOM_PRESETS_STORAGE_KEY, '{"version": 1, "presets": [');
+      const { result } = renderHook(() => useCustomPresets());
+      expect(result.current.presets).toEqual([]);
+
+      act(() => {
+        result.current.savePreset(header);
+      });
+      expect(window.localStorage.getItem(CUSTOM_PRESETS_STORAGE_KEY)).toBe('{"version": 1, "presets": [');
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('rejects duplicate names', () => {
+    const { result } = renderHook(() => useCustomPresets());
+    act(() => {
+      result.current.savePreset(header);
+    });
+    expect(() => result.current.savePreset(header)).toThrow('A preset named "Newsletter Header" already exists');
+  });
+
+  it('imports and exports preset files', () => {
+    const { result } = renderHook(() => useCustomPresets());
+    expect(() => result.current.importPresets('{')).toThrow('Preset file is not valid JSON');
+
+    act(() => {
+      result.current.importPresets(JSON.stringify({ version: 1, presets: [header] }));
+    });
+    expect(JSON.parse(result.current.exportPresets())).toEqual({ version: 1, presets: [header] });
+  });
+});
@@ -0,0 +1,61 @@
+import { useCallback } from 'react';
+import {
+  loadCustomPresets,
+  mergePresets,
+  parseCustomPreset,
+  parsePresetFile,
+  saveCustomPresets,
+  serializePresetFile,
+  type CropPreset,
+} from '@/lib/presets';
+import { useStoredList } from './useStoredList';
+
+/**
+ * The user's own presets, kept in localStorage. Editing functions throw with
+ * a message for the user when the input is invalid.
+ */
+export function useCustomPresets() {
+  const { items: presets, setItems: setPresets } = useStoredList(loadCustomPresets, saveCustomPresets, 'custom presets');
+
+  /**
+   * Adds a preset, or replaces `previousName` when editing one.
+   */
+  const savePreset = (input: unknown, previousName?: string): CropPreset => {
+    const preset = parseCustomPreset(input);
+    if (preset.name !== previousName && presets.some(existing => existing.name === preset.name)) {
+      throw new Error(`A preset named "${preset.name}" already exists`);
+    }
+    setPresets(prev => {
+      const index = prev.findIndex(existing => existing.name === previousName);
+      return index === -1 ? [...prev, preset] : prev.map((existing, i) => (i === index ? preset : existing));
+    });
+    return preset;
+  };
+
+  const removePreset = useCallback((name: string) => {
+    setPresets(prev => prev.filter(preset => preset.name !== name));
+  }, [setPresets]);
+
+  /**
+   * Adds the presets from a preset file, replacing any with the same names.
+   *
+   * @return The imported presets
+   */
+  const importPresets = useCallback((json: string): CropPreset[] => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Preset file is not valid JSON');
+    }
+    const imported = parsePresetFile(parsed);
+    setPresets(prev => mergePresets(prev, imported));
+    return imported;
+  }, [setPresets]);
+
+  const exportPresets = () => serializePresetFile(presets);
+
+  return { presets, savePreset, removePreset, importPresets, exportPresets };
+}
+
+export type CustomPresets = ReturnType<typeof useCustomPresets>;
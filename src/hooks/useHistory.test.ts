@@ -0,0 +1,73 @@
+import { act, renderHook } from '@testing-library/react';
+import { createHistory, historyReducer, useHistory } from './useHistory';
+
+describe('historyReducer', () => {
+  it('pushes each update and clears the redo stack', () => {
+    let history = createHistory(0);
+    history = historyReducer(history, { type: 'set', state: 1 });
+    history = historyReducer(history, { type: 'set', state: 2 });
+    history = historyReducer(history, { type: 'undo' });
+    expect(history).toMatchObject({ past: [0], present: 1, future: [2] });
+
+    history = historyReducer(history, { type: 'set', state: 3 });
+    expect(history).toMatchObject({ past: [0, 1], present: 3, future: [] });
+  });
+
+  it('coalesces updates with the same key until committed', () => {
+    let history = createHistory(0);
+    history = historyReducer(history, { type: 'set', state: 1, coalesce: 'rotation' });
+    history = historyReducer(history, { type: 'set', state: 2, coalesce: 'rotation' });
+    history = historyReducer(history, { type: 'set', state: 3, coalesce: 'rotation' });
+    expect(history.past).toEqual([0]);
+
+    history = historyReducer(history, { type: 'commit' });
+    history = historyReducer(history, { type: 'set', state: 4, coalesce: 'rotation' });
+    expect(history.past).toEqual([0, 3]);
+  });
+
+  it('starts a new entry when the coalesce key changes', () => {
+    let history = createHistory(0);
+    history = historyReducer(history, { type: 'set', state: 1, coalesce: 'zoom' });
+    history = historyReducer(history, { type: 'set', state: 2, coalesce: 'rotation' });
+    expect(history.past).toEqual([0, 1]);
+  });
+
+  it('ignores undo and redo at the ends of the stack', () => {
+    const history = createHistory(0);
+    expect(historyReducer(history, { type: 'undo' })).toBe(history);
+    expect(historyReducer(history, { type: 'redo' })).toBe(history);
+  });
+});
+
+describe('useHistory', () => {
+  it('returns the state undo and redo move to', () => {
+    const { result } = renderHook(() => useHistory('a'));
+
+    act(() => result.current.set('b'));
+    expect(result.current.canUndo).toBe(true);
+
+    let restored: string | undefined;
+    act(() => {
+      restored = result.current.undo();
+    });
+    expect(restored).toBe('a');
+    expect(result.current.state).toBe('a');
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => {
+      restored = result.current.redo();
+    });
+    expect(restored).toBe('b');
+    expect(result.current.state).toBe('b');
+  });
+
+  it('clears both stacks on reset', () => {
+    const { result } = renderHook(() => useHistory(1));
+
+    act(() => result.current.set(2));
+    act(() => result.current.reset(5));
+    expect(result.current.state).toBe(5);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+});
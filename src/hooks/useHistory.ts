@@ -0,0 +1,116 @@
+import { useCallback, useReducer } from 'react';
+
+/**
+ * Undo/redo stack. `coalesceKey` is set while a group of updates (e.g. a slider
+ * drag) is still open; further updates with the same key replace `present`
+ * instead of adding entries.
+ */
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  coalesceKey: string | null;
+}
+
+export interface SetOptions {
+  /** Merge consecutive updates with the same key into one entry until `commit` */
+  coalesce?: string;
+}
+
+export type HistoryAction<T> =
+  | { type: 'set'; state: T; coalesce?: string }
+  | { type: 'commit' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; state: T };
+
+const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(present: T): HistoryState<T> {
+  return { past: [], present, future: [], coalesceKey: null };
+}
+
+export function historyReducer<T>(history: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case 'set': {
+      if (action.state === history.present) return history;
+      const coalesceKey = action.coalesce ?? null;
+
+      if (coalesceKey !== null && coalesceKey === history.coalesceKey) {
+        return { ...history, present: action.state, future: [] };
+      }
+      return {
+        past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+        present: action.state,
+        future: [],
+        coalesceKey,
+      };
+    }
+    case 'commit':
+      return history.coalesceKey === null ? history : { ...history, coalesceKey: null };
+    case 'undo': {
+      if (history.past.length === 0) return history;
+      return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+        coalesceKey: null,
+      };
+    }
+    case 'redo': {
+      if (history.future.length === 0) return history;
+      return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+        coalesceKey: null,
+      };
+    }
+    case 'reset':
+      return createHistory(action.state);
+  }
+}
+
+/**
+ * State with undo/redo. `undo` and `redo` return the state they move to so
+ * callers can notify listeners synchronously.
+ */
+export function useHistory<T>(initial: T | (() => T)) {
+  const [history, dispatch] = useReducer(
+    historyReducer<T>,
+    initial,
+    (value) => createHistory(typeof value === 'function' ? (value as () => T)() : value)
+  );
+
+  const set = useCallback((state: T, options: SetOptions = {}) => {
+    dispatch({ type: 'set', state, coalesce: options.coalesce });
+  }, []);
+
+  const commit = useCallback(() => dispatch({ type: 'commit' }), []);
+
+  /** Replaces the state and clears the undo/redo stacks */
+  const reset = useCallback((state: T) => dispatch({ type: 'reset', state }), []);
+
+  const undo = (): T | undefined => {
+    if (history.past.length === 0) return undefined;
+    dispatch({ type: 'undo' });
+    return history.past[history.past.length - 1];
+  };
+
+  const redo = (): T | undefined => {
+    if (history.future.length === 0) return undefined;
+    dispatch({ type: 'redo' });
+    return history.future[0];
+  };
+
+  return {
+    state: history.present,
+    set,
+    commit,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,24 @@
+import { act, renderHook } from '@testing-library/react';
+import { PRESET_PICKS_STORAGE_KEY } from '@/lib/presets';
+import { usePresetPicks } from './usePresetPicks';
+
+describe('usePresetPicks', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('toggles favorites and records recent presets across sessions', () => {
+    const { result, unmount } = renderHook(() => usePresetPicks());
+
+    act(() => result.current.toggleFavorite('A4 Paper'));
+    act(() => result.current.addRecent('Instagram Post'));
+    act(() => result.current.addRecent('A4 Paper'));
+    expect(result.current.favorites).toEqual(['A4 Paper']);
+    expect(result.current.recent).toEqual(['A4 Paper', 'Instagram Post']);
+    unmount();
+
+    const { result: next } = renderHook(() => usePresetPicks());
+    expect(next.current).toMatchObject({ favorites: ['A4 Paper'], recent: ['A4 Paper', 'Instagram Post'] });
+
+    act(() => next.current.toggleFavorite('A4 Paper'));
+    expect(JSON.parse(window.localStorage.getItem(PRESET_PICKS_STORAGE_KEY)!).favorites).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { addRecentPreset, loadPresetPicks, savePresetPicks, type PresetPicks } from '@/lib/presets';
+
+/**
+ * Favorite and recently used presets, kept in localStorage between sessions.
+ */
+export function usePresetPicks() {
+  const [picks, setPicks] = useState<PresetPicks>({ favorites: [], recent: [] });
+  const [loaded, setLoaded] = useState(false);
+
+  // Read after mounting so the server and first client render match
+  useEffect(() => {
+    setPicks(loadPresetPicks(window.localStorage));
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    try {
+      savePresetPicks(window.localStorage, picks);
+    } catch (error) {
+      console.error('Error saving preset favorites:', error);
+    }
+  }, [picks, loaded]);
+
+  const toggleFavorite = useCallback((name: string) => {
+    setPicks(prev => ({
+      ...prev,
+      favorites: prev.favorites.includes(name)
+        ? prev.favorites.filter(favorite => favorite !== name)
+        : [...prev.favorites, name],
+    }));
+  }, []);
+
+  const addRecent = useCallback((name: string) => {
+    setPicks(prev => ({ ...prev, recent: addRecentPreset(prev.recent, name) }));
+  }, []);
+
+  return { ...picks, toggleFavorite, addRecent };
+}
@@ -0,0 +1,81 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { DEFAULT_CROP_TRANSFORM } from '@/lib/cropUtils';
+import { pruneSessions, type SessionStore, type StoredSession } from '@/lib/sessionStore';
+import { useSessions } from './useSessions';
+
+// In-memory stand-in for the IndexedDB store
+function createMemoryStore(): SessionStore {
+  const sessions = new Map<string, StoredSession>();
+  const images = new Map<string, string>();
+  return {
+    list: async () => pruneSessions([...sessions.values()], Infinity).kept,
+    getImage: async id => images.get(id) ?? null,
+    save: async (session, image) => {
+      sessions.set(session.id, session);
+      if (image !== undefined) images.set(session.id, image);
+    },
+    remove: async id => {
+      sessions.delete(id);
+      images.delete(id);
+    },
+  };
+}
+
+const session = (id: string, updatedAt: number): StoredSession => ({
+  id,
+  name: `${id}.jpg`,
+  thumbnail: null,
+  edit: { transform: DEFAULT_CROP_TRANSFORM, aspect: null, preset: null },
+  updatedAt,
+});
+
+describe('useSessions', () => {
+  it('saves, lists and removes sessions', async () => {
+    const store = createMemoryStore();
+    await store.save(session('old', 1), 'data:image/png;base64,old');
+    const openStore = () => Promise.resolve(store);
+    const { result } = renderHook(() => useSessions(openStore));
+    await waitFor(() => expect(result.current.loaded).toBe(true));
+    expect(result.current.sessions.map(item => item.id)).toEqual(['old']);
+
+    await act(async () => {
+      await expect(result.current.saveSession(session('new', 2), 'data:image/png;base64,new')).resolves.toBe(true);
+    });
+    await act(() => result.current.saveSession({ ...session('new', 3), name: 'renamed.jpg' }));
+    expect(result.current.sessions.map(item => item.name)).toEqual(['renamed.jpg', 'old.jpg']);
+    await expect(result.current.getSessionImage('new')).resolves.toBe('data:image/png;base64,new');
+
+    await act(() => result.current.removeSession('old'));
+    expect(result.current.sessions.map(item => item.id)).toEqual(['new']);
+    await expect(store.getImage('old')).resolves.toBeNull();
+  });
+
+  it('keeps nothing without IndexedDB', async () => {
+    const openStore = () => Promise.resolve(null);
+    const { result } = renderHook(() => useSessions(openStore));
+    await waitFor(() => expect(result.current.loaded).toBe(true));
+
+    await act(async () => {
+      await expect(result.current.saveSession(session('a', 1), 'data:image/png;base64,a')).resolves.toBe(false);
+    });
+    expect(result.current.sessions).toEqual([]);
+  });
+
+  it('says when a session could not be saved', async () => {
+    const store = createMemoryStore();
+    store.save = () => Promise.reject(new DOMException('Quota exceeded', 'QuotaExceededError'));
+    const openStore = () => Promise.resolve(store);
+    const { result } = renderHook(() => useSessions(openStore));
+    await waitFor(() => expect(result.current.loaded).toBe(true));
+
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      await act(async () => {
+        await expect(result.current.saveSession(session('a', 1), 'data:image/png;base64,a')).resolves.toBe(false);
+      });
+      expect(consoleError).toHaveBeenCalledWith('Error saving session:', expect.any(DOMException));
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+});
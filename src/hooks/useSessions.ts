@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { openSessionStore, type SessionStore, type StoredSession } from '@/lib/sessionStore';
+
+const openDefaultStore = async (): Promise<SessionStore | null> =>
+  typeof indexedDB === 'undefined' ? null : openSessionStore(indexedDB);
+
+/**
+ * Recent editing sessions kept in IndexedDB. Without IndexedDB, e.g. in some
+ * private browsing modes, nothing is kept and the list stays empty.
+ *
+ * @param openStore - Opens the store; replaced in tests
+ */
+export function useSessions(openStore: () => Promise<SessionStore | null> = openDefaultStore) {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const storeRef = useRef<Promise<SessionStore | null> | null>(null);
+
+  const getStore = useCallback(() => {
+    storeRef.current ??= openStore().catch(error => {
+      console.error('Error opening saved sessions:', error);
+      return null;
+    });
+    return storeRef.current;
+  }, [openStore]);
+
+  // Read after mounting so the server and first client render match
+  useEffect(() => {
+    let cancelled = false;
+    getStore()
+      .then(async store => {
+        if (!store) return;
+        const list = await store.list();
+        if (!cancelled) setSessions(list);
+      })
+      .catch(error => console.error('Error loading saved sessions:', error))
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [getStore]);
+
+  /**
+   * Saves a session, with its image the first time, and refreshes the list.
+   *
+   * @return Whether the session was saved; without a store or when saving
+   *   fails it wasn't, and the image has to be passed again next time
+   */
+  const saveSession = useCallback(async (session: StoredSession, image?: string): Promise<boolean> => {
+    try {
+      const store = await getStore();
+      if (!store) return false;
+      await store.save(session, image);
+      setSessions(await store.list());
+      return true;
+    } catch (error) {
+      console.error('Error saving session:', error);
+      return false;
+    }
+  }, [getStore]);
+
+  const removeSession = useCallback(async (id: string) => {
+    setSessions(prev => prev.filter(session => session.id !== id));
+    try {
+      await (await getStore())?.remove(id);
+    } catch (error) {
+      console.error('Error removing session:', error);
+    }
+  }, [getStore]);
+
+  const getSessionImage = useCallback(async (id: string) => {
+    const store = await getStore();
+    return store ? store.getImage(id) : null;
+  }, [getStore]);
+
+  return { sessions, loaded, saveSession, removeSession, getSessionImage };
+}
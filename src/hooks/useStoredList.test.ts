@@ -0,0 +1,48 @@
+import { act, renderHook } from '@testing-library/react';
+import { useStoredList } from './useStoredList';
+
+const load = (storage: Storage): string[] => JSON.parse(storage.getItem('test-list') ?? '[]');
+const save = (storage: Storage, items: string[]) => storage.setItem('test-list', JSON.stringify(items));
+
+describe('useStoredList', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('loads the stored list and saves changes to it', () => {
+    window.localStorage.setItem('test-list', '["a"]');
+    const { result } = renderHook(() => useStoredList(load, save, 'test items'));
+    expect(result.current.items).toEqual(['a']);
+
+    act(() => result.current.setItems(prev => [...prev, 'b']));
+    expect(window.localStorage.getItem('test-list')).toBe('["a","b"]');
+  });
+
+  it('does not save over a list it could not load', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      window.localStorage.setItem('test-list', '["a"');
+      const { result } = renderHook(() => useStoredList(load, save, 'test items'));
+      act(() => result.current.setItems(['b']));
+      expect(window.localStorage.getItem('test-list')).toBe('["a"');
+      expect(consoleError).toHaveBeenCalledWith('Error loading test items:', expect.any(SyntaxError));
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('reports failed saves until a save succeeds', () => {
+    const { result } = renderHook(() => useStoredList(load, save, 'test items'));
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      act(() => result.current.setItems(['a']));
+      expect(result.current.saveFailed).toBe(true);
+    } finally {
+      setItem.mockRestore();
+      consoleError.mockRestore();
+    }
+    act(() => result.current.setItems([]));
+    expect(result.current.saveFailed).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * A list kept in localStorage with `load` and `save`, which throw when the
+ * stored list can't be read or written. `description` names the list in
+ * console errors, e.g. "custom presets". `saveFailed` is set while the
+ * latest list isn't saved.
+ */
+export function useStoredList<T>(
+  load: (storage: Storage) => T[],
+  save: (storage: Storage, items: T[]) => void,
+  description: string
+) {
+  const [items, setItems] = useState<T[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  // Read after mounting so the server and first client render match. Saving
+  // stays off when reading fails, so the saved list isn't overwritten
+  useEffect(() => {
+    try {
+      setItems(load(window.localStorage));
+      setLoaded(true);
+    } catch (error) {
+      console.error(`Error loading ${description}:`, error);
+    }
+  }, [load, description]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    try {
+      save(window.localStorage, items);
+      setSaveFailed(false);
+    } catch (error) {
+      console.error(`Error saving ${description}:`, error);
+      setSaveFailed(true);
+    }
+  }, [items, loaded, save, description]);
+
+  return { items, setItems, saveFailed };
+}
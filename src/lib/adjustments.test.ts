@@ -0,0 +1,146 @@
+import {
+  applyColorAdjustments,
+  getWhiteBalanceForGains,
+  getWhiteBalanceGains,
+  hasAdjustments,
+  linearToSrgb,
+  sharpenPixels,
+  srgbToLinear,
+  toneLightness,
+} from './adjustments';
+import { DEFAULT_ADJUSTMENTS, createPixelBuffer, type Adjustments } from './cropUtils';
+
+// Expected pixels are worked out from the sRGB curve and the formulas in the module
+
+const adjust = (color: [number, number, number], adjustments: Partial<Adjustments>) => {
+  const data = new Uint8ClampedArray([...color, 200]);
+  applyColorAdjustments(data, { ...DEFAULT_ADJUSTMENTS, ...adjustments });
+  return Array.from(data);
+};
+
+const luminance = ([r, g, b]: number[]) =>
+  0.2126 * srgbToLinear(r) + 0.7152 * srgbToLinear(g) + 0.0722 * srgbToLinear(b);
+
+describe('sRGB transfer', () => {
+  it('matches the standard curve', () => {
+    expect(srgbToLinear(0)).toBe(0);
+    expect(srgbToLinear(255)).toBe(1);
+    expect(srgbToLinear(128)).toBeCloseTo(0.2159, 4);
+    expect(linearToSrgb(0.5)).toBeCloseTo(187.52, 2);
+    expect(linearToSrgb(srgbToLinear(64))).toBeCloseTo(64, 6);
+  });
+});
+
+describe('exposure', () => {
+  it('scales linear light by a power of two per stop', () => {
+    expect(adjust([128, 128, 128], { exposure: 1 })).toEqual([176, 176, 176, 200]);
+    expect(adjust([64, 0, 255], { exposure: 1 })).toEqual([90, 0, 255, 200]);
+    expect(adjust([255, 255, 255], { exposure: -1 })).toEqual([188, 188, 188, 200]);
+  });
+});
+
+describe('white balance', () => {
+  it('keeps the luminance of grays', () => {
+    const [r, g, b] = getWhiteBalanceGains(40, -25);
+    expect(0.2126 * r + 0.7152 * g + 0.0722 * b).toBeCloseTo(1, 10);
+  });
+
+  it('finds the temperature and tint for given gains', () => {
+    const [r, g, b] = getWhiteBalanceGains(40, -25);
+    const balance = getWhiteBalanceForGains(r * 2, g * 2, b * 2);
+    expect(balance.temperature).toBeCloseTo(40, 10);
+    expect(balance.tint).toBeCloseTo(-25, 10);
+  });
+
+  it('warms with temperature and goes magenta with tint', () => {
+    const warm = adjust([128, 128, 128], { temperature: 100 });
+    expect(warm).toEqual([142, 126, 106, 200]);
+    expect(luminance(warm)).toBeCloseTo(luminance([128, 128, 128]), 2);
+    expect(adjust([128, 128, 128], { tint: 100 })).toEqual([143, 121, 143, 200]);
+    expect(adjust([128, 128, 128], { temperature: -100 })[2]).toBeGreaterThan(128);
+  });
+});
+
+describe('highlights and shadows', () => {
+  it('leaves black and white in place', () => {
+    expect(toneLightness(0, 100, -100)).toBe(0);
+    expect(toneLightness(1, 100, -100)).toBe(1);
+  });
+
+  it('lifts shadows and recovers highlights', () => {
+    expect(adjust([64, 64, 64], { shadows: 100 })).toEqual([100, 100, 100, 200]);
+    expect(adjust([192, 192, 192], { highlights: -100 })).toEqual([156, 156, 156, 200]);
+    // Shadows barely touch the highlights and the other way round
+    expect(adjust([230, 230, 230], { shadows: 100 })[0]).toBe(232);
+    expect(adjust([25, 25, 25], { highlights: 100 })[0]).toBe(27);
+  });
+
+  it('keeps the color while changing lightness', () => {
+    const [r, g, b] = adjust([60, 30, 15], { shadows: 100 });
+    expect(r / g).toBeCloseTo(2, 1);
+    expect(g / b).toBeCloseTo(2, 1);
+  });
+
+  it('never reverses the tones', () => {
+    for (const [shadows, highlights] of [[100, 100], [-100, -100], [100, -100], [-100, 100]]) {
+      let previous = -Infinity;
+      for (let l = 0; l <= 1; l += 0.01) {
+        const next = toneLightness(l, shadows, highlights);
+        expect(next).toBeGreaterThanOrEqual(previous);
+        previous = next;
+      }
+    }
+  });
+});
+
+describe('vibrance', () => {
+  it('saturates muted colors and leaves saturated ones alone', () => {
+    expect(adjust([150, 100, 100], { vibrance: 100 })).toEqual([176, 93, 93, 200]);
+    expect(adjust([150, 100, 100], { vibrance: -100 })).toEqual([124, 107, 107, 200]);
+    expect(adjust([255, 0, 0], { vibrance: 100 })).toEqual([255, 0, 0, 200]);
+    expect(adjust([90, 90, 90], { vibrance: 100 })).toEqual([90, 90, 90, 200]);
+  });
+});
+
+describe('hue', () => {
+  it('turns colors around the wheel and leaves grays alone', () => {
+    expect(adjust([255, 0, 0], { hue: 180 })).toEqual([0, 109, 109, 200]);
+    expect(adjust([120, 120, 120], { hue: 90 })).toEqual([120, 120, 120, 200]);
+  });
+});
+
+describe('sharpenPixels', () => {
+  // A bright dot on gray
+  const dot = () => {
+    const pixels = createPixelBuffer(3, 3);
+    for (let i = 0; i < pixels.data.length; i += 4) pixels.data.set([100, 100, 100, 255], i);
+    pixels.data.set([180, 180, 180, 255], 4 * 4);
+    return pixels;
+  };
+
+  it('adds back the difference from a 3×3 Gaussian blur', () => {
+    const result = sharpenPixels(dot(), 50);
+    expect(Array.from(result.data.filter((_, i) => i % 4 === 0))).toEqual([
+      95, 90, 95,
+      90, 240, 90,
+      95, 90, 95,
+    ]);
+  });
+
+  it('leaves flat areas and the source alone', () => {
+    const source = dot();
+    const flat = createPixelBuffer(2, 2);
+    flat.data.fill(77);
+    expect(Array.from(sharpenPixels(flat, 100).data)).toEqual(Array.from(flat.data));
+    sharpenPixels(source, 100);
+    expect(source.data[16]).toBe(180);
+  });
+});
+
+describe('hasAdjustments', () => {
+  it('is false only for the defaults', () => {
+    expect(hasAdjustments(DEFAULT_ADJUSTMENTS)).toBe(false);
+    expect(hasAdjustments({ ...DEFAULT_ADJUSTMENTS, sharpness: 10 })).toBe(true);
+    expect(hasAdjustments({ ...DEFAULT_ADJUSTMENTS, brightness: 90 })).toBe(true);
+  });
+});
@@ -0,0 +1,265 @@
+import type { AdjustmentMultipliers, Adjustments, PixelBuffer } from './cropUtils';
+
+/**
+ * Color math for the adjustments. Brightness, contrast and saturation are
+ * applied as multipliers. Exposure and white balance work on linear light, as
+ * a camera would see it; highlights/shadows, vibrance and hue work on the
+ * displayed (sRGB) values, where the eye judges them.
+ */
+
+// Rec. 709 / sRGB luminance weights
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+// Channel gains at full temperature or tint
+const WHITE_BALANCE_STRENGTH = 0.3;
+// Largest change highlights or shadows make to a mid-tone's lightness
+const TONE_STRENGTH = 0.25;
+// Unsharp mask amount at sharpness 100
+const SHARPEN_STRENGTH = 2;
+
+const TO_LINEAR = Float32Array.from({ length: 256 }, (_, value) => srgbToLinear(value));
+
+/**
+ * sRGB value (0–255) to linear light (0–1).
+ */
+export function srgbToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+}
+
+/**
+ * Linear light (0–1) to an sRGB value (0–255, unrounded).
+ */
+export function linearToSrgb(value: number): number {
+  const v = Math.min(1, Math.max(0, value));
+  return 255 * (v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055);
+}
+
+/**
+ * Linear-light channel gains for a temperature (blue to amber) and tint
+ * (green to magenta), each -100–100. The gains leave the luminance of grays
+ * unchanged, so white balance shifts color without brightening.
+ */
+export function getWhiteBalanceGains(temperature: number, tint: number): [number, number, number] {
+  const t = (Math.min(100, Math.max(-100, temperature)) / 100) * WHITE_BALANCE_STRENGTH;
+  const m = (Math.min(100, Math.max(-100, tint)) / 100) * WHITE_BALANCE_STRENGTH;
+  const gains: [number, number, number] = [1 + t, 1 - m, 1 - t];
+  const luminance = gains[0] * LUMA[0] + gains[1] * LUMA[1] + gains[2] * LUMA[2];
+  return gains.map(gain => gain / luminance) as [number, number, number];
+}
+
+/**
+ * The temperature and tint whose gains are proportional to the given
+ * linear-light gains, the inverse of `getWhiteBalanceGains`. Not rounded or
+ * limited to -100–100.
+ */
+export function getWhiteBalanceForGains(red: number, green: number, blue: number): { temperature: number; tint: number } {
+  // Solves (1 + t) : (1 - m) : (1 - t) = red : green : blue
+  const t = (red - blue) / (red + blue);
+  const m = 1 - ((1 + t) * green) / red;
+  return { temperature: (t / WHITE_BALANCE_STRENGTH) * 100, tint: (m / WHITE_BALANCE_STRENGTH) * 100 };
+}
+
+/**
+ * 3×4 color matrix, rows for red, green and blue as [r, g, b, offset], that
+ * turns hues by `degrees` while keeping luminance, as CSS `hue-rotate()`.
+ */
+export function hueRotateMatrix(degrees: number): number[] {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928, 0,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283, 0,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072, 0,
+  ];
+}
+
+/**
+ * Applies a 3×4 color matrix (offsets in 0–255) to RGBA data in place.
+ */
+export function applyMatrix(data: Uint8ClampedArray, m: number[]): void {
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    data[i] = m[0] * r + m[1] * g + m[2] * b + m[3];
+    data[i + 1] = m[4] * r + m[5] * g + m[6] * b + m[7];
+    data[i + 2] = m[8] * r + m[9] * g + m[10] * b + m[11];
+  }
+}
+
+/**
+ * New lightness (0–1) after lifting or lowering shadows and highlights, each
+ * -100–100. Black and white stay put and the curve never reverses.
+ */
+export function toneLightness(lightness: number, shadows: number, highlights: number): number {
+  const l = lightness;
+  const shadowWeight = 4 * l * (1 - l) ** 2; // Peaks in the darker third
+  const highlightWeight = 4 * l * l * (1 - l); // Peaks in the lighter third
+  return l + TONE_STRENGTH * ((shadows / 100) * shadowWeight + (highlights / 100) * highlightWeight);
+}
+
+/**
+ * Whether any adjustment changes the image.
+ */
+export function hasAdjustments(adjustments: Adjustments): boolean {
+  return adjustments.brightness !== 100 || adjustments.contrast !== 100 || adjustments.saturation !== 100
+    || adjustments.exposure !== 0 || adjustments.highlights !== 0 || adjustments.shadows !== 0
+    || adjustments.temperature !== 0 || adjustments.tint !== 0 || adjustments.vibrance !== 0
+    || adjustments.hue !== 0 || adjustments.sharpness !== 0;
+}
+
+/**
+ * Turns the user's brightness, contrast and saturation into multipliers.
+ */
+export function resolveAdjustments(adjustments: Adjustments): AdjustmentMultipliers {
+  return {
+    brightness: adjustments.brightness / 100,
+    contrast: adjustments.contrast / 100,
+    saturation: adjustments.saturation / 100,
+  };
+}
+
+/**
+ * Applies brightness, contrast and saturation multipliers to RGBA data in place.
+ */
+export function applyAdjustments(data: Uint8ClampedArray, multipliers: AdjustmentMultipliers): void {
+  const { brightness, contrast, saturation } = multipliers;
+  if (brightness === 1 && contrast === 1 && saturation === 1) return;
+
+  // Map the multiplier onto the classic -255..255 contrast scale (0 = unchanged)
+  const c = Math.min(254, (contrast - 1) * 255);
+  const factor = (259 * (c + 255)) / (255 * (259 - c));
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+
+    if (brightness !== 1) {
+      r *= brightness;
+      g *= brightness;
+      b *= brightness;
+    }
+
+    if (contrast !== 1) {
+      r = factor * (Math.min(255, r) - 128) + 128;
+      g = factor * (Math.min(255, g) - 128) + 128;
+      b = factor * (Math.min(255, b) - 128) + 128;
+    }
+
+    if (saturation !== 1) {
+      r = Math.min(255, Math.max(0, r));
+      g = Math.min(255, Math.max(0, g));
+      b = Math.min(255, Math.max(0, b));
+      const gray = 0.2989 * r + 0.5870 * g + 0.1140 * b; // Weighted grayscale conversion
+      r = gray + saturation * (r - gray);
+      g = gray + saturation * (g - gray);
+      b = gray + saturation * (b - gray);
+    }
+
+    // Uint8ClampedArray clamps and rounds on assignment
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+}
+
+/**
+ * Applies exposure, white balance, highlights/shadows, vibrance and hue to
+ * RGBA data in place, in that order. Alpha is left alone.
+ */
+export function applyColorAdjustments(data: Uint8ClampedArray, adjustments: Adjustments): void {
+  const { exposure, temperature, tint, highlights, shadows, vibrance, hue } = adjustments;
+
+  const exposureGain = 2 ** exposure;
+  const [gainR, gainG, gainB] = getWhiteBalanceGains(temperature, tint);
+  const linear = exposure !== 0 || temperature !== 0 || tint !== 0;
+  const tone = highlights !== 0 || shadows !== 0;
+  const v = Math.min(100, Math.max(-100, vibrance)) / 100;
+
+  if (linear || tone || v !== 0) {
+    for (let i = 0; i < data.length; i += 4) {
+      let r = data[i];
+      let g = data[i + 1];
+      let b = data[i + 2];
+
+      if (linear) {
+        r = linearToSrgb(TO_LINEAR[r] * exposureGain * gainR);
+        g = linearToSrgb(TO_LINEAR[g] * exposureGain * gainG);
+        b = linearToSrgb(TO_LINEAR[b] * exposureGain * gainB);
+      }
+
+      if (tone) {
+        // Scaling all channels together keeps the color while changing lightness
+        const lightness = (LUMA[0] * r + LUMA[1] * g + LUMA[2] * b) / 255;
+        if (lightness > 0) {
+          const scale = Math.max(0, toneLightness(lightness, shadows, highlights)) / lightness;
+          r *= scale;
+          g *= scale;
+          b *= scale;
+        }
+      }
+
+      if (v !== 0) {
+        // Muted colors gain the most, so saturated colors and skin don't go garish
+        r = Math.min(255, Math.max(0, r));
+        g = Math.min(255, Math.max(0, g));
+        b = Math.min(255, Math.max(0, b));
+        const max = Math.max(r, g, b);
+        const colorfulness = max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+        const factor = 1 + v * (1 - colorfulness);
+        const gray = LUMA[0] * r + LUMA[1] * g + LUMA[2] * b;
+        r = gray + factor * (r - gray);
+        g = gray + factor * (g - gray);
+        b = gray + factor * (b - gray);
+      }
+
+      // Uint8ClampedArray clamps and rounds on assignment
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+    }
+  }
+
+  if (hue !== 0) applyMatrix(data, hueRotateMatrix(hue));
+}
+
+/**
+ * Unsharp mask: adds back the difference from a small Gaussian blur, scaled
+ * by `sharpness` (0–100). Returns a new buffer; edges repeat their pixels.
+ */
+export function sharpenPixels(source: PixelBuffer, sharpness: number): PixelBuffer {
+  const amount = (Math.min(100, Math.max(0, sharpness)) / 100) * SHARPEN_STRENGTH;
+  const { width, height, data } = source;
+  const result = { data: new Uint8ClampedArray(data), width, height };
+  if (amount === 0) return result;
+
+  // 3×3 binomial kernel, separable as [1, 2, 1] / 4 in each direction
+  const horizontal = new Float32Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const left = (y * width + Math.max(0, x - 1)) * 4;
+      const center = (y * width + x) * 4;
+      const right = (y * width + Math.min(width - 1, x + 1)) * 4;
+      for (let c = 0; c < 3; c++) {
+        horizontal[(y * width + x) * 3 + c] = (data[left + c] + 2 * data[center + c] + data[right + c]) / 4;
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    const above = Math.max(0, y - 1) * width;
+    const below = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const blurred = (horizontal[(above + x) * 3 + c] + 2 * horizontal[(y * width + x) * 3 + c]
+          + horizontal[(below + x) * 3 + c]) / 4;
+        result.data[i + c] = data[i + c] + amount * (data[i + c] - blurred);
+      }
+    }
+  }
+  return result;
+}
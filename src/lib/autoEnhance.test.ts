@@ -0,0 +1,121 @@
+import { linearToSrgb, srgbToLinear } from './adjustments';
+import { autoContrast, autoLevels, autoWhiteBalance, getContrastForFactor, getPercentile } from './autoEnhance';
+import { DEFAULT_ADJUSTMENTS, adjustPixels, createPixelBuffer, type Adjustments } from './cropUtils';
+import { computeHistogram } from './histogram';
+
+// A row of grays, one pixel per value
+function grays(values: number[]) {
+  const pixels = createPixelBuffer(values.length, 1);
+  values.forEach((value, i) => pixels.data.set([value, value, value, 255], i * 4));
+  return pixels;
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+const applied = (values: number[], adjustments: Partial<Adjustments>) =>
+  Array.from(adjustPixels(grays(values), { ...DEFAULT_ADJUSTMENTS, ...adjustments }).data.filter((_, i) => i % 4 === 0));
+
+describe('getPercentile', () => {
+  it('finds the value below which a share of pixels lie', () => {
+    const { luminance, total } = computeHistogram(grays(range(0, 99)));
+    expect(getPercentile(luminance, total, 0)).toBe(0);
+    expect(getPercentile(luminance, total, 0.5)).toBe(49);
+    expect(getPercentile(luminance, total, 1)).toBe(99);
+  });
+});
+
+describe('getContrastForFactor', () => {
+  it('inverts the contrast mapping', () => {
+    expect(getContrastForFactor(1)).toBe(1);
+    // 150% contrast scales around mid-gray by 259 × 382.5 / (255 × 131.5)
+    expect(getContrastForFactor((259 * 382.5) / (255 * 131.5))).toBeCloseTo(1.5, 10);
+  });
+});
+
+describe('autoLevels', () => {
+  it('stretches the darkest and lightest tones to black and white', () => {
+    const values = range(40, 200);
+    const levels = autoLevels(computeHistogram(grays(values)), 0);
+    expect(levels).toEqual({ brightness: 106, contrast: 120 });
+
+    const result = applied(values, levels);
+    expect(result[0]).toBeLessThanOrEqual(2);
+    expect(result[result.length - 1]).toBeGreaterThanOrEqual(253);
+  });
+
+  it('leaves full-range and flat images alone', () => {
+    expect(autoLevels(computeHistogram(grays(range(0, 255))), 0)).toEqual({ brightness: 100, contrast: 100 });
+    expect(autoLevels(computeHistogram(grays([90, 90, 90])))).toEqual({ brightness: 100, contrast: 100 });
+  });
+
+  it('stretches narrow ranges only so far', () => {
+    const result = applied([120, 130], autoLevels(computeHistogram(grays(range(120, 130))), 0));
+    expect(result[1] - result[0]).toBeLessThan(60);
+  });
+
+  it('ignores the few pixels beyond the clip limit', () => {
+    const values = [...range(40, 200), 0, 255];
+    expect(autoLevels(computeHistogram(grays(values)), 0.01)).toEqual(autoLevels(computeHistogram(grays(range(40, 200))), 0));
+  });
+});
+
+describe('autoContrast', () => {
+  it('spreads tones around mid-gray until one end reaches black or white', () => {
+    const values = range(64, 192);
+    const { contrast } = autoContrast(computeHistogram(grays(values)), 0);
+    expect(contrast).toBe(133);
+
+    const [darkest, , ...rest] = applied([64, 128, ...values.slice(-1)], { contrast });
+    expect(darkest).toBeLessThanOrEqual(2);
+    expect(rest[0]).toBeGreaterThanOrEqual(253);
+    expect(applied([128], { contrast })).toEqual([128]);
+  });
+
+  it('lowers contrast when the tones already clip', () => {
+    const values = [...range(0, 127), ...range(129, 255)];
+    expect(autoContrast(computeHistogram(grays(values)), 0).contrast).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('autoWhiteBalance', () => {
+  // Grays lit by light with these linear gains
+  function tinted(gains: [number, number, number]) {
+    const pixels = createPixelBuffer(64, 1);
+    for (let x = 0; x < 64; x++) {
+      const value = srgbToLinear(40 + x * 3);
+      pixels.data.set([...gains.map(gain => linearToSrgb(value * gain)), 255], x * 4);
+    }
+    return pixels;
+  }
+
+  const average = (pixels: { data: Uint8ClampedArray }) => {
+    const sums = [0, 0, 0];
+    for (let i = 0; i < pixels.data.length; i += 4) for (let c = 0; c < 3; c++) sums[c] += srgbToLinear(pixels.data[i + c]);
+    return sums;
+  };
+
+  it('neutralizes a warm cast', () => {
+    const warm = tinted([1.15, 1, 0.85]);
+    const balance = autoWhiteBalance(warm);
+    expect(balance.temperature).toBeLessThan(0);
+
+    const [r, g, b] = average(adjustPixels(warm, { ...DEFAULT_ADJUSTMENTS, ...balance }));
+    expect(r / g).toBeCloseTo(1, 1);
+    expect(b / g).toBeCloseTo(1, 1);
+  });
+
+  it('neutralizes a green cast with tint', () => {
+    const green = tinted([0.95, 1.1, 0.95]);
+    const balance = autoWhiteBalance(green);
+    expect(balance.tint).toBeGreaterThan(0);
+
+    const [r, g, b] = average(adjustPixels(green, { ...DEFAULT_ADJUSTMENTS, ...balance }));
+    expect(r / g).toBeCloseTo(1, 1);
+    expect(b / g).toBeCloseTo(1, 1);
+  });
+
+  it('leaves neutral and unusable images alone', () => {
+    expect(autoWhiteBalance(tinted([1, 1, 1]))).toEqual({ temperature: 0, tint: 0 });
+    expect(autoWhiteBalance(grays([0, 255, 3]))).toEqual({ temperature: 0, tint: 0 });
+  });
+});
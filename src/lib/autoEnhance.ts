@@ -0,0 +1,102 @@
+import { getWhiteBalanceForGains, srgbToLinear } from './adjustments';
+import type { Adjustments, PixelBuffer } from './cropUtils';
+import type { Histogram } from './histogram';
+
+/**
+ * One-click enhancements. Each measures the image and returns slider values
+ * that do the job, so the result can be fine-tuned like any other edit.
+ * Brightness and contrast come out as whole percents within the sliders'
+ * 0–200% range.
+ */
+
+// Share of pixels allowed to clip at each end, so a few specks don't decide the stretch
+export const AUTO_CLIP = 0.005;
+// Narrowest tonal range that is stretched to full, so flat images aren't blown into noise
+const MIN_LEVELS_RANGE = 64;
+const MAX_PERCENT = 200;
+// Pixels this dark or with a clipped channel don't tell the color of the light
+const MIN_WHITE_BALANCE_VALUE = 8;
+
+const toPercent = (multiplier: number) => Math.round(Math.min(MAX_PERCENT, Math.max(0, multiplier * 100)));
+
+/**
+ * Lowest value (0–255) at or below which `fraction` of the counted pixels
+ * lie; 0 gives the darkest value present and 1 the lightest.
+ */
+export function getPercentile(counts: Uint32Array, total: number, fraction: number): number {
+  const target = total * fraction;
+  let seen = 0;
+  for (let value = 0; value < counts.length; value++) {
+    seen += counts[value];
+    if (counts[value] > 0 && seen >= target) return value;
+  }
+  return counts.length - 1;
+}
+
+/**
+ * Contrast multiplier that scales values around mid-gray by `factor`; the
+ * inverse of the mapping in `applyAdjustments`.
+ */
+export function getContrastForFactor(factor: number): number {
+  const c = (259 * 255 * (factor - 1)) / (259 + 255 * factor);
+  return 1 + c / 255;
+}
+
+/**
+ * Brightness and contrast that stretch the luminance so its darkest and
+ * lightest tones, less `clip` at each end, reach black and white.
+ */
+export function autoLevels(histogram: Histogram, clip = AUTO_CLIP): Pick<Adjustments, 'brightness' | 'contrast'> {
+  const unchanged = { brightness: 100, contrast: 100 };
+  if (histogram.total === 0) return unchanged;
+
+  const low = getPercentile(histogram.luminance, histogram.total, clip);
+  const high = getPercentile(histogram.luminance, histogram.total, 1 - clip);
+  if (high <= low) return unchanged;
+
+  // Brightness multiplies by b, then contrast maps v to f * (v - 128) + 128,
+  // so f * b = scale and 128 * (1 - f) = -scale * low give the stretch
+  const scale = 255 / Math.max(high - low, MIN_LEVELS_RANGE);
+  const factor = 1 + (scale * low) / 128;
+  return { brightness: toPercent(scale / factor), contrast: toPercent(getContrastForFactor(factor)) };
+}
+
+/**
+ * Contrast that spreads the tones around mid-gray until the darker or the
+ * lighter end, less `clip`, reaches black or white. Mid-gray stays put, so
+ * brightness doesn't change.
+ */
+export function autoContrast(histogram: Histogram, clip = AUTO_CLIP): Pick<Adjustments, 'contrast'> {
+  if (histogram.total === 0) return { contrast: 100 };
+
+  const low = getPercentile(histogram.luminance, histogram.total, clip);
+  const high = getPercentile(histogram.luminance, histogram.total, 1 - clip);
+  const limits = [low < 128 ? 128 / (128 - low) : Infinity, high > 128 ? 127 / (high - 128) : Infinity];
+  const factor = Math.min(...limits);
+  if (!Number.isFinite(factor)) return { contrast: 100 };
+  return { contrast: toPercent(getContrastForFactor(factor)) };
+}
+
+/**
+ * Gray-world white balance: the temperature and tint that make the average
+ * color of the image neutral, measured in linear light.
+ */
+export function autoWhiteBalance(pixels: PixelBuffer): Pick<Adjustments, 'temperature' | 'tint'> {
+  const sums = [0, 0, 0];
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    if (Math.max(r, g, b) < MIN_WHITE_BALANCE_VALUE || r === 255 || g === 255 || b === 255) continue;
+    sums[0] += srgbToLinear(r);
+    sums[1] += srgbToLinear(g);
+    sums[2] += srgbToLinear(b);
+  }
+  if (sums.some(sum => sum === 0)) return { temperature: 0, tint: 0 };
+
+  const { temperature, tint } = getWhiteBalanceForGains(1 / sums[0], 1 / sums[1], 1 / sums[2]);
+  const limit = (value: number) => Math.round(Math.min(100, Math.max(-100, value)));
+  return { temperature: limit(temperature), tint: limit(tint) };
+}
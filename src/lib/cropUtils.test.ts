@@ -0,0 +1,370 @@
+import {
+  DEFAULT_ADJUSTMENTS,
+  DEFAULT_CROP_TRANSFORM,
+  constrainPixelCrop,
+  getOutputSize,
+  getRotatedFrame,
+  getUpscaleFactor,
+  parseCropOutput,
+  parseCropTransform,
+  reframeCrop,
+  renderCrop,
+  resolvePixelCrop,
+  toCropOperations,
+  toPixelRegion,
+  type PixelBuffer,
+} from './cropUtils';
+
+type RGBA = [number, number, number, number];
+
+const RED: RGBA = [255, 0, 0, 255];
+const GREEN: RGBA = [0, 255, 0, 255];
+const BLUE: RGBA = [0, 0, 255, 255];
+const WHITE: RGBA = [255, 255, 255, 255];
+
+// Builds a buffer from rows of RGBA pixels
+function image(rows: RGBA[][]): PixelBuffer {
+  const height = rows.length;
+  const width = rows[0].length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  rows.forEach((row, y) => row.forEach((pixel, x) => data.set(pixel, (y * width + x) * 4)));
+  return { data, width, height };
+}
+
+function pixelAt(buffer: PixelBuffer, x: number, y: number): number[] {
+  const i = (y * buffer.width + x) * 4;
+  return Array.from(buffer.data.slice(i, i + 4));
+}
+
+// 2×2 quadrants: red | green / blue | white
+const quadrants = () => image([
+  [RED, GREEN],
+  [BLUE, WHITE],
+]);
+
+describe('renderCrop', () => {
+  describe('crop', () => {
+    it('extracts a pixel region', () => {
+      const result = renderCrop(quadrants(), [
+        { type: 'crop', region: { unit: 'px', x: 1, y: 0, width: 1, height: 2 } },
+      ]);
+      expect(result.width).toBe(1);
+      expect(result.height).toBe(2);
+      expect(pixelAt(result, 0, 0)).toEqual(GREEN);
+      expect(pixelAt(result, 0, 1)).toEqual(WHITE);
+    });
+
+    it('extracts a percent region relative to the natural size', () => {
+      const result = renderCrop(quadrants(), [
+        { type: 'crop', region: { unit: '%', x: 0, y: 50, width: 50, height: 50 } },
+      ]);
+      expect(result.width).toBe(1);
+      expect(pixelAt(result, 0, 0)).toEqual(BLUE);
+    });
+
+    it('divides pixel crops by the zoom factor', () => {
+      const result = renderCrop(quadrants(), [
+        { type: 'crop', region: { unit: 'px', x: 2, y: 2, width: 2, height: 2 }, zoom: 2 },
+      ]);
+      expect(result.width).toBe(1);
+      expect(pixelAt(result, 0, 0)).toEqual(WHITE);
+    });
+
+    it('resamples to the output scale', () => {
+      const result = renderCrop(quadrants(), [], { scale: 2 });
+      expect(result.width).toBe(4);
+      expect(result.height).toBe(4);
+      expect(pixelAt(result, 0, 0)).toEqual(RED);
+      expect(pixelAt(result, 3, 3)).toEqual(WHITE);
+    });
+
+    it('resamples to an exact output size', () => {
+      const result = renderCrop(quadrants(), [], { scale: 1, width: 6, height: 3 });
+      expect(result.width).toBe(6);
+      expect(result.height).toBe(3);
+      expect(pixelAt(result, 0, 0)).toEqual(RED);
+      expect(pixelAt(result, 5, 2)).toEqual(WHITE);
+    });
+
+    it('does not modify the source', () => {
+      const source = quadrants();
+      const before = Array.from(source.data);
+      renderCrop(source, toCropOperations({
+        ...DEFAULT_CROP_TRANSFORM,
+        rotation: 90,
+        flipHorizontal: true,
+        adjustments: { ...DEFAULT_ADJUSTMENTS, brightness: 50 },
+      }));
+      expect(Array.from(source.data)).toEqual(before);
+    });
+  });
+
+  describe('flip', () => {
+    it('measures the crop against the flipped image', () => {
+      const result = renderCrop(quadrants(), [
+        { type: 'flip', horizontal: true, vertical: false },
+        { type: 'crop', region: { unit: 'px', x: 0, y: 0, width: 1, height: 1 } },
+      ]);
+      expect(pixelAt(result, 0, 0)).toEqual(GREEN);
+    });
+
+    it('mirrors horizontally', () => {
+      const result = renderCrop(quadrants(), [{ type: 'flip', horizontal: true, vertical: false }]);
+      expect(pixelAt(result, 0, 0)).toEqual(GREEN);
+      expect(pixelAt(result, 1, 1)).toEqual(BLUE);
+    });
+
+    it('mirrors vertically', () => {
+      const result = renderCrop(quadrants(), [{ type: 'flip', horizontal: false, vertical: true }]);
+      expect(pixelAt(result, 0, 0)).toEqual(BLUE);
+      expect(pixelAt(result, 1, 0)).toEqual(WHITE);
+    });
+  });
+
+  describe('rotate', () => {
+    it('rotates clockwise around the center', () => {
+      const result = renderCrop(quadrants(), [{ type: 'rotate', degrees: 90 }]);
+      expect(pixelAt(result, 0, 0)).toEqual(BLUE);
+      expect(pixelAt(result, 1, 0)).toEqual(RED);
+      expect(pixelAt(result, 1, 1)).toEqual(GREEN);
+    });
+
+    it('swaps the frame dimensions for quarter turns', () => {
+      const wide = image([[RED, GREEN, BLUE, WHITE]]);
+      const result = renderCrop(wide, [{ type: 'rotate', degrees: 90 }]);
+      expect([result.width, result.height]).toEqual([1, 4]);
+      expect(pixelAt(result, 0, 0)).toEqual(RED);
+      expect(pixelAt(result, 0, 3)).toEqual(WHITE);
+    });
+
+    it('expands the frame to fit the rotated image with transparent corners', () => {
+      const square = image(Array.from({ length: 10 }, () => Array.from({ length: 10 }, () => RED)));
+      const result = renderCrop(square, [{ type: 'rotate', degrees: 45 }]);
+      expect([result.width, result.height]).toEqual([14, 14]);
+      expect(pixelAt(result, 0, 0)[3]).toBe(0);
+      expect(pixelAt(result, 7, 7)).toEqual(RED);
+    });
+
+    it('fills the corners with the background color', () => {
+      const square = image(Array.from({ length: 10 }, () => Array.from({ length: 10 }, () => RED)));
+      const result = renderCrop(square, [{ type: 'rotate', degrees: 45, mode: 'fill', background: '#00f' }]);
+      expect(pixelAt(result, 0, 0)).toEqual(BLUE);
+      expect(pixelAt(result, 7, 7)).toEqual(RED);
+    });
+
+    it('shrinks the frame to the largest rectangle without corners', () => {
+      const square = image(Array.from({ length: 10 }, () => Array.from({ length: 10 }, () => RED)));
+      const result = renderCrop(square, [{ type: 'rotate', degrees: 45, mode: 'inscribe' }]);
+      expect([result.width, result.height]).toEqual([7, 7]);
+      expect(Array.from(result.data).filter((_, i) => i % 4 === 3).every(alpha => alpha === 255)).toBe(true);
+    });
+
+    it('measures the crop against the rotated frame', () => {
+      const result = renderCrop(quadrants(), [
+        { type: 'rotate', degrees: 90 },
+        { type: 'crop', region: { unit: 'px', x: 0, y: 0, width: 1, height: 1 } },
+      ]);
+      expect(result.width).toBe(1);
+      expect(pixelAt(result, 0, 0)).toEqual(BLUE);
+    });
+
+    it('rotates before flipping', () => {
+      const result = renderCrop(quadrants(), [
+        { type: 'rotate', degrees: 90 },
+        { type: 'flip', horizontal: true, vertical: false },
+      ]);
+      expect(pixelAt(result, 0, 0)).toEqual(RED);
+      expect(pixelAt(result, 1, 0)).toEqual(BLUE);
+    });
+  });
+
+  describe('adjust', () => {
+    const gray = () => image([[[100, 100, 100, 255]]]);
+    const adjust = (brightness: number, contrast: number, saturation: number, filter?: string) =>
+      pixelAt(renderCrop(gray(), [{ type: 'adjust', adjustments: { ...DEFAULT_ADJUSTMENTS, brightness, contrast, saturation }, filter }]), 0, 0);
+
+    it('leaves pixels unchanged at 100%', () => {
+      expect(adjust(100, 100, 100)).toEqual([100, 100, 100, 255]);
+    });
+
+    it('scales brightness', () => {
+      expect(adjust(150, 100, 100)).toEqual([150, 150, 150, 255]);
+      expect(adjust(300, 100, 100)).toEqual([255, 255, 255, 255]);
+    });
+
+    it('pushes values away from mid-gray with contrast', () => {
+      expect(adjust(100, 0, 100)).toEqual([128, 128, 128, 255]);
+      expect(adjust(100, 150, 100)[0]).toBeLessThan(100);
+    });
+
+    it('desaturates towards the weighted gray value', () => {
+      const result = renderCrop(image([[RED]]), [
+        { type: 'adjust', adjustments: { ...DEFAULT_ADJUSTMENTS, saturation: 0 } },
+      ]);
+      expect(pixelAt(result, 0, 0)).toEqual([76, 76, 76, 255]);
+    });
+
+    it('applies the filter after the adjustments', () => {
+      // Moon is fully desaturated
+      const [r, g, b] = pixelAt(renderCrop(image([[RED]]), [
+        { type: 'adjust', adjustments: DEFAULT_ADJUSTMENTS, filter: 'moon' },
+      ]), 0, 0);
+      expect(r).toBe(g);
+      expect(g).toBe(b);
+    });
+
+    it('blends the filter by its intensity', () => {
+      const moon = (filterIntensity: number) => pixelAt(renderCrop(image([[RED]]), [
+        { type: 'adjust', adjustments: DEFAULT_ADJUSTMENTS, filter: 'moon', filterIntensity },
+      ]), 0, 0);
+      const full = moon(100);
+      expect(moon(0)).toEqual(RED);
+      moon(50).forEach((value, c) => expect(Math.abs(value - (RED[c] + full[c]) / 2)).toBeLessThanOrEqual(1));
+    });
+
+    it('treats adjustments missing from older transforms as unchanged', () => {
+      const legacy = { brightness: 100, contrast: 100, saturation: 100 } as typeof DEFAULT_ADJUSTMENTS;
+      expect(pixelAt(renderCrop(gray(), [{ type: 'adjust', adjustments: legacy }]), 0, 0)).toEqual([100, 100, 100, 255]);
+      const brighter = { ...legacy, brightness: 150 };
+      expect(pixelAt(renderCrop(gray(), [{ type: 'adjust', adjustments: brighter }]), 0, 0)).toEqual([150, 150, 150, 255]);
+    });
+
+    it('applies exposure before brightness', () => {
+      // +1 EV takes 100 to 138 and halving that gives 69; halving first would give 71
+      const result = renderCrop(gray(), [
+        { type: 'adjust', adjustments: { ...DEFAULT_ADJUSTMENTS, exposure: 1, brightness: 50 } },
+      ]);
+      expect(pixelAt(result, 0, 0)).toEqual([69, 69, 69, 255]);
+    });
+  });
+});
+
+describe('getRotatedFrame', () => {
+  it('keeps or swaps the size for quarter turns', () => {
+    expect(getRotatedFrame(40, 30, 0)).toEqual({ width: 40, height: 30 });
+    expect(getRotatedFrame(40, 30, -90, 'inscribe')).toEqual({ width: 30, height: 40 });
+    expect(getRotatedFrame(40, 30, 180)).toEqual({ width: 40, height: 30 });
+  });
+
+  it('bounds the rotated image when expanding', () => {
+    expect(getRotatedFrame(100, 100, 45)).toEqual({ width: 141, height: 141 });
+  });
+
+  it('fits inside the rotated image when inscribing', () => {
+    // A small tilt only trims a little off a landscape image
+    const { width, height } = getRotatedFrame(400, 300, 2, 'inscribe');
+    expect(width).toBeLessThan(400);
+    expect(width).toBeGreaterThan(370);
+    expect(height).toBeLessThan(300);
+    expect(height).toBeGreaterThan(270);
+    // Thin images are constrained by their short side
+    expect(getRotatedFrame(1000, 10, 45, 'inscribe')).toEqual({ width: 7, height: 7 });
+  });
+});
+
+describe('reframeCrop', () => {
+  it('keeps the crop size and its offset from the center', () => {
+    const crop = reframeCrop({ unit: 'px', x: 10, y: 10, width: 20, height: 10 }, { width: 100, height: 50 }, { width: 120, height: 70 });
+    expect(crop).toEqual({ unit: 'px', x: 20, y: 20, width: 20, height: 10 });
+  });
+
+  it('shrinks crops that no longer fit, keeping their aspect ratio', () => {
+    const crop = reframeCrop({ unit: '%', x: 0, y: 0, width: 100, height: 50 }, { width: 100, height: 100 }, { width: 50, height: 50 });
+    expect(crop).toEqual({ unit: '%', x: 0, y: 0, width: 100, height: 50 });
+  });
+
+  it('keeps full-frame crops', () => {
+    const full = { unit: '%' as const, x: 0, y: 0, width: 100, height: 100 };
+    expect(reframeCrop(full, { width: 100, height: 50 }, { width: 120, height: 70 })).toBe(full);
+  });
+});
+
+describe('numeric crops', () => {
+  const bounds = { width: 1000, height: 800 };
+
+  it('round-trips source pixels through a zoomed region', () => {
+    const crop = { x: 12, y: 34, width: 333, height: 101 };
+    for (const zoom of [0.7, 1, 1.1, 2.3]) {
+      expect(resolvePixelCrop(toPixelRegion(crop, zoom), zoom, 1000, 800)).toEqual({
+        x: expect.closeTo(12), y: expect.closeTo(34), width: 333, height: 101,
+      });
+    }
+  });
+
+  it('keeps crops whole and inside the bounds', () => {
+    expect(constrainPixelCrop({ x: 900.4, y: -5, width: 200.6, height: 0 }, bounds))
+      .toEqual({ x: 799, y: 0, width: 201, height: 1 });
+    expect(constrainPixelCrop({ x: 0, y: 0, width: 5000, height: 5000 }, bounds))
+      .toEqual({ x: 0, y: 0, width: 1000, height: 800 });
+  });
+
+  it('lets the edited side lead when the aspect ratio is locked', () => {
+    expect(constrainPixelCrop({ x: 0, y: 0, width: 400, height: 10 }, bounds, { aspect: 2 }))
+      .toEqual({ x: 0, y: 0, width: 400, height: 200 });
+    expect(constrainPixelCrop({ x: 0, y: 0, width: 10, height: 300 }, bounds, { aspect: 2, changed: 'height' }))
+      .toEqual({ x: 0, y: 0, width: 600, height: 300 });
+    // Too tall for the bounds: both sides shrink
+    expect(constrainPixelCrop({ x: 50, y: 50, width: 10, height: 700 }, bounds, { aspect: 2, changed: 'height' }))
+      .toEqual({ x: 0, y: 50, width: 1000, height: 500 });
+  });
+});
+
+describe('parseCropTransform', () => {
+  it('fills in defaults', () => {
+    expect(parseCropTransform({})).toEqual(DEFAULT_CROP_TRANSFORM);
+  });
+
+  it('fills in adjustments missing from older transforms', () => {
+    expect(parseCropTransform({ adjustments: { brightness: 120, exposure: 0.5 } }).adjustments)
+      .toEqual({ ...DEFAULT_ADJUSTMENTS, brightness: 120, exposure: 0.5 });
+  });
+
+  it('rejects invalid fields', () => {
+    expect(() => parseCropTransform({ rotation: '90' })).toThrow('"rotation" must be a finite number');
+    expect(() => parseCropTransform({ crop: { unit: 'em', width: 1, height: 1 } })).toThrow('"crop.unit"');
+    expect(() => parseCropTransform({ crop: { x: 0, y: 0 } })).toThrow('must be positive');
+    expect(() => parseCropTransform({ rotationMode: 'spin' })).toThrow('"rotationMode" must be one of');
+    expect(() => parseCropTransform({ background: 'red' })).toThrow('"background" must be a hex color');
+    expect(() => parseCropTransform({ filterIntensity: 120 })).toThrow('"filterIntensity" must be within 0–100');
+    expect(() => parseCropTransform({ adjustments: { exposure: 1e6 } })).toThrow('"exposure" must be within -3–3');
+    expect(() => parseCropTransform({ adjustments: { sharpness: -5 } })).toThrow('"sharpness" must be within 0–100');
+    expect(() => parseCropTransform({ adjustments: { hue: 270 } })).toThrow('"hue" must be within -180–180');
+    expect(() => parseCropTransform({ adjustments: { brightness: 250 } })).toThrow('"brightness" must be within 0–200');
+    expect(() => parseCropTransform({ adjustments: { contrast: -1 } })).toThrow('"contrast" must be within 0–200');
+    expect(() => parseCropTransform({ adjustments: { saturation: 1e6 } })).toThrow('"saturation" must be within 0–200');
+  });
+});
+
+describe('getOutputSize', () => {
+  const crop = { width: 300, height: 200 };
+
+  it('scales the crop without an explicit size', () => {
+    expect(getOutputSize(crop, { scale: 0.5 })).toEqual({ width: 150, height: 100 });
+  });
+
+  it('uses the explicit size, filling in a missing side from the crop aspect ratio', () => {
+    expect(getOutputSize(crop, { scale: 2, width: 1080, height: 1920 })).toEqual({ width: 1080, height: 1920 });
+    expect(getOutputSize(crop, { scale: 1, width: 90 })).toEqual({ width: 90, height: 60 });
+    expect(getOutputSize(crop, { scale: 1, height: 50 })).toEqual({ width: 75, height: 50 });
+  });
+});
+
+describe('getUpscaleFactor', () => {
+  it('reports the most enlarged axis', () => {
+    expect(getUpscaleFactor({ width: 540, height: 900 }, { width: 1080, height: 1920 })).toBeCloseTo(2.13, 2);
+    expect(getUpscaleFactor({ width: 2000, height: 2000 }, { width: 1000, height: 1000 })).toBe(0.5);
+  });
+});
+
+describe('parseCropOutput', () => {
+  it('accepts an exact size', () => {
+    expect(parseCropOutput({ format: 'png', width: 1080 })).toEqual({ format: 'png', quality: 0.92, scale: 1, width: 1080 });
+  });
+
+  it('rejects invalid sizes', () => {
+    expect(() => parseCropOutput({ width: 0 })).toThrow('"width" must be a positive integer');
+    expect(() => parseCropOutput({ height: 10.5 })).toThrow('"height" must be a positive integer');
+    expect(() => parseCropOutput({ width: 100000, height: 100000 })).toThrow('"width" must be a positive integer up to 16383');
+    expect(() => parseCropOutput({ dpi: -300 })).toThrow('"dpi" must be positive');
+  });
+});
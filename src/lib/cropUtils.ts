@@ -1,4 +1,7 @@
-const createImage = (url: string): Promise<HTMLImageElement> =>
+import { applyAdjustments, applyColorAdjustments, hasAdjustments, resolveAdjustments, sharpenPixels } from './adjustments';
+import { applyFilter, getFilter, type FilterDefinition } from './filters';
+
+export const createImage = (url: string): Promise<HTMLImageElement> =>
   new Promise((resolve, reject) => {
     const image = new Image();
     image.addEventListener('load', () => resolve(image));
@@ -6,33 +9,949 @@ const createImage = (url: string): Promise<HTMLImageElement> =>
     image.src = url;
   });
 
+export const readFileAsDataURL = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.addEventListener('load', () => resolve(reader.result?.toString() || ''));
+    reader.addEventListener('error', () => reject(reader.error));
+    reader.readAsDataURL(file);
+  });
+
 export async function getCroppedImg(
   imageSrc: string,
   pixelCrop: { x: number; y: number; width: number; height: number },
   format: 'jpeg' | 'png' | 'webp' = 'jpeg'
 ): Promise<string> {
   const image = await createImage(imageSrc);
+  const pixels = renderCrop(image, [{ type: 'crop', region: { unit: 'px', ...pixelCrop } }]);
+  return pixelsToCanvas(pixels).toDataURL(`image/${format}`);
+}
+
+export type OutputFormat = 'jpeg' | 'png' | 'webp';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['jpeg', 'png', 'webp'];
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = { jpeg: 'JPEG', png: 'PNG', webp: 'WebP' };
+
+/**
+ * Tonal and color adjustments. Brightness, contrast and saturation are in
+ * percent, 100 being unchanged; the rest are 0 when unchanged.
+ */
+export interface Adjustments {
+  /** 0–200 */
+  brightness: number;
+  /** 0–200 */
+  contrast: number;
+  /** 0–200 */
+  saturation: number;
+  /** -3–3 stops (EV), each doubling or halving the light */
+  exposure: number;
+  /** -100–100, darkening or brightening the lightest tones */
+  highlights: number;
+  /** -100–100, darkening or lifting the darkest tones */
+  shadows: number;
+  /** -100–100, cooler (blue) to warmer (amber) */
+  temperature: number;
+  /** -100–100, green to magenta */
+  tint: number;
+  /** -100–100, saturation that favors muted colors */
+  vibrance: number;
+  /** -180–180 degrees around the color wheel */
+  hue: number;
+  /** 0–100 */
+  sharpness: number;
+}
+
+// Ranges of the adjustments, as documented above
+const ADJUSTMENT_RANGES: Record<keyof Adjustments, [number, number]> = {
+  brightness: [0, 200],
+  contrast: [0, 200],
+  saturation: [0, 200],
+  exposure: [-3, 3],
+  highlights: [-100, 100],
+  shadows: [-100, 100],
+  temperature: [-100, 100],
+  tint: [-100, 100],
+  vibrance: [-100, 100],
+  hue: [-180, 180],
+  sharpness: [0, 100],
+};
+
+/**
+ * Brightness, contrast and saturation as multipliers, 1 meaning unchanged.
+ */
+export type AdjustmentMultipliers = Pick<Adjustments, 'brightness' | 'contrast' | 'saturation'>;
+
+/**
+ * Crop rectangle measured against the rotated image's frame (the natural size
+ * when there is no rotation), either in pixels or in percent of its width/height.
+ */
+export interface CropRegion {
+  unit: 'px' | '%';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * DOM-free description of everything the cropper does to an image.
+ * It is plain JSON so the same edit can be rendered in the browser or by the
+ * `/api/crop` route.
+ */
+export interface CropTransform {
+  crop: CropRegion;
+  rotation: number;
+  rotationMode: RotationMode;
+  /** Hex color for the corners uncovered by rotation in `fill` mode */
+  background: string;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  zoom: number;
+  adjustments: Adjustments;
+  filter: string | null;
+  /** How strongly the filter applies, in percent */
+  filterIntensity: number;
+}
+
+/**
+ * How a rotated image is framed: `expand` grows the frame to fit the whole
+ * image with transparent corners, `fill` does the same with a background
+ * color, and `inscribe` shrinks it to the largest rectangle without corners.
+ */
+export type RotationMode = 'expand' | 'inscribe' | 'fill';
+
+export const ROTATION_MODES: RotationMode[] = ['expand', 'inscribe', 'fill'];
+
+export interface CropOutput {
+  format: OutputFormat;
+  quality: number;
+  scale: number;
+  /**
+   * Exact output size in pixels, overriding `scale`. With only one side set the
+   * other follows the crop's aspect ratio.
+   */
+  width?: number;
+  height?: number;
+  /** Print resolution recorded in JPEG and PNG files; doesn't change the pixels */
+  dpi?: number;
+}
+
+/**
+ * The parts of `CropOutput` that decide the rendered size.
+ */
+export type OutputSize = Pick<CropOutput, 'scale' | 'width' | 'height'>;
+
+/**
+ * Minimal RGBA pixel buffer. `ImageData` satisfies this shape, but it can also
+ * be built from decoded bytes where no DOM is available.
+ */
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface PixelCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_ADJUSTMENTS: Adjustments = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  exposure: 0,
+  highlights: 0,
+  shadows: 0,
+  temperature: 0,
+  tint: 0,
+  vibrance: 0,
+  hue: 0,
+  sharpness: 0,
+};
+
+export const DEFAULT_CROP_TRANSFORM: CropTransform = {
+  crop: { unit: '%', x: 0, y: 0, width: 100, height: 100 },
+  rotation: 0,
+  rotationMode: 'expand',
+  background: '#ffffff',
+  flipHorizontal: false,
+  flipVertical: false,
+  zoom: 1,
+  adjustments: DEFAULT_ADJUSTMENTS,
+  filter: null,
+  filterIntensity: 100,
+};
+
+export const DEFAULT_CROP_OUTPUT: CropOutput = { format: 'jpeg', quality: 0.92, scale: 1 };
+
+// Render limits, so a request can't ask for more memory than a server has
+export const MAX_OUTPUT_SCALE = 10;
+// The largest side WebP can encode
+export const MAX_OUTPUT_SIDE = 16383;
+// 50 megapixels is 200MB of RGBA
+export const MAX_OUTPUT_PIXELS = 50_000_000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readNumber(source: Record<string, unknown>, key: string, fallback: number): number {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`"${key}" must be a finite number`);
+  }
+  return value;
+}
+
+function readBoolean(source: Record<string, unknown>, key: string, fallback: boolean): boolean {
+  const value = source[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'boolean') {
+    throw new Error(`"${key}" must be a boolean`);
+  }
+  return value;
+}
+
+/**
+ * Parses `#rgb`, `#rrggbb` or `#rrggbbaa` into RGBA components.
+ */
+export function parseHexColor(color: string): [number, number, number, number] | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(color);
+  if (!match) return null;
+
+  let hex = match[1];
+  if (hex.length === 3) hex = hex.replace(/./g, char => char + char);
+  if (hex.length === 6) hex += 'ff';
+  return [0, 2, 4, 6].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number, number];
+}
+
+/**
+ * Validates untrusted JSON (e.g. a request body) and fills in defaults.
+ * Throws an `Error` describing the first invalid field.
+ */
+export function parseCropTransform(input: unknown): CropTransform {
+  if (!isRecord(input)) throw new Error('Transform must be an object');
+
+  let crop = DEFAULT_CROP_TRANSFORM.crop;
+  if (input.crop !== undefined) {
+    if (!isRecord(input.crop)) throw new Error('"crop" must be an object');
+    const unit = input.crop.unit ?? 'px';
+    if (unit !== 'px' && unit !== '%') throw new Error('"crop.unit" must be "px" or "%"');
+    crop = {
+      unit,
+      x: readNumber(input.crop, 'x', 0),
+      y: readNumber(input.crop, 'y', 0),
+      width: readNumber(input.crop, 'width', NaN),
+      height: readNumber(input.crop, 'height', NaN),
+    };
+    if (!(crop.width > 0) || !(crop.height > 0)) {
+      throw new Error('"crop.width" and "crop.height" must be positive');
+    }
+  }
+
+  let adjustments = DEFAULT_ADJUSTMENTS;
+  if (input.adjustments !== undefined) {
+    if (!isRecord(input.adjustments)) throw new Error('"adjustments" must be an object');
+    const parsed = { ...DEFAULT_ADJUSTMENTS };
+    for (const [key, [min, max]] of Object.entries(ADJUSTMENT_RANGES) as [keyof Adjustments, [number, number]][]) {
+      const value = readNumber(input.adjustments, key, DEFAULT_ADJUSTMENTS[key]);
+      if (value < min || value > max) throw new Error(`"${key}" must be within ${min}–${max}`);
+      parsed[key] = value;
+    }
+    adjustments = parsed;
+  }
+
+  const rotationMode = input.rotationMode ?? DEFAULT_CROP_TRANSFORM.rotationMode;
+  if (!ROTATION_MODES.includes(rotationMode as RotationMode)) {
+    throw new Error(`"rotationMode" must be one of ${ROTATION_MODES.join(', ')}`);
+  }
+  const background = input.background ?? DEFAULT_CROP_TRANSFORM.background;
+  if (typeof background !== 'string' || !parseHexColor(background)) {
+    throw new Error('"background" must be a hex color');
+  }
+
+  const filter = input.filter ?? null;
+  if (filter !== null && typeof filter !== 'string') throw new Error('"filter" must be a string');
+
+  const filterIntensity = readNumber(input, 'filterIntensity', 100);
+  if (filterIntensity < 0 || filterIntensity > 100) throw new Error('"filterIntensity" must be within 0–100');
+
+  const zoom = readNumber(input, 'zoom', 1);
+  if (zoom <= 0) throw new Error('"zoom" must be positive');
+
+  return {
+    crop,
+    rotation: readNumber(input, 'rotation', 0),
+    rotationMode: rotationMode as RotationMode,
+    background,
+    flipHorizontal: readBoolean(input, 'flipHorizontal', false),
+    flipVertical: readBoolean(input, 'flipVertical', false),
+    zoom,
+    adjustments,
+    filter,
+    filterIntensity,
+  };
+}
+
+/**
+ * Validates the output part of a render request.
+ */
+export function parseCropOutput(input: unknown): CropOutput {
+  if (input === undefined) return DEFAULT_CROP_OUTPUT;
+  if (!isRecord(input)) throw new Error('Output must be an object');
+
+  const format = input.format ?? DEFAULT_CROP_OUTPUT.format;
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new Error(`"format" must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  const quality = readNumber(input, 'quality', DEFAULT_CROP_OUTPUT.quality);
+  if (quality <= 0 || quality > 1) throw new Error('"quality" must be in (0, 1]');
+  const scale = readNumber(input, 'scale', DEFAULT_CROP_OUTPUT.scale);
+  if (scale <= 0 || scale > MAX_OUTPUT_SCALE) throw new Error(`"scale" must be positive and at most ${MAX_OUTPUT_SCALE}`);
+
+  const output: CropOutput = { format: format as OutputFormat, quality, scale };
+  for (const key of ['width', 'height'] as const) {
+    if (input[key] === undefined) continue;
+    const value = readNumber(input, key, 0);
+    if (!Number.isInteger(value) || value <= 0 || value > MAX_OUTPUT_SIDE) {
+      throw new Error(`"${key}" must be a positive integer up to ${MAX_OUTPUT_SIDE}`);
+    }
+    output[key] = value;
+  }
+  if (input.dpi !== undefined) {
+    const dpi = readNumber(input, 'dpi', 0);
+    if (dpi <= 0) throw new Error('"dpi" must be positive');
+    output.dpi = dpi;
+  }
+  return output;
+}
+
+/**
+ * A single step of the crop pipeline. `renderCrop` applies these in order.
+ */
+export type CropOperation =
+  | { type: 'crop'; region: CropRegion; zoom?: number }
+  | { type: 'rotate'; degrees: number; mode?: RotationMode; background?: string }
+  | { type: 'flip'; horizontal: boolean; vertical: boolean }
+  | {
+    type: 'adjust';
+    adjustments: Adjustments;
+    filter?: string | null;
+    filterIntensity?: number;
+    /** The user's own filters `filter` may name, e.g. imported LUTs */
+    customFilters?: FilterDefinition[];
+  };
+
+/**
+ * Anything `renderCrop` can read pixels from. Drawable sources are rasterized
+ * through an `OffscreenCanvas` (or a DOM canvas where that is unavailable).
+ */
+export type CropSource =
+  | PixelBuffer
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | OffscreenCanvas
+  | ImageBitmap;
+
+/**
+ * Expands a transform into pipeline steps. The image is rotated and flipped
+ * before it is cropped, so the crop is drawn on the image as the editor shows it.
+ *
+ * @param customFilters - The user's own filters, for a `filter` that names one
+ */
+export function toCropOperations(transform: CropTransform, customFilters?: FilterDefinition[]): CropOperation[] {
+  return [
+    { type: 'rotate', degrees: transform.rotation, mode: transform.rotationMode, background: transform.background },
+    { type: 'flip', horizontal: transform.flipHorizontal, vertical: transform.flipVertical },
+    { type: 'crop', region: transform.crop, zoom: transform.zoom },
+    {
+      type: 'adjust',
+      adjustments: transform.adjustments,
+      filter: transform.filter,
+      filterIntensity: transform.filterIntensity,
+      customFilters,
+    },
+  ];
+}
+
+/**
+ * Size of the frame an image of the given size is shown in once rotated
+ * clockwise by `degrees`. See `RotationMode`.
+ */
+export function getRotatedFrame(
+  width: number,
+  height: number,
+  degrees: number,
+  mode: RotationMode = 'expand'
+): { width: number; height: number } {
+  const quarterTurns = degrees / 90;
+  if (Number.isInteger(quarterTurns)) {
+    return quarterTurns % 2 === 0 ? { width, height } : { width: height, height: width };
+  }
+
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+
+  if (mode !== 'inscribe') {
+    return { width: Math.round(width * cos + height * sin), height: Math.round(width * sin + height * cos) };
+  }
+
+  // Largest axis-aligned rectangle inside the rotated one
+  const long = Math.max(width, height);
+  const short = Math.min(width, height);
+  let innerWidth: number;
+  let innerHeight: number;
+  if (short <= 2 * sin * cos * long || Math.abs(sin - cos) < 1e-10) {
+    // Constrained by the short side: two corners touch the long sides
+    const half = short / 2;
+    [innerWidth, innerHeight] = width >= height ? [half / sin, half / cos] : [half / cos, half / sin];
+  } else {
+    const cos2 = cos * cos - sin * sin;
+    innerWidth = (width * cos - height * sin) / cos2;
+    innerHeight = (height * cos - width * sin) / cos2;
+  }
+  return {
+    width: Math.max(1, Math.floor(innerWidth + 1e-6)),
+    height: Math.max(1, Math.floor(innerHeight + 1e-6)),
+  };
+}
+
+/**
+ * Moves a crop onto a new frame size, e.g. after the rotation changed. The crop
+ * keeps its size and offset from the center and shrinks where it no longer
+ * fits; a percent crop of the whole frame stays one.
+ */
+export function reframeCrop(
+  region: CropRegion,
+  from: { width: number; height: number },
+  to: { width: number; height: number }
+): CropRegion {
+  const isPercent = region.unit === '%';
+  if (isPercent && region.x <= 0 && region.y <= 0 && region.width >= 100 && region.height >= 100) {
+    return region;
+  }
+
+  const [fromX, fromY] = isPercent ? [from.width / 100, from.height / 100] : [1, 1];
+  const centerX = (region.x + region.width / 2) * fromX - from.width / 2 + to.width / 2;
+  const centerY = (region.y + region.height / 2) * fromY - from.height / 2 + to.height / 2;
+  const fit = Math.min(1, to.width / (region.width * fromX), to.height / (region.height * fromY));
+  const width = region.width * fromX * fit;
+  const height = region.height * fromY * fit;
+  const x = Math.min(to.width - width, Math.max(0, centerX - width / 2));
+  const y = Math.min(to.height - height, Math.max(0, centerY - height / 2));
+
+  const [toX, toY] = isPercent ? [to.width / 100, to.height / 100] : [1, 1];
+  return { unit: region.unit, x: x / toX, y: y / toY, width: width / toX, height: height / toY };
+}
+
+/**
+ * Converts a crop region to source pixels. Pixel crops are divided by the
+ * zoom factor, matching how the editor maps its zoomed display onto the image.
+ */
+export function resolvePixelCrop(
+  region: CropRegion,
+  zoom: number,
+  naturalWidth: number,
+  naturalHeight: number
+): PixelCrop {
+  if (region.unit === '%') {
+    return {
+      x: (region.x / 100) * naturalWidth,
+      y: (region.y / 100) * naturalHeight,
+      width: Math.floor((region.width / 100) * naturalWidth),
+      height: Math.floor((region.height / 100) * naturalHeight),
+    };
+  }
+  // The epsilon keeps regions built by `toPixelRegion` from losing a pixel to rounding
+  return {
+    x: region.x / zoom,
+    y: region.y / zoom,
+    width: Math.floor(region.width / zoom + 1e-9),
+    height: Math.floor(region.height / zoom + 1e-9),
+  };
+}
+
+/**
+ * Inverse of `resolvePixelCrop`: the pixel region that selects `crop` at `zoom`.
+ */
+export function toPixelRegion(crop: PixelCrop, zoom: number): CropRegion {
+  return { unit: 'px', x: crop.x * zoom, y: crop.y * zoom, width: crop.width * zoom, height: crop.height * zoom };
+}
+
+/**
+ * Fits a crop typed in source pixels into `bounds`: whole pixels, at least 1×1.
+ * With `aspect`, the side named by `changed` is kept and the other follows,
+ * shrinking both if they no longer fit. The crop then moves inside the bounds.
+ */
+export function constrainPixelCrop(
+  crop: PixelCrop,
+  bounds: { width: number; height: number },
+  options: { aspect?: number; changed?: 'width' | 'height' } = {}
+): PixelCrop {
+  const maxWidth = Math.max(1, Math.floor(bounds.width));
+  const maxHeight = Math.max(1, Math.floor(bounds.height));
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+  let width = clamp(crop.width, 1, maxWidth);
+  let height = clamp(crop.height, 1, maxHeight);
+  const { aspect, changed } = options;
+  if (aspect) {
+    if (changed === 'height') width = clamp(height * aspect, 1, Infinity);
+    else height = clamp(width / aspect, 1, Infinity);
+    if (width > maxWidth) [width, height] = [maxWidth, clamp(maxWidth / aspect, 1, maxHeight)];
+    if (height > maxHeight) [width, height] = [clamp(maxHeight * aspect, 1, maxWidth), maxHeight];
+  }
+
+  return {
+    x: clamp(crop.x, 0, maxWidth - width),
+    y: clamp(crop.y, 0, maxHeight - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * Pixel size a crop renders at: the explicit `width`/`height` when given,
+ * otherwise the crop scaled by `scale`.
+ */
+export function getOutputSize(crop: { width: number; height: number }, output: OutputSize): { width: number; height: number } {
+  const { width, height } = output;
+  if (width && height) return { width, height };
+  if (width) return { width, height: Math.max(1, Math.round((width * crop.height) / crop.width)) };
+  if (height) return { width: Math.max(1, Math.round((height * crop.width) / crop.height)), height };
+  return {
+    width: Math.max(1, Math.floor(crop.width * output.scale)),
+    height: Math.max(1, Math.floor(crop.height * output.scale)),
+  };
+}
+
+/**
+ * How much a crop is enlarged to reach `size`, along its most enlarged axis.
+ * Values above 1 mean the output has more pixels than the source region.
+ */
+export function getUpscaleFactor(crop: { width: number; height: number }, size: { width: number; height: number }): number {
+  return Math.max(size.width / Math.max(crop.width, 1), size.height / Math.max(crop.height, 1));
+}
+
+export function createPixelBuffer(width: number, height: number): PixelBuffer {
+  return { data: new Uint8ClampedArray(width * height * 4), width, height };
+}
+
+/**
+ * Bilinear sample of `source` at (x, y), clamped to the given rectangle.
+ */
+function sampleBilinear(
+  source: PixelBuffer,
+  bounds: PixelCrop,
+  x: number,
+  y: number,
+  out: Uint8ClampedArray,
+  offset: number
+): void {
+  const minX = Math.max(0, Math.floor(bounds.x));
+  const minY = Math.max(0, Math.floor(bounds.y));
+  const maxX = Math.min(source.width - 1, Math.ceil(bounds.x + bounds.width) - 1);
+  const maxY = Math.min(source.height - 1, Math.ceil(bounds.y + bounds.height) - 1);
+
+  const fx = Math.min(maxX, Math.max(minX, x - 0.5));
+  const fy = Math.min(maxY, Math.max(minY, y - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(maxX, x0 + 1);
+  const y1 = Math.min(maxY, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const { data, width } = source;
+  const i00 = (y0 * width + x0) * 4;
+  const i10 = (y0 * width + x1) * 4;
+  const i01 = (y1 * width + x0) * 4;
+  const i11 = (y1 * width + x1) * 4;
+
+  for (let c = 0; c < 4; c++) {
+    const top = data[i00 + c] + (data[i10 + c] - data[i00 + c]) * tx;
+    const bottom = data[i01 + c] + (data[i11 + c] - data[i01 + c]) * tx;
+    out[offset + c] = top + (bottom - top) * ty;
+  }
+}
+
+/**
+ * Extracts `crop` from `source`, resampled by `output.scale` or to its exact size.
+ */
+export function cropPixels(source: PixelBuffer, crop: PixelCrop, output: OutputSize = { scale: 1 }): PixelBuffer {
+  const size = getOutputSize(crop, output);
+  const result = createPixelBuffer(size.width, size.height);
+  const { width, height, data } = result;
+
+  // Whole-pixel crops at 1x are a straight copy of each row
+  if (width === crop.width && height === crop.height && Number.isInteger(crop.x) && Number.isInteger(crop.y)
+    && crop.x >= 0 && crop.y >= 0 && crop.x + width <= source.width && crop.y + height <= source.height) {
+    for (let y = 0; y < height; y++) {
+      const start = ((crop.y + y) * source.width + crop.x) * 4;
+      data.set(source.data.subarray(start, start + width * 4), y * width * 4);
+    }
+    return result;
+  }
+
+  const ratioX = crop.width / width;
+  const ratioY = crop.height / height;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      sampleBilinear(source, crop, crop.x + (x + 0.5) * ratioX, crop.y + (y + 0.5) * ratioY, data, (y * width + x) * 4);
+    }
+  }
+  return result;
+}
+
+/**
+ * Rotation and flips applied before the crop, in the order the editor shows them.
+ */
+interface Geometry {
+  degrees: number;
+  mode: RotationMode;
+  background?: string;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+}
+
+/**
+ * Affine map from frame coordinates to source coordinates:
+ * sx = a·fx + b·fy + c, sy = d·fx + e·fy + f.
+ */
+interface FrameMapping {
+  frame: { width: number; height: number };
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+function mapFrameToSource(size: { width: number; height: number }, geometry: Geometry): FrameMapping {
+  const frame = getRotatedFrame(size.width, size.height, geometry.degrees, geometry.mode);
+  const radians = (geometry.degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const flipX = geometry.flipHorizontal ? -1 : 1;
+  const flipY = geometry.flipVertical ? -1 : 1;
+
+  // Unflip around the frame center, then rotate back counter-clockwise around the source center
+  const a = cos * flipX;
+  const b = sin * flipY;
+  const d = -sin * flipX;
+  const e = cos * flipY;
+  return {
+    frame,
+    a,
+    b,
+    c: size.width / 2 - a * (frame.width / 2) - b * (frame.height / 2),
+    d,
+    e,
+    f: size.height / 2 - d * (frame.width / 2) - e * (frame.height / 2),
+  };
+}
+
+// Source pixels a crop of the frame reads, padded for bilinear sampling
+function getSourceBounds(mapping: FrameMapping, crop: PixelCrop, size: { width: number; height: number }): PixelCrop {
+  const corners = [[crop.x, crop.y], [crop.x + crop.width, crop.y], [crop.x, crop.y + crop.height], [crop.x + crop.width, crop.y + crop.height]];
+  const xs = corners.map(([fx, fy]) => mapping.a * fx + mapping.b * fy + mapping.c);
+  const ys = corners.map(([fx, fy]) => mapping.d * fx + mapping.e * fy + mapping.f);
+
+  const x = Math.min(size.width - 1, Math.max(0, Math.floor(Math.min(...xs)) - 1));
+  const y = Math.min(size.height - 1, Math.max(0, Math.floor(Math.min(...ys)) - 1));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(size.width, Math.ceil(Math.max(...xs)) + 1) - x),
+    height: Math.max(1, Math.min(size.height, Math.ceil(Math.max(...ys)) + 1) - y),
+  };
+}
+
+/**
+ * Renders `crop` of the rotated and flipped frame in a single resampling pass.
+ * `source` may hold just part of an image of `size`, starting at `origin`.
+ */
+function renderGeometry(
+  source: PixelBuffer,
+  origin: { x: number; y: number },
+  size: { width: number; height: number },
+  geometry: Geometry,
+  mapping: FrameMapping,
+  crop: PixelCrop,
+  output: OutputSize
+): PixelBuffer {
+  const outputSize = getOutputSize(crop, output);
+  const result = createPixelBuffer(outputSize.width, outputSize.height);
+  const { width, height, data } = result;
+  const fill = geometry.mode === 'fill' ? parseHexColor(geometry.background ?? '') : null;
+  const bounds = { x: 0, y: 0, width: source.width, height: source.height };
+  const { a, b, c, d, e, f } = mapping;
+
+  const ratioX = crop.width / width;
+  const ratioY = crop.height / height;
+  for (let y = 0; y < height; y++) {
+    const fy = crop.y + (y + 0.5) * ratioY;
+    for (let x = 0; x < width; x++) {
+      const fx = crop.x + (x + 0.5) * ratioX;
+      const sx = a * fx + b * fy + c;
+      const sy = d * fx + e * fy + f;
+      const offset = (y * width + x) * 4;
+
+      // Areas the rotated image doesn't cover stay transparent unless filled
+      if (sx < 0 || sy < 0 || sx >= size.width || sy >= size.height) {
+        if (fill) data.set(fill, offset);
+        continue;
+      }
+      sampleBilinear(source, bounds, sx - origin.x, sy - origin.y, data, offset);
+    }
+  }
+  return result;
+}
+
+/**
+ * Rotates clockwise around the center into the frame given by `options.mode`
+ * (see `RotationMode`).
+ */
+export function rotatePixels(
+  source: PixelBuffer,
+  degrees: number,
+  options: { mode?: RotationMode; background?: string } = {}
+): PixelBuffer {
+  if (degrees % 360 === 0) return source;
+
+  const geometry = { degrees, mode: options.mode ?? 'expand', background: options.background, flipHorizontal: false, flipVertical: false };
+  const mapping = mapFrameToSource(source, geometry);
+  return renderGeometry(source, { x: 0, y: 0 }, source, geometry, mapping, { x: 0, y: 0, ...mapping.frame }, { scale: 1 });
+}
+
+/**
+ * Mirrors the image horizontally and/or vertically.
+ */
+export function flipPixels(source: PixelBuffer, horizontal: boolean, vertical: boolean): PixelBuffer {
+  if (!horizontal && !vertical) return source;
+
+  const { width, height } = source;
+  const result = createPixelBuffer(width, height);
+  const src = new Uint32Array(source.data.buffer, source.data.byteOffset, width * height);
+  const dst = new Uint32Array(result.data.buffer);
+
+  for (let y = 0; y < height; y++) {
+    const sy = vertical ? height - 1 - y : y;
+    for (let x = 0; x < width; x++) {
+      const sx = horizontal ? width - 1 - x : x;
+      dst[y * width + x] = src[sy * width + sx];
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns a copy of `source` with adjustments and then the filter applied.
+ * Exposure and white balance come first, as they would in the camera, then
+ * highlights/shadows, vibrance, hue, brightness/contrast/saturation and
+ * finally sharpening, so it sharpens the colors that end up in the image.
+ *
+ * @param filterIntensity - Percent of the filter's effect to keep, blending with the adjusted pixels
+ * @param customFilters - The user's own filters, for a `filter` that names one
+ */
+export function adjustPixels(
+  source: PixelBuffer,
+  saved: Adjustments,
+  filter?: string | null,
+  filterIntensity = 100,
+  customFilters?: FilterDefinition[]
+): PixelBuffer {
+  // Adjustments saved before a field existed lack it; it counts as unchanged
+  const adjustments = { ...DEFAULT_ADJUSTMENTS, ...saved };
+  const preset = filterIntensity > 0 ? getFilter(filter, customFilters) : null;
+  if (!hasAdjustments(adjustments) && !preset?.operations.length) return source;
+
+  let result: PixelBuffer = { data: new Uint8ClampedArray(source.data), width: source.width, height: source.height };
+  applyColorAdjustments(result.data, adjustments);
+  applyAdjustments(result.data, resolveAdjustments(adjustments));
+  if (adjustments.sharpness > 0) result = sharpenPixels(result, adjustments.sharpness);
+  if (preset) {
+    const unfiltered = filterIntensity < 100 ? new Uint8ClampedArray(result.data) : null;
+    applyFilter(result, preset);
+    if (unfiltered) {
+      const amount = filterIntensity / 100;
+      const { data } = result;
+      for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) data[i + c] = unfiltered[i + c] + amount * (data[i + c] - unfiltered[i + c]);
+      }
+    }
+  }
+  return result;
+}
+
+const isPixelBuffer = (source: CropSource): source is PixelBuffer =>
+  'data' in source && source.data instanceof Uint8ClampedArray;
+
+function getSourceSize(source: CropSource): { width: number; height: number } {
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  return { width: source.width, height: source.height };
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
   const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Reads the pixels of a drawable source within `bounds`.
+ */
+function rasterize(source: Exclude<CropSource, PixelBuffer>, bounds: PixelCrop): PixelBuffer {
+  const canvas = createCanvas(bounds.width, bounds.height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('No 2d context');
+  }
+
+  ctx.drawImage(source, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+  return ctx.getImageData(0, 0, bounds.width, bounds.height);
+}
+
+function applyOperation(pixels: PixelBuffer, op: CropOperation): PixelBuffer {
+  switch (op.type) {
+    case 'crop':
+      return cropPixels(pixels, resolvePixelCrop(op.region, op.zoom ?? 1, pixels.width, pixels.height));
+    case 'rotate':
+      return rotatePixels(pixels, op.degrees, op);
+    case 'flip':
+      return flipPixels(pixels, op.horizontal, op.vertical);
+    case 'adjust':
+      return adjustPixels(pixels, op.adjustments, op.filter, op.filterIntensity, op.customFilters);
+  }
+}
+
+/**
+ * Runs the crop pipeline on `source` and returns the resulting pixels.
+ *
+ * Leading `rotate`, `flip` and `crop` operations, in that order, are rendered
+ * together straight from the source: the crop is measured against the rotated
+ * frame and this is where the output size takes effect, so every following step
+ * works at output resolution. Without a crop the whole frame is used.
+ *
+ * @param source - Pixels (e.g. `ImageData`) or a drawable image/canvas
+ * @param ops - Operations to apply, in order
+ * @param output - Output settings; only `scale`, `width` and `height` affect the pixels
+ * @return ImageData-compatible pixel buffer
+ */
+export function renderCrop(
+  source: CropSource,
+  ops: CropOperation[],
+  output: OutputSize = DEFAULT_CROP_OUTPUT
+): PixelBuffer {
+  const size = getSourceSize(source);
+
+  let index = 0;
+  const take = <T extends CropOperation['type']>(type: T) =>
+    ops[index]?.type === type ? (ops[index++] as Extract<CropOperation, { type: T }>) : null;
+  const rotate = take('rotate');
+  const flip = take('flip');
+  const crop = take('crop');
+
+  const geometry: Geometry = {
+    degrees: rotate?.degrees ?? 0,
+    mode: rotate?.mode ?? 'expand',
+    background: rotate?.background,
+    flipHorizontal: flip?.horizontal ?? false,
+    flipVertical: flip?.vertical ?? false,
+  };
+  const mapping = mapFrameToSource(size, geometry);
+  const pixelCrop = crop
+    ? resolvePixelCrop(crop.region, crop.zoom ?? 1, mapping.frame.width, mapping.frame.height)
+    : { x: 0, y: 0, ...mapping.frame };
+
+  let pixels: PixelBuffer;
+  if (geometry.degrees % 360 !== 0 || geometry.flipHorizontal || geometry.flipVertical) {
+    if (isPixelBuffer(source)) {
+      pixels = renderGeometry(source, { x: 0, y: 0 }, size, geometry, mapping, pixelCrop, output);
+    } else {
+      const bounds = getSourceBounds(mapping, pixelCrop, size);
+      pixels = renderGeometry(rasterize(source, bounds), bounds, size, geometry, mapping, pixelCrop, output);
+    }
+  } else if (isPixelBuffer(source)) {
+    pixels = cropPixels(source, pixelCrop, output);
+  } else {
+    // Only rasterize the part of the source the crop actually reads
+    const x = Math.max(0, Math.floor(pixelCrop.x));
+    const y = Math.max(0, Math.floor(pixelCrop.y));
+    const bounds = {
+      x,
+      y,
+      width: Math.max(1, Math.min(size.width, Math.ceil(pixelCrop.x + pixelCrop.width)) - x),
+      height: Math.max(1, Math.min(size.height, Math.ceil(pixelCrop.y + pixelCrop.height)) - y),
+    };
+    pixels = cropPixels(
+      rasterize(source, bounds),
+      { ...pixelCrop, x: pixelCrop.x - bounds.x, y: pixelCrop.y - bounds.y },
+      output
+    );
+  }
+
+  return ops.slice(index).reduce(applyOperation, pixels);
+}
+
+/**
+ * Copies rendered pixels onto a new DOM canvas, e.g. for `toDataURL`.
+ */
+export function pixelsToCanvas(pixels: PixelBuffer): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
 
+  const ctx = canvas.getContext('2d');
   if (!ctx) {
     throw new Error('No 2d context');
   }
 
-  canvas.width = pixelCrop.width;
-  canvas.height = pixelCrop.height;
+  const imageData = ctx.createImageData(pixels.width, pixels.height);
+  imageData.data.set(pixels.data);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+/**
+ * Decodes a base64 data URL (e.g. from `toDataURL`) into its bytes.
+ */
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
 
-  ctx.drawImage(
-    image,
-    pixelCrop.x,
-    pixelCrop.y,
-    pixelCrop.width,
-    pixelCrop.height,
-    0,
-    0,
-    pixelCrop.width,
-    pixelCrop.height
-  );
+/**
+ * Encodes bytes as a base64 data URL.
+ */
+export function bytesToDataUrl(bytes: Uint8Array, type: string): string {
+  let binary = '';
+  // Chunked to stay within the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${type};base64,${btoa(binary)}`;
+}
 
-  return canvas.toDataURL(`image/${format}`);
+/**
+ * Decodes a base64 data URL into a Blob of its MIME type.
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const type = dataUrl.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+  return new Blob([dataUrlToBytes(dataUrl)], { type });
 }
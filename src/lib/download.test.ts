@@ -0,0 +1,22 @@
+import { downloadUrl, toSlug } from './download';
+
+describe('toSlug', () => {
+  it('lowercases labels and joins their words with hyphens', () => {
+    expect(toSlug('Instagram  Post 2x')).toBe('instagram-post-2x');
+  });
+});
+
+describe('downloadUrl', () => {
+  it('clicks a link that saves the URL under the filename', () => {
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toBe('photo.png');
+      expect(this.href).toBe('data:image/png;base64,AAAA');
+    });
+    try {
+      downloadUrl('data:image/png;base64,AAAA', 'photo.png');
+      expect(click).toHaveBeenCalledTimes(1);
+    } finally {
+      click.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,23 @@
+// Pause between programmatic downloads so browsers don't block them
+export const DOWNLOAD_DELAY_MS = 100;
+
+/**
+ * Saves a URL, e.g. a data URL, as a file named `filename`.
+ */
+export function downloadUrl(url: string, filename: string) {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_DELAY_MS);
+}
+
+/**
+ * Lowercases a label and joins its words with hyphens, for use in filenames.
+ */
+export const toSlug = (value: string) => value.toLowerCase().replace(/\s+/g, '-');
@@ -0,0 +1,79 @@
+import { dataUrlToBytes, type OutputFormat } from './cropUtils';
+import { createZip } from './zip';
+
+/**
+ * One encoded output file, as produced by a download.
+ */
+export interface ExportedFile {
+  filename: string;
+  dataUrl: string;
+  /** Name of the source image for batch exports */
+  source: string | null;
+  preset: string | null;
+  format: OutputFormat;
+  quality: number;
+  scale: number;
+  width: number;
+  height: number;
+  /** Print resolution recorded in the file, if any */
+  dpi: number | null;
+}
+
+export type ExportManifestEntry = Omit<ExportedFile, 'dataUrl'>;
+
+/**
+ * Contents of `manifest.json` in an exported archive.
+ */
+export interface ExportManifest {
+  version: 1;
+  createdAt: string;
+  files: ExportManifestEntry[];
+}
+
+export const MANIFEST_FILENAME = 'manifest.json';
+
+/**
+ * Makes `filename` unique among the names in `taken` by appending -2, -3, …
+ * before the extension, and adds the result to `taken`.
+ */
+export function uniqueFilename(filename: string, taken: Set<string>): string {
+  let candidate = filename;
+  const dot = filename.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [filename.slice(0, dot), filename.slice(dot)] : [filename, ''];
+
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${base}-${n}${extension}`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Bundles exported files into a ZIP together with a manifest describing them.
+ */
+export function createExportArchive(files: ExportedFile[], createdAt: Date = new Date()): Blob {
+  const taken = new Set([MANIFEST_FILENAME]);
+  const entries = files.map(file => ({ ...file, filename: uniqueFilename(file.filename, taken) }));
+
+  const manifest: ExportManifest = {
+    version: 1,
+    createdAt: createdAt.toISOString(),
+    files: entries.map(({ filename, source, preset, format, quality, scale, width, height, dpi }) => ({
+      filename, source, preset, format, quality, scale, width, height, dpi,
+    })),
+  };
+
+  const zip = createZip([
+    ...entries.map(entry => ({
+      name: entry.filename,
+      data: dataUrlToBytes(entry.dataUrl),
+      lastModified: createdAt,
+    })),
+    {
+      name: MANIFEST_FILENAME,
+      data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+      lastModified: createdAt,
+    },
+  ]);
+  return new Blob([zip], { type: 'application/zip' });
+}
@@ -0,0 +1,169 @@
+import { DEFAULT_ADJUSTMENTS, adjustPixels, createPixelBuffer } from './cropUtils';
+import {
+  CUSTOM_FILTERS_STORAGE_KEY,
+  FILTERS,
+  applyFilter,
+  createCurve,
+  createLutFilter,
+  getFilter,
+  loadCustomFilters,
+  parseFilterDefinition,
+  saveCustomFilters,
+  type FilterOperation,
+} from './filters';
+import { encodeLutTable, type Lut } from './lut';
+
+function solid(width: number, height: number, color: [number, number, number]) {
+  const pixels = createPixelBuffer(width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) pixels.data.set([...color, 255], i);
+  return pixels;
+}
+
+const pixelAt = (pixels: { data: Uint8ClampedArray; width: number }, x: number, y: number) =>
+  Array.from(pixels.data.slice((y * pixels.width + x) * 4, (y * pixels.width + x) * 4 + 4));
+
+// 2×2×2 LUT that inverts every channel
+const INVERT: Lut = { size: 2, table: Float32Array.from([1, 1, 1, 0, 1, 1, 1, 0, 1, 0, 0, 1, 1, 1, 0, 0, 1, 0, 1, 0, 0, 0, 0, 0]) };
+
+const run = (operations: FilterOperation[], pixels = solid(1, 1, [100, 150, 200])) => {
+  applyFilter(pixels, { id: 'test', name: 'Test', operations });
+  return pixels;
+};
+
+describe('parseFilterDefinition', () => {
+  it('reads every built-in look', () => {
+    expect(FILTERS.map(filter => filter.id)).toEqual([
+      'normal', 'clarendon', 'gingham', 'moon', 'lark', 'reyes', 'juno', 'slumber', 'crema', 'valencia', 'sierra',
+      'vintage', 'noir',
+    ]);
+  });
+
+  it('rejects invalid definitions', () => {
+    const look = (operations: unknown[]) => ({ id: 'brand', name: 'Brand', operations });
+    expect(() => parseFilterDefinition({ ...look([]), id: 'Brand Look' })).toThrow('"id" must be lowercase');
+    expect(() => parseFilterDefinition(look([{ type: 'blur' }]))).toThrow('Brand, operation 1: Unknown operation type "blur"');
+    expect(() => parseFilterDefinition(look([{ type: 'sepia', amount: 2 }]))).toThrow('"amount" must be a number within 0–1');
+    expect(() => parseFilterDefinition(look([{ type: 'curve', points: [[0, 0]] }]))).toThrow('"points" must be at least two');
+    expect(() => parseFilterDefinition(look([{ type: 'curve', points: [[0, 0], [0, 255]] }]))).toThrow('different inputs');
+    expect(() => parseFilterDefinition(look([{ type: 'colorMatrix', matrix: [1, 0, 0] }]))).toThrow('"matrix" must be 12 numbers');
+    expect(() => parseFilterDefinition(look([{ type: 'lut', size: 2, table: 'AAAA' }]))).toThrow('"table" must hold 8 colors');
+    expect(() => parseFilterDefinition(look([{ type: 'lut', size: 65, table: '' }]))).toThrow('"size" must be a number within 2–33');
+  });
+
+  it('fills in defaults and sorts curve points', () => {
+    expect(parseFilterDefinition({
+      id: 'brand',
+      name: 'Brand',
+      operations: [{ type: 'adjust', contrast: 120 }, { type: 'curve', points: [[255, 240], [0, 20]] }],
+    }).operations).toEqual([
+      { type: 'adjust', brightness: 100, contrast: 120, saturation: 100 },
+      { type: 'curve', channel: 'rgb', points: [[0, 20], [255, 240]] },
+    ]);
+  });
+});
+
+describe('createCurve', () => {
+  it('passes through the points without overshooting', () => {
+    const curve = createCurve([[0, 0], [64, 40], [192, 220], [255, 255]]);
+    expect([curve[0], curve[64], curve[192], curve[255]]).toEqual([0, 40, 220, 255]);
+    expect(Array.from(curve).every((value, i) => i === 0 || value >= curve[i - 1])).toBe(true);
+  });
+
+  it('is flat outside the first and last point', () => {
+    const curve = createCurve([[50, 30], [200, 220]]);
+    expect([curve[0], curve[49], curve[128], curve[255]]).toEqual([30, 30, 129, 220]);
+  });
+});
+
+describe('applyFilter', () => {
+  it('matches the CSS sepia and hue-rotate matrices', () => {
+    expect(pixelAt(run([{ type: 'sepia', amount: 1 }], solid(1, 1, [100, 100, 100])), 0, 0)).toEqual([135, 120, 94, 255]);
+    expect(pixelAt(run([{ type: 'hueRotate', degrees: 0 }]), 0, 0)).toEqual([100, 150, 200, 255]);
+    expect(pixelAt(run([{ type: 'hueRotate', degrees: 180 }], solid(1, 1, [128, 128, 128])), 0, 0)).toEqual([128, 128, 128, 255]);
+  });
+
+  it('applies color matrices with offsets in fractions of full intensity', () => {
+    const swap = [0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 0.1];
+    expect(pixelAt(run([{ type: 'colorMatrix', matrix: swap }]), 0, 0)).toEqual([200, 150, 126, 255]);
+  });
+
+  it('applies curves to the chosen channel', () => {
+    const invert: [number, number][] = [[0, 255], [255, 0]];
+    expect(pixelAt(run([{ type: 'curve', points: invert, channel: 'blue' }]), 0, 0)).toEqual([100, 150, 55, 255]);
+  });
+
+  it('darkens the corners with a vignette the same way at any size', () => {
+    const vignette: FilterOperation[] = [{ type: 'vignette', amount: 0.5 }];
+    const small = run(vignette, solid(10, 10, [200, 200, 200]));
+    const large = run(vignette, solid(100, 100, [200, 200, 200]));
+    expect(pixelAt(small, 5, 5)).toEqual([200, 200, 200, 255]);
+    expect(pixelAt(small, 0, 0)[0]).toBeLessThan(120);
+    expect(pixelAt(large, 50, 50)).toEqual([200, 200, 200, 255]);
+    expect(pixelAt(large, 0, 0)[0]).toBeLessThanOrEqual(pixelAt(small, 0, 0)[0]);
+  });
+
+  it('adds repeatable grain that averages out', () => {
+    const grain: FilterOperation[] = [{ type: 'grain', amount: 0.5 }];
+    const first = run(grain, solid(32, 32, [128, 128, 128]));
+    const second = run(grain, solid(32, 32, [128, 128, 128]));
+    expect(first.data).toEqual(second.data);
+
+    const reds = Array.from(first.data).filter((_, i) => i % 4 === 0);
+    expect(new Set(reds).size).toBeGreaterThan(10);
+    expect(reds.reduce((sum, value) => sum + value, 0) / reds.length).toBeCloseTo(128, -1);
+  });
+
+  it('maps colors through a LUT', () => {
+    const lut: FilterOperation = { type: 'lut', size: 2, table: encodeLutTable(INVERT) };
+    expect(pixelAt(run([lut]), 0, 0)).toEqual([155, 105, 55, 255]);
+  });
+
+  it('leaves alpha alone', () => {
+    const pixels = solid(1, 1, [100, 150, 200]);
+    pixels.data[3] = 80;
+    expect(pixelAt(run([{ type: 'sepia', amount: 1 }, { type: 'grain', amount: 1 }], pixels), 0, 0)[3]).toBe(80);
+  });
+
+  it('exports the sepia tone of Reyes and Crema', () => {
+    for (const id of ['reyes', 'crema']) {
+      const [r, , b] = pixelAt(adjustPixels(solid(1, 1, [128, 128, 128]), DEFAULT_ADJUSTMENTS, id), 0, 0);
+      expect(r).toBeGreaterThan(b);
+    }
+  });
+});
+
+describe('custom filters', () => {
+  it('turns a LUT into a filter named after the look', () => {
+    const filter = createLutFilter('Brand Warm (v2)', INVERT);
+    expect(filter).toMatchObject({ id: 'lut-brand-warm-v2', name: 'Brand Warm (v2)', operations: [{ type: 'lut', size: 2 }] });
+  });
+
+  it('resamples large LUTs', () => {
+    const size = 40;
+    const filter = createLutFilter('Big', { size, table: new Float32Array(size ** 3 * 3).fill(0.5) });
+    expect(filter.operations[0]).toMatchObject({ type: 'lut', size: 33 });
+  });
+
+  it('renders the custom filters passed along', () => {
+    const filter = createLutFilter('Negative', INVERT);
+    expect(getFilter(filter.id)).toBeNull();
+    expect(getFilter(filter.id, [filter])).toBe(filter);
+
+    const pixels = solid(1, 1, [100, 150, 200]);
+    expect(pixelAt(adjustPixels(pixels, DEFAULT_ADJUSTMENTS, filter.id, 100, [filter]), 0, 0)).toEqual([155, 105, 55, 255]);
+    expect(pixelAt(adjustPixels(pixels, DEFAULT_ADJUSTMENTS, filter.id), 0, 0)).toEqual([100, 150, 200, 255]);
+    // A custom filter can't take over a built-in look
+    expect(getFilter('moon', [{ ...filter, id: 'moon' }])?.name).toBe('Moon');
+  });
+
+  it('saves and loads filters', () => {
+    const storage = window.localStorage;
+    storage.clear();
+    expect(loadCustomFilters(storage)).toEqual([]);
+
+    const filter = createLutFilter('Negative', INVERT);
+    saveCustomFilters(storage, [filter]);
+    expect(JSON.parse(storage.getItem(CUSTOM_FILTERS_STORAGE_KEY)!)[0].id).toBe('lut-negative');
+    expect(loadCustomFilters(storage)).toEqual([filter]);
+  });
+});
@@ -0,0 +1,344 @@
+import { applyAdjustments, applyMatrix, hueRotateMatrix } from './adjustments';
+import type { PixelBuffer } from './cropUtils';
+import { MAX_LUT_SIZE, applyLut, decodeLutTable, encodeLutTable, resampleLut, type Lut } from './lut';
+import looks from './filterLooks.json';
+
+/**
+ * Filters, each a stack of operations applied in order after the user's
+ * adjustments. Preview and export both render them through `applyFilter`, so
+ * what you see is what you get. The built-in looks live in
+ * `filterLooks.json`; add an entry there for a new look. Looks the user
+ * imports, e.g. LUTs, are passed along with each render, next to the built-in
+ * ones.
+ */
+
+export type CurveChannel = 'rgb' | 'red' | 'green' | 'blue';
+
+export type FilterOperation =
+  /** Brightness, contrast and saturation in percent, as in the adjustment sliders; 100 is unchanged */
+  | { type: 'adjust'; brightness?: number; contrast?: number; saturation?: number }
+  /** Tone curve through [input, output] points in 0–255, smoothed between them */
+  | { type: 'curve'; points: [number, number][]; channel?: CurveChannel }
+  /** 0–1, as CSS `sepia()` */
+  | { type: 'sepia'; amount: number }
+  /** As CSS `hue-rotate()` */
+  | { type: 'hueRotate'; degrees: number }
+  /** Rows for red, green and blue: [r, g, b, offset], the offset a fraction of full intensity */
+  | { type: 'colorMatrix'; matrix: number[] }
+  /** Darkens towards the corners by up to `amount` (0–1), starting `size` (0–1, default 0.5) of the way out */
+  | { type: 'vignette'; amount: number; size?: number }
+  /** Monochrome noise of up to `amount` (0–1); the same pixels always get the same noise */
+  | { type: 'grain'; amount: number; seed?: number }
+  /** 3D LUT of `size`³ colors, red changing fastest, as base64 with one byte (0–255) per channel; see `lut.ts` */
+  | { type: 'lut'; size: number; table: string };
+
+export interface FilterDefinition {
+  id: string;
+  name: string;
+  operations: FilterOperation[];
+}
+
+const CURVE_CHANNELS: CurveChannel[] = ['rgb', 'red', 'green', 'blue'];
+
+// Largest change grain makes to a channel, at `amount` 1
+const GRAIN_STRENGTH = 64;
+
+// Decoded tables of parsed `lut` operations, so each is unpacked once
+const luts = new WeakMap<FilterOperation, Lut>();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readNumber(source: Record<string, unknown>, key: string, min: number, max: number, fallback?: number): number {
+  const value = source[key] ?? fallback;
+  if (typeof value !== 'number' || !(value >= min && value <= max)) {
+    throw new Error(`"${key}" must be a number within ${min}–${max}`);
+  }
+  return value;
+}
+
+function parseOperation(input: unknown): FilterOperation {
+  if (!isRecord(input)) throw new Error('Operation must be an object');
+
+  switch (input.type) {
+    case 'adjust':
+      return {
+        type: 'adjust',
+        brightness: readNumber(input, 'brightness', 0, 1000, 100),
+        contrast: readNumber(input, 'contrast', 0, 1000, 100),
+        saturation: readNumber(input, 'saturation', 0, 1000, 100),
+      };
+    case 'curve': {
+      const channel = input.channel ?? 'rgb';
+      if (!CURVE_CHANNELS.includes(channel as CurveChannel)) {
+        throw new Error(`"channel" must be one of ${CURVE_CHANNELS.join(', ')}`);
+      }
+      const { points } = input;
+      const isPoint = (point: unknown): point is [number, number] => Array.isArray(point) && point.length === 2
+        && point.every(value => typeof value === 'number' && value >= 0 && value <= 255);
+      if (!Array.isArray(points) || points.length < 2 || !points.every(isPoint)) {
+        throw new Error('"points" must be at least two [input, output] pairs within 0–255');
+      }
+      const sorted = [...points].sort((a, b) => a[0] - b[0]);
+      if (sorted.some((point, i) => i > 0 && point[0] === sorted[i - 1][0])) {
+        throw new Error('"points" must have different inputs');
+      }
+      return { type: 'curve', points: sorted, channel: channel as CurveChannel };
+    }
+    case 'sepia':
+      return { type: 'sepia', amount: readNumber(input, 'amount', 0, 1) };
+    case 'hueRotate':
+      return { type: 'hueRotate', degrees: readNumber(input, 'degrees', -360, 360) };
+    case 'colorMatrix': {
+      const { matrix } = input;
+      if (!Array.isArray(matrix) || matrix.length !== 12 || !matrix.every(value => typeof value === 'number' && Number.isFinite(value))) {
+        throw new Error('"matrix" must be 12 numbers');
+      }
+      return { type: 'colorMatrix', matrix };
+    }
+    case 'vignette':
+      return { type: 'vignette', amount: readNumber(input, 'amount', 0, 1), size: readNumber(input, 'size', 0, 1, 0.5) };
+    case 'grain':
+      return {
+        type: 'grain',
+        amount: readNumber(input, 'amount', 0, 1),
+        seed: readNumber(input, 'seed', 0, Number.MAX_SAFE_INTEGER, 0),
+      };
+    case 'lut': {
+      const size = readNumber(input, 'size', 2, MAX_LUT_SIZE);
+      if (!Number.isInteger(size)) throw new Error('"size" must be a whole number');
+      if (typeof input.table !== 'string') throw new Error('"table" must be a string');
+      const operation: FilterOperation = { type: 'lut', size, table: input.table };
+      luts.set(operation, decodeLutTable(input.table, size));
+      return operation;
+    }
+    default:
+      throw new Error(`Unknown operation type ${JSON.stringify(input.type)}`);
+  }
+}
+
+/**
+ * Validates a filter definition, e.g. an entry of `filterLooks.json`.
+ */
+export function parseFilterDefinition(input: unknown): FilterDefinition {
+  if (!isRecord(input)) throw new Error('Filter must be an object');
+  const { id, name, operations } = input;
+  if (typeof id !== 'string' || !/^[a-z0-9-]+$/.test(id)) {
+    throw new Error('"id" must be lowercase letters, digits and dashes');
+  }
+  if (typeof name !== 'string' || name.trim() === '') throw new Error('"name" must be a non-empty string');
+  if (!Array.isArray(operations)) throw new Error('"operations" must be a list');
+
+  return {
+    id,
+    name,
+    operations: operations.map((operation, index) => {
+      try {
+        return parseOperation(operation);
+      } catch (error) {
+        throw new Error(`${name}, operation ${index + 1}: ${(error as Error).message}`);
+      }
+    }),
+  };
+}
+
+export const FILTERS: FilterDefinition[] = looks.map(parseFilterDefinition);
+
+/**
+ * A filter applying `lut`, e.g. one imported from a `.cube` file. Its id comes
+ * from the name, so importing a look again replaces it. LUTs larger than
+ * `MAX_LUT_SIZE` are resampled down.
+ */
+export function createLutFilter(name: string, lut: Lut): FilterDefinition {
+  const fitted = lut.size > MAX_LUT_SIZE ? resampleLut(lut, MAX_LUT_SIZE) : lut;
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return parseFilterDefinition({
+    id: `lut-${slug || 'look'}`,
+    name: name.trim() || 'LUT',
+    operations: [{ type: 'lut', size: fitted.size, table: encodeLutTable(fitted) }],
+  });
+}
+
+export const CUSTOM_FILTERS_STORAGE_KEY = 'image-cropper:custom-filters';
+
+/**
+ * Looks up a built-in filter, or one of the user's own `customFilters`. A
+ * custom filter can't take the place of a built-in one.
+ */
+export function getFilter(id: string | null | undefined, customFilters: FilterDefinition[] = []): FilterDefinition | null {
+  return FILTERS.find(filter => filter.id === id) ?? customFilters.find(filter => filter.id === id) ?? null;
+}
+
+/**
+ * Custom filters saved in `storage`; none when nothing has been saved yet.
+ * Entries that don't validate are left out so they don't cost the user the
+ * rest. Throws when the saved value isn't a list at all.
+ */
+export function loadCustomFilters(storage: Storage): FilterDefinition[] {
+  const saved = storage.getItem(CUSTOM_FILTERS_STORAGE_KEY);
+  if (!saved) return [];
+  const parsed: unknown = JSON.parse(saved);
+  if (!Array.isArray(parsed)) throw new Error('Saved filters must be a list');
+
+  const filters: FilterDefinition[] = [];
+  for (const entry of parsed) {
+    try {
+      filters.push(parseFilterDefinition(entry));
+    } catch {
+      // Left out; see above
+    }
+  }
+  return filters;
+}
+
+export function saveCustomFilters(storage: Storage, filters: FilterDefinition[]) {
+  storage.setItem(CUSTOM_FILTERS_STORAGE_KEY, JSON.stringify(filters));
+}
+
+/**
+ * Lookup table for a tone curve: monotone cubic interpolation (Fritsch–Carlson)
+ * through the points, so the curve doesn't overshoot between them, and flat
+ * beyond the first and last.
+ */
+export function createCurve(points: [number, number][]): Uint8ClampedArray {
+  const n = points.length;
+  const slopes = points.slice(1).map(([x, y], i) => (y - points[i][1]) / (x - points[i][0]));
+  const tangents = points.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const length = Math.hypot(a, b);
+    if (length > 3) {
+      tangents[i] = (3 * a * slopes[i]) / length;
+      tangents[i + 1] = (3 * b * slopes[i]) / length;
+    }
+  }
+
+  const table = new Uint8ClampedArray(256);
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= points[0][0]) {
+      table[x] = points[0][1];
+      continue;
+    }
+    if (x >= points[n - 1][0]) {
+      table[x] = points[n - 1][1];
+      continue;
+    }
+    while (x > points[segment + 1][0]) segment++;
+    const [x0, y0] = points[segment];
+    const [x1, y1] = points[segment + 1];
+    const h = x1 - x0;
+    const t = (x - x0) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    table[x] = (2 * t3 - 3 * t2 + 1) * y0 + (t3 - 2 * t2 + t) * h * tangents[segment]
+      + (-2 * t3 + 3 * t2) * y1 + (t3 - t2) * h * tangents[segment + 1];
+  }
+  return table;
+}
+
+// 3×4 matrix as in `colorMatrix`, with the offset in 0–255
+function sepiaMatrix(amount: number): number[] {
+  const rest = 1 - amount;
+  return [
+    0.393 + 0.607 * rest, 0.769 - 0.769 * rest, 0.189 - 0.189 * rest, 0,
+    0.349 - 0.349 * rest, 0.686 + 0.314 * rest, 0.168 - 0.168 * rest, 0,
+    0.272 - 0.272 * rest, 0.534 - 0.534 * rest, 0.131 + 0.869 * rest, 0,
+  ];
+}
+
+// Repeatable noise in [-1, 1] for a pixel
+function noise(x: number, y: number, seed: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed, 2147483647);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return ((h >>> 0) / 4294967295) * 2 - 1;
+}
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / Math.max(edge1 - edge0, 1e-6)));
+  return t * t * (3 - 2 * t);
+};
+
+function applyOperation(pixels: PixelBuffer, operation: FilterOperation) {
+  const { data, width, height } = pixels;
+  switch (operation.type) {
+    case 'adjust':
+      applyAdjustments(data, {
+        brightness: (operation.brightness ?? 100) / 100,
+        contrast: (operation.contrast ?? 100) / 100,
+        saturation: (operation.saturation ?? 100) / 100,
+      });
+      return;
+    case 'curve': {
+      const table = createCurve(operation.points);
+      const channels = { rgb: [0, 1, 2], red: [0], green: [1], blue: [2] }[operation.channel ?? 'rgb'];
+      for (let i = 0; i < data.length; i += 4) {
+        for (const c of channels) data[i + c] = table[data[i + c]];
+      }
+      return;
+    }
+    case 'sepia':
+      applyMatrix(data, sepiaMatrix(operation.amount));
+      return;
+    case 'hueRotate':
+      applyMatrix(data, hueRotateMatrix(operation.degrees));
+      return;
+    case 'colorMatrix':
+      applyMatrix(data, operation.matrix.map((value, i) => (i % 4 === 3 ? value * 255 : value)));
+      return;
+    case 'vignette': {
+      // Distance from the center, 1 at the corners whatever the size, so previews match exports
+      const size = operation.size ?? 0.5;
+      for (let y = 0; y < height; y++) {
+        const dy = ((y + 0.5) / height) * 2 - 1;
+        for (let x = 0; x < width; x++) {
+          const dx = ((x + 0.5) / width) * 2 - 1;
+          const factor = 1 - operation.amount * smoothstep(size, 1, Math.sqrt((dx * dx + dy * dy) / 2));
+          const i = (y * width + x) * 4;
+          data[i] *= factor;
+          data[i + 1] *= factor;
+          data[i + 2] *= factor;
+        }
+      }
+      return;
+    }
+    case 'grain':
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const delta = noise(x, y, operation.seed ?? 0) * operation.amount * GRAIN_STRENGTH;
+          const i = (y * width + x) * 4;
+          data[i] += delta;
+          data[i + 1] += delta;
+          data[i + 2] += delta;
+        }
+      }
+      return;
+    case 'lut': {
+      let lut = luts.get(operation);
+      if (!lut) {
+        lut = decodeLutTable(operation.table, operation.size);
+        luts.set(operation, lut);
+      }
+      applyLut(data, lut);
+      return;
+    }
+  }
+}
+
+/**
+ * Runs a filter's operations on `pixels` in place. Alpha is left alone.
+ */
+export function applyFilter(pixels: PixelBuffer, filter: FilterDefinition): void {
+  for (const operation of filter.operations) applyOperation(pixels, operation);
+}
@@ -0,0 +1,55 @@
+import { createPixelBuffer } from './cropUtils';
+import { HIGHLIGHT_CLIPPING_COLOR, SHADOW_CLIPPING_COLOR, computeHistogram, markClipping } from './histogram';
+
+// One pixel per color, left to right
+function row(colors: [number, number, number, number][]) {
+  const pixels = createPixelBuffer(colors.length, 1);
+  colors.forEach((color, i) => pixels.data.set(color, i * 4));
+  return pixels;
+}
+
+describe('computeHistogram', () => {
+  it('counts each channel and the luminance', () => {
+    const histogram = computeHistogram(row([[255, 0, 0, 255], [100, 100, 100, 255], [10, 20, 30, 255]]));
+    expect(histogram.total).toBe(3);
+    expect(histogram.red[255]).toBe(1);
+    expect(histogram.red[100]).toBe(1);
+    expect(histogram.blue[30]).toBe(1);
+    // Rec. 709: pure red is 54, grays keep their value
+    expect(histogram.luminance[54]).toBe(1);
+    expect(histogram.luminance[100]).toBe(1);
+    expect(histogram.luminance[19]).toBe(1);
+  });
+
+  it('counts clipped pixels once however many channels clip', () => {
+    const histogram = computeHistogram(row([
+      [255, 255, 255, 255],
+      [0, 0, 0, 255],
+      [255, 0, 0, 255],
+      [128, 128, 128, 255],
+    ]));
+    expect(histogram.highlightsClipped).toBe(2);
+    expect(histogram.shadowsClipped).toBe(2);
+  });
+
+  it('leaves out transparent pixels', () => {
+    const histogram = computeHistogram(row([[0, 0, 0, 0], [255, 255, 255, 128]]));
+    expect(histogram.total).toBe(1);
+    expect(histogram.shadowsClipped).toBe(0);
+    expect(histogram.luminance[255]).toBe(1);
+  });
+});
+
+describe('markClipping', () => {
+  it('marks blown highlights and crushed shadows, highlights first', () => {
+    const overlay = markClipping(row([[255, 250, 250, 255], [0, 10, 10, 255], [255, 0, 0, 255], [128, 128, 128, 255]]));
+    expect(Array.from(overlay.data.slice(0, 4))).toEqual(HIGHLIGHT_CLIPPING_COLOR);
+    expect(Array.from(overlay.data.slice(4, 8))).toEqual(SHADOW_CLIPPING_COLOR);
+    expect(Array.from(overlay.data.slice(8, 12))).toEqual(HIGHLIGHT_CLIPPING_COLOR);
+    expect(Array.from(overlay.data.slice(12, 16))).toEqual([0, 0, 0, 0]);
+  });
+
+  it('ignores transparent pixels', () => {
+    expect(Array.from(markClipping(row([[0, 0, 0, 0]])).data)).toEqual([0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,71 @@
+import { createPixelBuffer, type PixelBuffer } from './cropUtils';
+
+/**
+ * Counts of pixels per value (0–255) for each channel and for luminance.
+ * Transparent pixels are left out.
+ */
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luminance: Uint32Array;
+  /** Pixels counted */
+  total: number;
+  /** Pixels with any channel at 0 */
+  shadowsClipped: number;
+  /** Pixels with any channel at 255 */
+  highlightsClipped: number;
+}
+
+// Overlay colors, as in most photo editors: blown highlights red, crushed shadows blue
+export const HIGHLIGHT_CLIPPING_COLOR: [number, number, number, number] = [255, 0, 0, 255];
+export const SHADOW_CLIPPING_COLOR: [number, number, number, number] = [0, 96, 255, 255];
+
+// Rec. 709 weights, applied to the displayed values as histograms usually are
+const luminanceOf = (r: number, g: number, b: number) => Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+
+export function computeHistogram(pixels: PixelBuffer): Histogram {
+  const histogram: Histogram = {
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256),
+    luminance: new Uint32Array(256),
+    total: 0,
+    shadowsClipped: 0,
+    highlightsClipped: 0,
+  };
+
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    histogram.red[r]++;
+    histogram.green[g]++;
+    histogram.blue[b]++;
+    histogram.luminance[luminanceOf(r, g, b)]++;
+    histogram.total++;
+    if (r === 0 || g === 0 || b === 0) histogram.shadowsClipped++;
+    if (r === 255 || g === 255 || b === 255) histogram.highlightsClipped++;
+  }
+  return histogram;
+}
+
+/**
+ * Overlay marking clipped pixels, transparent elsewhere. A pixel with a
+ * channel at 255 is marked as a clipped highlight even if another is at 0.
+ */
+export function markClipping(pixels: PixelBuffer): PixelBuffer {
+  const overlay = createPixelBuffer(pixels.width, pixels.height);
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    if (r === 255 || g === 255 || b === 255) overlay.data.set(HIGHLIGHT_CLIPPING_COLOR, i);
+    else if (r === 0 || g === 0 || b === 0) overlay.data.set(SHADOW_CLIPPING_COLOR, i);
+  }
+  return overlay;
+}
@@ -0,0 +1,138 @@
+import { createPixelBuffer } from './cropUtils';
+import {
+  applyLut,
+  decodeLutTable,
+  encodeLutTable,
+  parseCubeLut,
+  parseHaldClut,
+  resampleLut,
+  type Lut,
+} from './lut';
+
+// Entries in .cube order, red changing fastest
+function createLut(size: number, map: (r: number, g: number, b: number) => [number, number, number]): Lut {
+  const table = new Float32Array(size ** 3 * 3);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        table.set(map(r / (size - 1), g / (size - 1), b / (size - 1)), (r + g * size + b * size * size) * 3);
+      }
+    }
+  }
+  return { size, table };
+}
+
+const toCube = (lut: Lut, header = '') => {
+  const rows = [];
+  for (let i = 0; i < lut.table.length; i += 3) rows.push(Array.from(lut.table.slice(i, i + 3)).join(' '));
+  return `${header}LUT_3D_SIZE ${lut.size}\n${rows.join('\n')}\n`;
+};
+
+const mapColors = (lut: Lut, colors: number[][]) => {
+  const data = new Uint8ClampedArray(colors.flatMap(color => [...color, 255]));
+  applyLut(data, lut);
+  return colors.map((_, i) => Array.from(data.slice(i * 4, i * 4 + 3)));
+};
+
+const SAMPLE_COLORS = [[0, 0, 0], [255, 255, 255], [200, 100, 50], [30, 220, 140], [90, 90, 240], [128, 128, 128]];
+
+describe('parseCubeLut', () => {
+  it('reads the title, size and table', () => {
+    const cube = [
+      '# Created by hand',
+      'TITLE "Warm Look"',
+      'LUT_3D_SIZE 2',
+      '',
+      '0 0 0', '1 0 0', '0 1 0', '1 1 0',
+      '0 0 1', '1 0 1', '0 1 1', '1 1 1',
+    ].join('\r\n');
+    const { title, lut } = parseCubeLut(cube);
+    expect(title).toBe('Warm Look');
+    expect(lut.size).toBe(2);
+    expect(Array.from(lut.table.slice(3, 6))).toEqual([1, 0, 0]);
+  });
+
+  it('maps other input domains onto 0–1', () => {
+    // An identity over 0–2 darkens: input 1 (white here) reads the middle of the table
+    const identity = createLut(3, (r, g, b) => [r, g, b]);
+    const { lut } = parseCubeLut(toCube(identity, 'DOMAIN_MIN 0 0 0\nDOMAIN_MAX 2 2 2\n'));
+    expect(mapColors(lut, [[255, 255, 255]])).toEqual([[128, 128, 128]]);
+  });
+
+  it('explains what is wrong with a file', () => {
+    expect(() => parseCubeLut('0 0 0')).toThrow('Line 1: LUT_3D_SIZE must come before the table');
+    expect(() => parseCubeLut('TITLE "x"')).toThrow('LUT_3D_SIZE is missing');
+    expect(() => parseCubeLut('LUT_1D_SIZE 1024')).toThrow('1D LUTs are not supported');
+    expect(() => parseCubeLut('LUT_3D_SIZE 1')).toThrow('LUT_3D_SIZE must be a whole number within 2–256');
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0\n1 0 zero')).toThrow('Line 3: expected 3 numbers');
+    expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0\n1 0 0')).toThrow('Expected 8 table entries for LUT_3D_SIZE 2, found 2');
+  });
+});
+
+describe('applyLut', () => {
+  it('leaves colors alone through an identity LUT', () => {
+    for (const size of [2, 5, 17]) {
+      expect(mapColors(createLut(size, (r, g, b) => [r, g, b]), SAMPLE_COLORS)).toEqual(SAMPLE_COLORS);
+    }
+  });
+
+  it('reproduces any linear map exactly, as tetrahedral interpolation does', () => {
+    // Inverting and swapping channels is linear, so even a 2×2×2 LUT is exact
+    const lut = createLut(2, (r, g, b) => [1 - g, b, r]);
+    expect(mapColors(lut, SAMPLE_COLORS)).toEqual(SAMPLE_COLORS.map(([r, g, b]) => [255 - g, b, r]));
+  });
+
+  it('interpolates along the gray axis from the diagonal only', () => {
+    // Only the corners on the gray diagonal are white; tetrahedral keeps grays white,
+    // where trilinear would mix in the black corners
+    const lut = createLut(2, (r, g, b) => (r === g && g === b ? [1, 1, 1] : [0, 0, 0]));
+    expect(mapColors(lut, [[128, 128, 128]])).toEqual([[255, 255, 255]]);
+  });
+
+  it('leaves alpha alone', () => {
+    const data = new Uint8ClampedArray([10, 20, 30, 77]);
+    applyLut(data, createLut(2, () => [1, 1, 1]));
+    expect(Array.from(data)).toEqual([255, 255, 255, 77]);
+  });
+});
+
+describe('parseHaldClut', () => {
+  it('reads the colors in .cube order', () => {
+    // Level 2: an 8×8 image holding a 4×4×4 identity
+    const pixels = createPixelBuffer(8, 8);
+    const identity = createLut(4, (r, g, b) => [r, g, b]);
+    for (let i = 0; i < 64; i++) {
+      pixels.data.set([...Array.from(identity.table.slice(i * 3, i * 3 + 3), value => value * 255), 255], i * 4);
+    }
+    const lut = parseHaldClut(pixels);
+    expect(lut.size).toBe(4);
+    expect(mapColors(lut, SAMPLE_COLORS)).toEqual(SAMPLE_COLORS);
+  });
+
+  it('rejects images of other sizes', () => {
+    expect(() => parseHaldClut(createPixelBuffer(8, 6))).toThrow('square with a side of a cube number');
+    expect(() => parseHaldClut(createPixelBuffer(10, 10))).toThrow('square with a side of a cube number');
+  });
+});
+
+describe('resampleLut', () => {
+  it('keeps the mapping on a smaller grid', () => {
+    const lut = resampleLut(createLut(9, (r, g, b) => [1 - r, g, b * b]), 5);
+    expect(lut.size).toBe(5);
+    // Exact on the shared grid points
+    expect(mapColors(lut, [[0, 255, 255], [255, 0, 0]])).toEqual([[255, 255, 255], [0, 0, 0]]);
+  });
+});
+
+describe('LUT tables', () => {
+  it('round-trip through base64 to within a byte', () => {
+    const lut = createLut(3, (r, g, b) => [r * 0.9, g, 1 - b]);
+    const decoded = decodeLutTable(encodeLutTable(lut), 3);
+    decoded.table.forEach((value, i) => expect(value).toBeCloseTo(lut.table[i], 2));
+  });
+
+  it('must hold size³ colors', () => {
+    expect(() => decodeLutTable(encodeLutTable(createLut(2, (r, g, b) => [r, g, b])), 3)).toThrow('"table" must hold 27 colors');
+    expect(() => decodeLutTable('not base64!', 2)).toThrow('"table" must be base64');
+  });
+});
@@ -0,0 +1,231 @@
+import type { PixelBuffer } from './cropUtils';
+
+/**
+ * 3D color lookup tables (LUTs), as used for color grading. Loads `.cube`
+ * files and HaldCLUT images and applies them with tetrahedral interpolation.
+ */
+
+/**
+ * `size`³ output colors in 0–1 as r, g, b, for inputs on an even grid with
+ * red changing fastest, then green, then blue (the `.cube` order).
+ */
+export interface Lut {
+  size: number;
+  table: Float32Array;
+}
+
+// Larger LUTs are resampled on import; 33 is the usual size for grading and keeps stored looks small
+export const MAX_LUT_SIZE = 33;
+const MAX_CUBE_SIZE = 256;
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+const readNumbers = (parts: string[], count: number, line: number): number[] => {
+  if (parts.length !== count || !parts.every(part => NUMBER.test(part))) {
+    throw new Error(`Line ${line}: expected ${count} numbers`);
+  }
+  return parts.map(Number);
+};
+
+/**
+ * Reads a `.cube` file (Adobe/Resolve format). Inputs outside 0–1, set with
+ * `DOMAIN_MIN`/`DOMAIN_MAX` or `LUT_3D_INPUT_RANGE`, are mapped onto 0–1.
+ * Throws an `Error` describing the problem for anything else.
+ */
+export function parseCubeLut(text: string): { title: string | null; lut: Lut } {
+  let title: string | null = null;
+  let size = 0;
+  let domainMin = [0, 0, 0];
+  let domainMax = [1, 1, 1];
+  const values: number[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#')) return;
+    const [keyword, ...parts] = line.split(/\s+/);
+
+    if (keyword === 'TITLE') {
+      title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1') || null;
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported; export the look as a 3D LUT');
+    } else if (keyword === 'LUT_3D_SIZE') {
+      [size] = readNumbers(parts, 1, index + 1);
+      if (!Number.isInteger(size) || size < 2 || size > MAX_CUBE_SIZE) {
+        throw new Error(`Line ${index + 1}: LUT_3D_SIZE must be a whole number within 2–${MAX_CUBE_SIZE}`);
+      }
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = readNumbers(parts, 3, index + 1);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = readNumbers(parts, 3, index + 1);
+    } else if (keyword === 'LUT_3D_INPUT_RANGE') {
+      const [min, max] = readNumbers(parts, 2, index + 1);
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    } else if (/^[A-Z]/.test(keyword)) {
+      // Other keywords, e.g. LUT_1D_INPUT_RANGE from other tools, don't affect a 3D LUT
+    } else {
+      if (!size) throw new Error(`Line ${index + 1}: LUT_3D_SIZE must come before the table`);
+      values.push(...readNumbers([keyword, ...parts], 3, index + 1));
+    }
+  });
+
+  if (!size) throw new Error('Not a 3D LUT: LUT_3D_SIZE is missing');
+  const expected = size ** 3;
+  if (values.length !== expected * 3) {
+    throw new Error(`Expected ${expected} table entries for LUT_3D_SIZE ${size}, found ${values.length / 3}`);
+  }
+  if (domainMin.some((min, c) => !(domainMax[c] > min))) throw new Error('DOMAIN_MAX must be above DOMAIN_MIN');
+
+  const lut = { size, table: Float32Array.from(values) };
+  const isUnitDomain = domainMin.every(min => min === 0) && domainMax.every(max => max === 1);
+  return { title, lut: isUnitDomain ? lut : resampleLut(lut, size, domainMin, domainMax) };
+}
+
+/**
+ * Reads a HaldCLUT image: a square of side level³ holding level² × level² ×
+ * level² colors, red changing fastest.
+ */
+export function parseHaldClut(pixels: PixelBuffer): Lut {
+  const level = Math.round(Math.cbrt(pixels.width));
+  if (pixels.width !== pixels.height || level < 2 || level ** 3 !== pixels.width) {
+    throw new Error('A HaldCLUT image must be square with a side of a cube number, e.g. 512×512');
+  }
+
+  const size = level * level;
+  const table = new Float32Array(size ** 3 * 3);
+  for (let i = 0; i < size ** 3; i++) {
+    for (let c = 0; c < 3; c++) table[i * 3 + c] = pixels.data[i * 4 + c] / 255;
+  }
+  return { size, table };
+}
+
+/**
+ * Trilinear sample of `lut` at (r, g, b), each 0–1, into `out`.
+ */
+function sampleTrilinear(lut: Lut, r: number, g: number, b: number, out: number[]) {
+  const { size, table } = lut;
+  const position = (value: number) => {
+    const x = Math.min(1, Math.max(0, value)) * (size - 1);
+    const i = Math.min(size - 2, Math.floor(x));
+    return [i, x - i];
+  };
+  const [ri, rf] = position(r);
+  const [gi, gf] = position(g);
+  const [bi, bf] = position(b);
+
+  for (let c = 0; c < 3; c++) {
+    let value = 0;
+    for (let corner = 0; corner < 8; corner++) {
+      const dr = corner & 1;
+      const dg = (corner >> 1) & 1;
+      const db = (corner >> 2) & 1;
+      const weight = (dr ? rf : 1 - rf) * (dg ? gf : 1 - gf) * (db ? bf : 1 - bf);
+      if (weight) value += weight * table[((ri + dr) + (gi + dg) * size + (bi + db) * size * size) * 3 + c];
+    }
+    out[c] = value;
+  }
+}
+
+/**
+ * Resamples a LUT onto a grid of another size, optionally reading it over an
+ * input domain other than 0–1.
+ */
+export function resampleLut(lut: Lut, size: number, domainMin = [0, 0, 0], domainMax = [1, 1, 1]): Lut {
+  const table = new Float32Array(size ** 3 * 3);
+  const color = [0, 0, 0];
+  const toInput = (index: number, c: number) =>
+    ((index / (size - 1)) - domainMin[c]) / (domainMax[c] - domainMin[c]);
+
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        sampleTrilinear(lut, toInput(r, 0), toInput(g, 1), toInput(b, 2), color);
+        table.set(color, (r + g * size + b * size * size) * 3);
+      }
+    }
+  }
+  return { size, table };
+}
+
+/**
+ * Maps RGBA data through the LUT in place, interpolating inside the
+ * tetrahedron of grid points around each color. This is smoother along the
+ * gray axis than trilinear interpolation and reads four points instead of
+ * eight. Alpha is left alone.
+ */
+export function applyLut(data: Uint8ClampedArray, lut: Lut): void {
+  const { size, table } = lut;
+  const index = new Uint16Array(256);
+  const fraction = new Float32Array(256);
+  for (let value = 0; value < 256; value++) {
+    const x = (value / 255) * (size - 1);
+    index[value] = Math.min(size - 2, Math.floor(x));
+    fraction[value] = x - index[value];
+  }
+
+  // Offsets of the next grid point along red, green and blue
+  const dr = 3;
+  const dg = size * 3;
+  const db = size * size * 3;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const fr = fraction[data[i]];
+    const fg = fraction[data[i + 1]];
+    const fb = fraction[data[i + 2]];
+    const base = (index[data[i]] + index[data[i + 1]] * size + index[data[i + 2]] * size * size) * 3;
+
+    // The path from the base corner to the far corner steps along the largest fraction first
+    let first: number;
+    let second: number;
+    let w1: number;
+    let w2: number;
+    let w3: number;
+    if (fr >= fg && fg >= fb) {
+      first = dr; second = dr + dg; w1 = fr; w2 = fg; w3 = fb;
+    } else if (fr >= fb && fb >= fg) {
+      first = dr; second = dr + db; w1 = fr; w2 = fb; w3 = fg;
+    } else if (fb >= fr && fr >= fg) {
+      first = db; second = db + dr; w1 = fb; w2 = fr; w3 = fg;
+    } else if (fb >= fg && fg >= fr) {
+      first = db; second = db + dg; w1 = fb; w2 = fg; w3 = fr;
+    } else if (fg >= fb && fb >= fr) {
+      first = dg; second = dg + db; w1 = fg; w2 = fb; w3 = fr;
+    } else {
+      first = dg; second = dg + dr; w1 = fg; w2 = fr; w3 = fb;
+    }
+
+    const far = base + dr + dg + db;
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = 255 * ((1 - w1) * table[base + c] + (w1 - w2) * table[base + first + c]
+        + (w2 - w3) * table[base + second + c] + w3 * table[far + c]);
+    }
+  }
+}
+
+/**
+ * Packs the LUT as base64, one byte per channel, for storing it in a filter.
+ */
+export function encodeLutTable(lut: Lut): string {
+  let binary = '';
+  for (let i = 0; i < lut.table.length; i++) {
+    binary += String.fromCharCode(Math.round(Math.min(1, Math.max(0, lut.table[i])) * 255));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Unpacks a table from `encodeLutTable`.
+ */
+export function decodeLutTable(encoded: string, size: number): Lut {
+  let binary: string;
+  try {
+    binary = atob(encoded);
+  } catch {
+    throw new Error('"table" must be base64');
+  }
+  if (binary.length !== size ** 3 * 3) throw new Error(`"table" must hold ${size ** 3} colors for size ${size}`);
+
+  const table = new Float32Array(binary.length);
+  for (let i = 0; i < binary.length; i++) table[i] = binary.charCodeAt(i) / 255;
+  return { size, table };
+}
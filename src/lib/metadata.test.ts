@@ -0,0 +1,192 @@
+/**
+ * @jest-environment node
+ */
+import sharp from 'sharp';
+import {
+  getOrientation,
+  parseExif,
+  prepareOutputMetadata,
+  readMetadata,
+  serializeExif,
+  serializeIptc,
+  stripMetadata,
+  writeMetadata,
+  writeResolution,
+  type ImageMetadata,
+} from './metadata';
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+const blank = (options: { alpha?: boolean } = {}) => sharp({
+  create: { width: 8, height: 4, channels: options.alpha ? 4 : 3, background: { r: 255, g: 0, b: 0, alpha: 0.5 } },
+});
+
+// An 8×4 JPEG shot "rotated", with camera, copyright, date and GPS tags
+const photo = async () => new Uint8Array(await blank().jpeg()
+  .withExif({
+    IFD0: { Make: 'Acme', Model: 'X1', Copyright: 'Jane Doe' },
+    IFD2: { DateTimeOriginal: '2024:01:01 10:00:00' },
+    IFD3: { GPSLatitudeRef: 'N' },
+  })
+  .withMetadata({ orientation: 6 })
+  .toBuffer());
+
+const XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description tiff:Orientation="6" exif:GPSLatitude="51,30.0N" exif:PixelXDimension="8">
+<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">Jane Doe</rdf:li></rdf:Alt></dc:rights>
+<exif:GPSLongitude>0,7.0W</exif:GPSLongitude>
+</rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+describe('readMetadata', () => {
+  it('parses EXIF from a JPEG', async () => {
+    const { exif } = readMetadata(await photo());
+    expect(exif).not.toBeNull();
+    expect(getOrientation(exif)).toBe(6);
+    expect(exif!.gps.length).toBeGreaterThan(0);
+    expect(latin1(serializeExif(exif!))).toContain('Jane Doe');
+  });
+
+  it('returns empty metadata for files without any', async () => {
+    const png = new Uint8Array(await blank().png().toBuffer());
+    expect(readMetadata(png)).toEqual({ exif: null, xmp: null, iptc: null });
+  });
+
+  it('rejects malformed EXIF', () => {
+    expect(parseExif(new Uint8Array([0x49, 0x49, 42, 0, 0xff, 0xff, 0, 0]))).toBeNull();
+  });
+});
+
+describe('prepareOutputMetadata', () => {
+  it('resets orientation and records the output size', async () => {
+    const metadata = prepareOutputMetadata(readMetadata(await photo()), { width: 3, height: 2 });
+    const output = writeMetadata(new Uint8Array(await blank().resize(3, 2).jpeg().toBuffer()), metadata);
+
+    const info = await sharp(output).metadata();
+    expect(info.orientation).toBe(1);
+    expect(info.width).toBe(3);
+
+    const exif = readMetadata(output).exif!;
+    const dimension = exif.exif.find(entry => entry.tag === 0xa002)!;
+    expect(new DataView(dimension.value.buffer).getUint32(0, exif.littleEndian)).toBe(3);
+  });
+
+  it('updates XMP orientation and dimensions', () => {
+    const { xmp } = prepareOutputMetadata({ exif: null, xmp: XMP, iptc: null }, { width: 3, height: 2 });
+    expect(xmp).toContain('tiff:Orientation="1"');
+    expect(xmp).toContain('exif:PixelXDimension="3"');
+  });
+
+  it('replaces the EXIF resolution when given one', async () => {
+    const { exif } = prepareOutputMetadata(readMetadata(await photo()), { width: 8, height: 4 }, 300);
+    const entry = (tag: number) => exif!.ifd0.find(candidate => candidate.tag === tag)!;
+    const view = new DataView(entry(0x011a).value.buffer);
+    expect(view.getUint32(0, exif!.littleEndian) / view.getUint32(4, exif!.littleEndian)).toBe(300);
+    expect(new DataView(entry(0x0128).value.buffer).getUint16(0, exif!.littleEndian)).toBe(2);
+  });
+
+  it('never writes a thumbnail IFD', async () => {
+    const tiff = serializeExif(readMetadata(await photo()).exif!);
+    const view = new DataView(tiff.buffer);
+    const ifd0 = view.getUint32(4, true);
+    const nextIfd = view.getUint32(ifd0 + 2 + view.getUint16(ifd0, true) * 12, true);
+    expect(nextIfd).toBe(0);
+  });
+});
+
+describe('stripMetadata', () => {
+  it('removes GPS but keeps copyright', async () => {
+    const { exif } = stripMetadata(readMetadata(await photo()), ['gps']);
+    expect(exif!.gps).toEqual([]);
+
+    const serialized = latin1(serializeExif(exif!));
+    expect(serialized).toContain('Jane Doe');
+    expect(serialized).toContain('Acme');
+  });
+
+  it('removes camera details and dates', async () => {
+    const serialized = latin1(serializeExif(stripMetadata(readMetadata(await photo()), ['device', 'dates']).exif!));
+    expect(serialized).not.toContain('Acme');
+    expect(serialized).not.toContain('2024:01:01');
+    expect(serialized).toContain('Jane Doe');
+  });
+
+  it('removes XMP properties in attribute and element form', () => {
+    const { xmp } = stripMetadata({ exif: null, xmp: XMP, iptc: null }, ['gps']);
+    expect(xmp).not.toContain('GPS');
+    expect(xmp).toContain('Jane Doe');
+    expect(stripMetadata({ exif: null, xmp: XMP, iptc: null }, ['author']).xmp).not.toContain('Jane Doe');
+  });
+
+  it('removes IPTC datasets', () => {
+    const iptc = [
+      { record: 2, dataset: 116, value: new TextEncoder().encode('Jane Doe') },
+      { record: 2, dataset: 5, value: new TextEncoder().encode('Title') },
+    ];
+    expect(stripMetadata({ exif: null, xmp: null, iptc }, ['author']).iptc).toEqual([iptc[1]]);
+  });
+});
+
+describe('writeMetadata', () => {
+  const metadata = async (): Promise<ImageMetadata> => ({
+    ...prepareOutputMetadata(readMetadata(await photo()), { width: 8, height: 4 }),
+    xmp: XMP,
+  });
+
+  it('embeds an eXIf and XMP chunk in PNG', async () => {
+    const output = writeMetadata(new Uint8Array(await blank().png().toBuffer()), await metadata());
+
+    const info = await sharp(output).metadata();
+    expect(info.exif).toBeDefined();
+    expect(info.xmp).toBeDefined();
+    expect(getOrientation(readMetadata(output).exif)).toBe(1);
+    expect(readMetadata(output).xmp).toBe(XMP);
+  });
+
+  it.each([
+    ['lossy', blank().webp()],
+    ['lossless with alpha', blank({ alpha: true }).webp({ lossless: true })],
+  ])('embeds EXIF and XMP chunks in %s WebP', async (_, image) => {
+    const source = await image.toBuffer();
+    const output = writeMetadata(new Uint8Array(source), await metadata());
+
+    const before = await sharp(source).metadata();
+    const info = await sharp(output).metadata();
+    expect(info.exif).toBeDefined();
+    expect(info.xmp).toBeDefined();
+    expect(info).toMatchObject({ width: 8, height: 4, hasAlpha: before.hasAlpha });
+    await expect(sharp(output).raw().toBuffer()).resolves.toHaveLength(8 * 4 * info.channels!);
+  });
+
+  it('round-trips IPTC in JPEG and replaces existing metadata', async () => {
+    const iptc = [{ record: 2, dataset: 116, value: new TextEncoder().encode('Jane Doe') }];
+    const output = writeMetadata(await photo(), { exif: null, xmp: null, iptc });
+
+    expect(readMetadata(output)).toEqual({ exif: null, xmp: null, iptc });
+    expect(latin1((await sharp(output).metadata()).iptc!)).toContain(latin1(serializeIptc(iptc)));
+  });
+});
+
+describe('writeResolution', () => {
+  it('adds or updates the JFIF density of a JPEG', async () => {
+    // sharp writes no JFIF header, so the first call adds one and the second updates it
+    const jpeg = new Uint8Array(await blank().jpeg().toBuffer());
+    const added = writeResolution(jpeg, 300);
+    expect(await sharp(added).metadata()).toMatchObject({ density: 300, width: 8, height: 4 });
+
+    const updated = writeResolution(added, 600);
+    expect(updated).toHaveLength(added.length);
+    expect((await sharp(updated).metadata()).density).toBe(600);
+  });
+
+  it('writes a single pHYs chunk to PNG', async () => {
+    const png = new Uint8Array(await blank().png().toBuffer());
+    const output = writeResolution(writeResolution(png, 72), 300);
+    expect((await sharp(output).metadata()).density).toBeCloseTo(300, 0);
+    expect(latin1(output).match(/pHYs/g)).toHaveLength(1);
+  });
+
+  it('leaves WebP unchanged', async () => {
+    const webp = new Uint8Array(await blank().webp().toBuffer());
+    expect(writeResolution(webp, 300)).toBe(webp);
+  });
+});
@@ -0,0 +1,788 @@
+import type { OutputFormat } from './cropUtils';
+import { crc32 } from './zip';
+
+/**
+ * Reading, editing and embedding image metadata (EXIF, XMP and IPTC) for
+ * JPEG, PNG and WebP files.
+ *
+ * EXIF is kept as its IFD entries so it can be edited and re-serialized;
+ * the thumbnail IFD is never carried over since it no longer matches the output.
+ */
+
+export interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Raw value bytes in the byte order of the parsed data */
+  value: Uint8Array;
+}
+
+export interface ExifData {
+  littleEndian: boolean;
+  ifd0: ExifEntry[];
+  exif: ExifEntry[];
+  gps: ExifEntry[];
+  interop: ExifEntry[];
+}
+
+/** An IPTC-IIM dataset, e.g. record 2 dataset 116 for the copyright notice */
+export interface IptcDataset {
+  record: number;
+  dataset: number;
+  value: Uint8Array;
+}
+
+export interface ImageMetadata {
+  exif: ExifData | null;
+  xmp: string | null;
+  iptc: IptcDataset[] | null;
+}
+
+/** Groups of metadata that can be stripped independently */
+export type MetadataField = 'gps' | 'device' | 'dates' | 'author';
+
+export const METADATA_FIELDS: { id: MetadataField; label: string }[] = [
+  { id: 'gps', label: 'GPS location' },
+  { id: 'device', label: 'Camera and lens details' },
+  { id: 'dates', label: 'Capture and edit dates' },
+  { id: 'author', label: 'Author and copyright' },
+];
+
+export const EMPTY_METADATA: ImageMetadata = { exif: null, xmp: null, iptc: null };
+
+// EXIF field types and their sizes in bytes
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4,
+};
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+const TAG_IMAGE_WIDTH = 0x0100;
+const TAG_IMAGE_LENGTH = 0x0101;
+const TAG_ORIENTATION = 0x0112;
+const TAG_X_RESOLUTION = 0x011a;
+const TAG_Y_RESOLUTION = 0x011b;
+const TAG_RESOLUTION_UNIT = 0x0128;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xa005;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+
+// EXIF tags removed with each field group; GPS removes the whole GPS IFD
+const STRIPPED_EXIF_TAGS: Record<MetadataField, number[]> = {
+  gps: [],
+  // Make, Model, MakerNote, CameraOwnerName, BodySerialNumber, LensSpecification, LensMake, LensModel, LensSerialNumber
+  device: [0x010f, 0x0110, 0x927c, 0xa430, 0xa431, 0xa432, 0xa433, 0xa434, 0xa435],
+  // DateTime, DateTimeOriginal, DateTimeDigitized, OffsetTime*, SubSecTime*
+  dates: [0x0132, 0x9003, 0x9004, 0x9010, 0x9011, 0x9012, 0x9290, 0x9291, 0x9292],
+  // Artist, Copyright
+  author: [0x013b, 0x8298],
+};
+
+// XMP properties removed with each field group, using the conventional namespace prefixes
+const STRIPPED_XMP_PROPERTIES: Record<MetadataField, string[]> = {
+  gps: ['exif:GPS\\w*'],
+  device: ['tiff:Make', 'tiff:Model', 'aux:\\w+', 'exifEX:Lens\\w*', 'exifEX:BodySerialNumber', 'exifEX:CameraOwnerName'],
+  dates: [
+    'xmp:CreateDate', 'xmp:ModifyDate', 'xmp:MetadataDate', 'photoshop:DateCreated',
+    'exif:DateTimeOriginal', 'exif:DateTimeDigitized',
+  ],
+  author: ['dc:creator', 'dc:rights', 'xmpRights:\\w+', 'photoshop:Credit', 'photoshop:AuthorsPosition'],
+};
+
+// IPTC record 2 datasets removed with each field group
+const STRIPPED_IPTC_DATASETS: Record<MetadataField, number[]> = {
+  // Sub-location, City, Province/State, Country code, Country
+  gps: [92, 90, 95, 100, 101],
+  device: [],
+  // Date/time created, Digital creation date/time
+  dates: [55, 60, 62, 63],
+  // By-line, By-line title, Credit, Source, Copyright notice
+  author: [80, 85, 110, 115, 116],
+};
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const IPTC_RESOURCE_ID = 0x0404;
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+const JFIF_IDENTIFIER = 'JFIF\0';
+const RESOLUTION_UNIT_INCH = 2; // EXIF ResolutionUnit
+const JFIF_UNITS_DPI = 1;
+const PNG_UNIT_METER = 1;
+const METERS_PER_INCH = 0.0254;
+
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+const asciiBytes = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+function startsWith(bytes: Uint8Array, prefix: ArrayLike<number>, offset = 0): boolean {
+  if (bytes.length < offset + prefix.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[offset + i] !== prefix[i]) return false;
+  }
+  return true;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Detects JPEG, PNG or WebP data from its signature.
+ */
+export function detectImageFormat(bytes: Uint8Array): OutputFormat | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(bytes, asciiBytes('RIFF')) && startsWith(bytes, asciiBytes('WEBP'), 8)) return 'webp';
+  return null;
+}
+
+/* ----------------------------------------------------------------------------
+ * EXIF
+ * ------------------------------------------------------------------------- */
+
+/**
+ * Parses a TIFF-structured EXIF block. Returns null when the data is malformed.
+ */
+export function parseExif(tiff: Uint8Array): ExifData | null {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const littleEndian = order === 0x4949;
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  const visited = new Set<number>();
+  const readIfd = (offset: number): ExifEntry[] => {
+    if (visited.has(offset) || offset + 2 > tiff.length) throw new Error('Invalid IFD offset');
+    visited.add(offset);
+
+    const count = view.getUint16(offset, littleEndian);
+    if (offset + 2 + count * 12 > tiff.length) throw new Error('Truncated IFD');
+
+    const entries: ExifEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const entryOffset = offset + 2 + i * 12;
+      const tag = view.getUint16(entryOffset, littleEndian);
+      const type = view.getUint16(entryOffset + 2, littleEndian);
+      const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+      const typeSize = TYPE_SIZES[type];
+      if (!typeSize) continue; // Unknown types can't be relocated safely
+
+      const size = typeSize * valueCount;
+      const valueOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+      if (valueOffset + size > tiff.length) continue;
+      entries.push({ tag, type, count: valueCount, value: tiff.slice(valueOffset, valueOffset + size) });
+    }
+    return entries;
+  };
+
+  const pointer = (entries: ExifEntry[], tag: number): number | null => {
+    const entry = entries.find(candidate => candidate.tag === tag);
+    if (!entry || entry.value.length < 4) return null;
+    return new DataView(entry.value.buffer, entry.value.byteOffset).getUint32(0, littleEndian);
+  };
+  const withoutPointers = (entries: ExifEntry[]) => entries.filter(entry =>
+    entry.tag !== TAG_EXIF_IFD && entry.tag !== TAG_GPS_IFD && entry.tag !== TAG_INTEROP_IFD
+  );
+
+  try {
+    const ifd0 = readIfd(view.getUint32(4, littleEndian));
+    const exifOffset = pointer(ifd0, TAG_EXIF_IFD);
+    const gpsOffset = pointer(ifd0, TAG_GPS_IFD);
+    const exif = exifOffset !== null ? readIfd(exifOffset) : [];
+    const interopOffset = pointer(exif, TAG_INTEROP_IFD);
+
+    return {
+      littleEndian,
+      ifd0: withoutPointers(ifd0),
+      exif: withoutPointers(exif),
+      gps: gpsOffset !== null ? readIfd(gpsOffset) : [],
+      interop: interopOffset !== null ? readIfd(interopOffset) : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serializes EXIF data to a TIFF block, without a thumbnail IFD.
+ */
+export function serializeExif(exif: ExifData): Uint8Array {
+  const { littleEndian } = exif;
+  const pointerEntry = (tag: number): ExifEntry => ({ tag, type: LONG, count: 1, value: new Uint8Array(4) });
+
+  // Pointers to sub-IFDs are regenerated; parsing removes the original ones
+  const exifIfd = exif.interop.length > 0 ? [...exif.exif, pointerEntry(TAG_INTEROP_IFD)] : exif.exif;
+  const ifd0 = [
+    ...exif.ifd0,
+    ...(exifIfd.length > 0 ? [pointerEntry(TAG_EXIF_IFD)] : []),
+    ...(exif.gps.length > 0 ? [pointerEntry(TAG_GPS_IFD)] : []),
+  ];
+  const ifds = [ifd0, exifIfd, exif.interop, exif.gps].map(entries => [...entries].sort((a, b) => a.tag - b.tag));
+
+  const dataSize = (entries: ExifEntry[]) => entries.reduce(
+    (sum, entry) => sum + (entry.value.length > 4 ? entry.value.length + (entry.value.length % 2) : 0), 0
+  );
+  const ifdSize = (entries: ExifEntry[]) => entries.length === 0 ? 0 : 6 + entries.length * 12 + dataSize(entries);
+
+  const offsets: number[] = [];
+  let size = 8;
+  for (const entries of ifds) {
+    offsets.push(size);
+    size += ifdSize(entries);
+  }
+  const [ifd0Offset, exifOffset, interopOffset, gpsOffset] = offsets;
+  const pointerValues = new Map([[TAG_EXIF_IFD, exifOffset], [TAG_GPS_IFD, gpsOffset], [TAG_INTEROP_IFD, interopOffset]]);
+
+  const output = new Uint8Array(size);
+  const view = new DataView(output.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, ifd0Offset, littleEndian);
+
+  ifds.forEach((entries, index) => {
+    if (entries.length === 0) return;
+    const offset = offsets[index];
+    let dataOffset = offset + 6 + entries.length * 12;
+
+    view.setUint16(offset, entries.length, littleEndian);
+    entries.forEach((entry, i) => {
+      const entryOffset = offset + 2 + i * 12;
+      view.setUint16(entryOffset, entry.tag, littleEndian);
+      view.setUint16(entryOffset + 2, entry.type, littleEndian);
+      view.setUint32(entryOffset + 4, entry.count, littleEndian);
+
+      const pointerValue = pointerValues.get(entry.tag);
+      if (pointerValue !== undefined) {
+        view.setUint32(entryOffset + 8, pointerValue, littleEndian);
+      } else if (entry.value.length <= 4) {
+        output.set(entry.value, entryOffset + 8);
+      } else {
+        view.setUint32(entryOffset + 8, dataOffset, littleEndian);
+        output.set(entry.value, dataOffset);
+        dataOffset += entry.value.length + (entry.value.length % 2);
+      }
+    });
+    // No next IFD: the thumbnail IFD is dropped
+    view.setUint32(offset + 2 + entries.length * 12, 0, littleEndian);
+  });
+
+  return output;
+}
+
+function readUint(exif: ExifData, entry: ExifEntry | undefined): number | null {
+  if (!entry) return null;
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  if (entry.type === SHORT && entry.value.length >= 2) return view.getUint16(0, exif.littleEndian);
+  if (entry.type === LONG && entry.value.length >= 4) return view.getUint32(0, exif.littleEndian);
+  return null;
+}
+
+// Replaces or adds a SHORT or LONG value in an IFD
+function setUint(exif: ExifData, entries: ExifEntry[], tag: number, type: typeof SHORT | typeof LONG, value: number): ExifEntry[] {
+  const bytes = new Uint8Array(type === SHORT ? 2 : 4);
+  const view = new DataView(bytes.buffer);
+  if (type === SHORT) view.setUint16(0, value, exif.littleEndian);
+  else view.setUint32(0, value, exif.littleEndian);
+
+  const entry = { tag, type, count: 1, value: bytes };
+  return [...entries.filter(candidate => candidate.tag !== tag), entry];
+}
+
+// Replaces or adds a single RATIONAL value in an IFD
+function setRational(exif: ExifData, entries: ExifEntry[], tag: number, numerator: number, denominator: number): ExifEntry[] {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, numerator, exif.littleEndian);
+  view.setUint32(4, denominator, exif.littleEndian);
+
+  const entry = { tag, type: RATIONAL, count: 1, value: bytes };
+  return [...entries.filter(candidate => candidate.tag !== tag), entry];
+}
+
+/**
+ * The EXIF Orientation value (1–8); 1 when absent or invalid.
+ */
+export function getOrientation(exif: ExifData | null): number {
+  const value = exif ? readUint(exif, exif.ifd0.find(entry => entry.tag === TAG_ORIENTATION)) : null;
+  return value !== null && value >= 1 && value <= 8 ? value : 1;
+}
+
+/* ----------------------------------------------------------------------------
+ * XMP and IPTC
+ * ------------------------------------------------------------------------- */
+
+function removeXmpProperties(xmp: string, names: string[]): string {
+  if (names.length === 0) return xmp;
+  const name = `(?:${names.join('|')})`;
+  return xmp
+    // Element form, including nested arrays
+    .replace(new RegExp(`\\s*<(${name})(?:\\s[^>]*)?(?:/>|>[\\s\\S]*?</\\1>)`, 'g'), '')
+    // Attribute form on rdf:Description
+    .replace(new RegExp(`\\s+${name}\\s*=\\s*("[^"]*"|'[^']*')`, 'g'), '');
+}
+
+// Updates a simple XMP property if present, in either element or attribute form
+function setXmpProperty(xmp: string, name: string, value: string | number): string {
+  return xmp
+    .replace(new RegExp(`(<${name}>)[^<]*(</${name}>)`, 'g'), `$1${value}$2`)
+    .replace(new RegExp(`(\\s${name}\\s*=\\s*)("[^"]*"|'[^']*')`, 'g'), `$1"${value}"`);
+}
+
+/**
+ * Parses IPTC-IIM datasets. Returns null when the data is malformed.
+ */
+export function parseIptc(bytes: Uint8Array): IptcDataset[] | null {
+  const datasets: IptcDataset[] = [];
+  let offset = 0;
+  while (offset + 5 <= bytes.length && bytes[offset] === 0x1c) {
+    const length = (bytes[offset + 3] << 8) | bytes[offset + 4];
+    // Extended (over 32KB) datasets aren't used for descriptive fields
+    if (length & 0x8000 || offset + 5 + length > bytes.length) return null;
+    datasets.push({ record: bytes[offset + 1], dataset: bytes[offset + 2], value: bytes.slice(offset + 5, offset + 5 + length) });
+    offset += 5 + length;
+  }
+  return datasets;
+}
+
+export function serializeIptc(datasets: IptcDataset[]): Uint8Array {
+  return concat(datasets.map(({ record, dataset, value }) =>
+    concat([Uint8Array.of(0x1c, record, dataset, value.length >> 8, value.length & 0xff), value])
+  ));
+}
+
+/* ----------------------------------------------------------------------------
+ * Editing
+ * ------------------------------------------------------------------------- */
+
+/**
+ * Updates metadata to describe a rendered output: the pixels are upright, so
+ * Orientation becomes 1, and the stored dimensions are the output's. With a
+ * `dpi`, the resolution is replaced too so it can't contradict the file's own.
+ */
+export function prepareOutputMetadata(
+  metadata: ImageMetadata,
+  size: { width: number; height: number },
+  dpi?: number
+): ImageMetadata {
+  let { exif, xmp } = metadata;
+
+  if (exif) {
+    const hasTag = (entries: ExifEntry[], tag: number) => entries.some(entry => entry.tag === tag);
+    let ifd0 = setUint(exif, exif.ifd0, TAG_ORIENTATION, SHORT, 1);
+    if (hasTag(ifd0, TAG_IMAGE_WIDTH)) ifd0 = setUint(exif, ifd0, TAG_IMAGE_WIDTH, LONG, size.width);
+    if (hasTag(ifd0, TAG_IMAGE_LENGTH)) ifd0 = setUint(exif, ifd0, TAG_IMAGE_LENGTH, LONG, size.height);
+    if (dpi) {
+      ifd0 = setRational(exif, ifd0, TAG_X_RESOLUTION, Math.round(dpi), 1);
+      ifd0 = setRational(exif, ifd0, TAG_Y_RESOLUTION, Math.round(dpi), 1);
+      ifd0 = setUint(exif, ifd0, TAG_RESOLUTION_UNIT, SHORT, RESOLUTION_UNIT_INCH);
+    }
+
+    let exifIfd = setUint(exif, exif.exif, TAG_PIXEL_X_DIMENSION, LONG, size.width);
+    exifIfd = setUint(exif, exifIfd, TAG_PIXEL_Y_DIMENSION, LONG, size.height);
+    exif = { ...exif, ifd0, exif: exifIfd };
+  }
+
+  if (xmp) {
+    xmp = setXmpProperty(xmp, 'tiff:Orientation', 1);
+    xmp = setXmpProperty(xmp, 'tiff:ImageWidth', size.width);
+    xmp = setXmpProperty(xmp, 'tiff:ImageLength', size.height);
+    xmp = setXmpProperty(xmp, 'exif:PixelXDimension', size.width);
+    xmp = setXmpProperty(xmp, 'exif:PixelYDimension', size.height);
+    if (dpi) {
+      xmp = setXmpProperty(xmp, 'tiff:XResolution', `${Math.round(dpi)}/1`);
+      xmp = setXmpProperty(xmp, 'tiff:YResolution', `${Math.round(dpi)}/1`);
+      xmp = setXmpProperty(xmp, 'tiff:ResolutionUnit', RESOLUTION_UNIT_INCH);
+    }
+  }
+
+  return { ...metadata, exif, xmp };
+}
+
+/**
+ * Removes the given field groups from EXIF, XMP and IPTC alike.
+ */
+export function stripMetadata(metadata: ImageMetadata, fields: MetadataField[]): ImageMetadata {
+  if (fields.length === 0) return metadata;
+  let { exif, xmp, iptc } = metadata;
+
+  if (exif) {
+    const tags = new Set(fields.flatMap(field => STRIPPED_EXIF_TAGS[field]));
+    const keep = (entries: ExifEntry[]) => entries.filter(entry => !tags.has(entry.tag));
+    exif = {
+      ...exif,
+      ifd0: keep(exif.ifd0),
+      exif: keep(exif.exif),
+      gps: fields.includes('gps') ? [] : exif.gps,
+    };
+  }
+
+  if (xmp) {
+    xmp = removeXmpProperties(xmp, fields.flatMap(field => STRIPPED_XMP_PROPERTIES[field]));
+  }
+
+  if (iptc) {
+    const datasets = new Set(fields.flatMap(field => STRIPPED_IPTC_DATASETS[field]));
+    iptc = iptc.filter(entry => entry.record !== 2 || !datasets.has(entry.dataset));
+  }
+
+  return { exif, xmp, iptc };
+}
+
+/* ----------------------------------------------------------------------------
+ * Containers
+ * ------------------------------------------------------------------------- */
+
+interface JpegSegment {
+  marker: number;
+  /** Offset of the 0xFF marker byte */
+  start: number;
+  end: number;
+  payload: Uint8Array;
+}
+
+// Segments before the image data (SOS)
+function readJpegSegments(bytes: Uint8Array): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+    segments.push({ marker, start: offset, end, payload: bytes.subarray(offset + 4, end) });
+    offset = end;
+  }
+  return segments;
+}
+
+function readPhotoshopIptc(payload: Uint8Array): Uint8Array | null {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  let offset = PHOTOSHOP_HEADER.length;
+  while (offset + 12 <= payload.length && latin1(payload.subarray(offset, offset + 4)) === '8BIM') {
+    const id = view.getUint16(offset + 4);
+    const nameLength = payload[offset + 6];
+    const sizeOffset = offset + 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    if (sizeOffset + 4 > payload.length) return null;
+    const size = view.getUint32(sizeOffset);
+    const dataOffset = sizeOffset + 4;
+    if (id === IPTC_RESOURCE_ID) return payload.subarray(dataOffset, dataOffset + size);
+    offset = dataOffset + size + (size % 2);
+  }
+  return null;
+}
+
+function readJpegMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = { ...EMPTY_METADATA };
+  for (const { marker, payload } of readJpegSegments(bytes)) {
+    if (marker === 0xe1 && startsWith(payload, EXIF_HEADER) && !metadata.exif) {
+      metadata.exif = parseExif(payload.subarray(EXIF_HEADER.length));
+    } else if (marker === 0xe1 && startsWith(payload, asciiBytes(XMP_NAMESPACE)) && !metadata.xmp) {
+      metadata.xmp = new TextDecoder().decode(payload.subarray(XMP_NAMESPACE.length));
+    } else if (marker === 0xed && startsWith(payload, asciiBytes(PHOTOSHOP_HEADER)) && !metadata.iptc) {
+      const iptc = readPhotoshopIptc(payload);
+      metadata.iptc = iptc ? parseIptc(iptc) : null;
+    }
+  }
+  return metadata;
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  if (payload.length > MAX_JPEG_SEGMENT) {
+    throw new Error('Metadata is too large for a JPEG segment');
+  }
+  const length = payload.length + 2;
+  return concat([Uint8Array.of(0xff, marker, length >> 8, length & 0xff), payload]);
+}
+
+function writeJpegMetadata(bytes: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  const segments = readJpegSegments(bytes);
+  // Existing EXIF, XMP and Photoshop segments are replaced; JFIF (APP0) stays first
+  const isMetadata = ({ marker, payload }: JpegSegment) =>
+    (marker === 0xe1 && (startsWith(payload, EXIF_HEADER) || startsWith(payload, asciiBytes(XMP_NAMESPACE)))) ||
+    (marker === 0xed && startsWith(payload, asciiBytes(PHOTOSHOP_HEADER)));
+
+  const inserted: Uint8Array[] = [];
+  if (metadata.exif) {
+    inserted.push(jpegSegment(0xe1, concat([Uint8Array.from(EXIF_HEADER), serializeExif(metadata.exif)])));
+  }
+  if (metadata.xmp) {
+    inserted.push(jpegSegment(0xe1, concat([asciiBytes(XMP_NAMESPACE), new TextEncoder().encode(metadata.xmp)])));
+  }
+  if (metadata.iptc && metadata.iptc.length > 0) {
+    const iptc = serializeIptc(metadata.iptc);
+    const header = new Uint8Array(12);
+    const view = new DataView(header.buffer);
+    header.set(asciiBytes('8BIM'));
+    view.setUint16(4, IPTC_RESOURCE_ID);
+    // Empty resource name, padded to an even length
+    view.setUint32(8, iptc.length);
+    const padding = new Uint8Array(iptc.length % 2);
+    inserted.push(jpegSegment(0xed, concat([asciiBytes(PHOTOSHOP_HEADER), header, iptc, padding])));
+  }
+
+  const leading = segments.filter(segment => segment.marker === 0xe0);
+  const insertAt = leading.length > 0 ? leading[leading.length - 1].end : 2;
+  const parts: Uint8Array[] = [bytes.subarray(0, insertAt), ...inserted];
+  let offset = insertAt;
+  for (const segment of segments) {
+    if (segment.start < insertAt || !isMetadata(segment)) continue;
+    parts.push(bytes.subarray(offset, segment.start));
+    offset = segment.end;
+  }
+  parts.push(bytes.subarray(offset));
+  return concat(parts);
+}
+
+// Sets the JFIF density, adding a JFIF header when the file has none
+function writeJpegResolution(bytes: Uint8Array, dpi: number): Uint8Array {
+  const density = Math.min(0xffff, Math.max(1, Math.round(dpi)));
+  const jfif = readJpegSegments(bytes).find(({ marker, payload }) =>
+    marker === 0xe0 && startsWith(payload, asciiBytes(JFIF_IDENTIFIER)) && payload.length >= 12);
+
+  if (jfif) {
+    const output = bytes.slice();
+    const view = new DataView(output.buffer, output.byteOffset + jfif.start + 4);
+    view.setUint8(7, JFIF_UNITS_DPI);
+    view.setUint16(8, density);
+    view.setUint16(10, density);
+    return output;
+  }
+
+  // Identifier, version 1.01, units, X and Y density, no thumbnail
+  const payload = new Uint8Array(14);
+  const view = new DataView(payload.buffer);
+  payload.set(asciiBytes(JFIF_IDENTIFIER));
+  payload.set([1, 1, JFIF_UNITS_DPI], 5);
+  view.setUint16(8, density);
+  view.setUint16(10, density);
+  return concat([bytes.subarray(0, 2), jpegSegment(0xe0, payload), bytes.subarray(2)]);
+}
+
+interface Chunk {
+  type: string;
+  start: number;
+  end: number;
+  data: Uint8Array;
+}
+
+function readPngChunks(bytes: Uint8Array): Chunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    chunks.push({ type: latin1(bytes.subarray(offset + 4, offset + 8)), start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+  }
+  return chunks;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(asciiBytes(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// Uncompressed iTXt chunk data: keyword, compression flag and method, language and translated keyword
+const pngXmpPrefix = () => concat([asciiBytes(XMP_PNG_KEYWORD), Uint8Array.of(0, 0, 0, 0, 0)]);
+
+function readPngMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = { ...EMPTY_METADATA };
+  for (const { type, data } of readPngChunks(bytes)) {
+    if (type === 'eXIf') {
+      metadata.exif = parseExif(data);
+    } else if (type === 'iTXt' && startsWith(data, pngXmpPrefix())) {
+      metadata.xmp = new TextDecoder().decode(data.subarray(pngXmpPrefix().length));
+    }
+  }
+  return metadata;
+}
+
+function writePngMetadata(bytes: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  const chunks = readPngChunks(bytes);
+  const inserted: Uint8Array[] = [];
+  if (metadata.exif) inserted.push(pngChunk('eXIf', serializeExif(metadata.exif)));
+  if (metadata.xmp) inserted.push(pngChunk('iTXt', concat([pngXmpPrefix(), new TextEncoder().encode(metadata.xmp)])));
+
+  // Metadata goes before the image data; PNG has no standard place for IPTC
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  for (const chunk of chunks) {
+    if (chunk.type === 'IDAT' && inserted.length > 0) parts.push(...inserted.splice(0));
+    const isMetadata = chunk.type === 'eXIf' || (chunk.type === 'iTXt' && startsWith(chunk.data, pngXmpPrefix()));
+    if (!isMetadata) parts.push(bytes.subarray(chunk.start, chunk.end));
+  }
+  return concat(parts);
+}
+
+// Replaces any pHYs chunk with one right after the header
+function writePngResolution(bytes: Uint8Array, dpi: number): Uint8Array {
+  const pixelsPerMeter = Math.round(dpi / METERS_PER_INCH);
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, pixelsPerMeter);
+  view.setUint32(4, pixelsPerMeter);
+  data[8] = PNG_UNIT_METER;
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type === 'pHYs') continue;
+    parts.push(bytes.subarray(chunk.start, chunk.end));
+    if (chunk.type === 'IHDR') parts.push(pngChunk('pHYs', data));
+  }
+  return concat(parts);
+}
+
+function readRiffChunks(bytes: Uint8Array): Chunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > bytes.length) break;
+    chunks.push({ type: latin1(bytes.subarray(offset, offset + 4)), start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset = end;
+  }
+  return chunks;
+}
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(asciiBytes(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function readWebpMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = { ...EMPTY_METADATA };
+  for (const { type, data } of readRiffChunks(bytes)) {
+    if (type === 'EXIF') {
+      // Some encoders keep the JPEG "Exif\0\0" prefix
+      metadata.exif = parseExif(startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data);
+    } else if (type === 'XMP ') {
+      metadata.xmp = new TextDecoder().decode(data);
+    }
+  }
+  return metadata;
+}
+
+// Canvas size and alpha of a simple (VP8/VP8L) WebP bitstream
+function readWebpBitstream(chunk: Chunk): { width: number; height: number; alpha: boolean } | null {
+  const { data } = chunk;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (chunk.type === 'VP8 ' && data.length >= 10) {
+    return { width: view.getUint16(6, true) & 0x3fff, height: view.getUint16(8, true) & 0x3fff, alpha: false };
+  }
+  if (chunk.type === 'VP8L' && data.length >= 5) {
+    const bits = view.getUint32(1, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+  }
+  return null;
+}
+
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+function writeWebpMetadata(bytes: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  const chunks = readRiffChunks(bytes).filter(chunk => chunk.type !== 'EXIF' && chunk.type !== 'XMP ');
+  const body = chunks.map(chunk => bytes.subarray(chunk.start, chunk.end));
+
+  // Metadata needs the extended format; convert simple files by adding a VP8X header
+  let header: Uint8Array;
+  if (chunks[0]?.type === 'VP8X') {
+    header = chunks[0].data.slice();
+    body.shift();
+  } else {
+    const bitstream = chunks[0] ? readWebpBitstream(chunks[0]) : null;
+    if (!bitstream) throw new Error('Unsupported WebP bitstream');
+    header = new Uint8Array(10);
+    header[0] = bitstream.alpha ? VP8X_ALPHA : 0;
+    header.set([(bitstream.width - 1) & 0xff, ((bitstream.width - 1) >> 8) & 0xff, (bitstream.width - 1) >> 16], 4);
+    header.set([(bitstream.height - 1) & 0xff, ((bitstream.height - 1) >> 8) & 0xff, (bitstream.height - 1) >> 16], 7);
+  }
+
+  header[0] &= ~(VP8X_EXIF | VP8X_XMP);
+  const trailing: Uint8Array[] = [];
+  if (metadata.exif) {
+    header[0] |= VP8X_EXIF;
+    trailing.push(riffChunk('EXIF', serializeExif(metadata.exif)));
+  }
+  if (metadata.xmp) {
+    header[0] |= VP8X_XMP;
+    trailing.push(riffChunk('XMP ', new TextEncoder().encode(metadata.xmp)));
+  }
+
+  const content = concat([asciiBytes('WEBP'), riffChunk('VP8X', header), ...body, ...trailing]);
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set(asciiBytes('RIFF'));
+  new DataView(riffHeader.buffer).setUint32(4, content.length, true);
+  return concat([riffHeader, content]);
+}
+
+/**
+ * Reads EXIF, XMP and IPTC from a JPEG, PNG or WebP file.
+ */
+export function readMetadata(bytes: Uint8Array): ImageMetadata {
+  switch (detectImageFormat(bytes)) {
+    case 'jpeg':
+      return readJpegMetadata(bytes);
+    case 'png':
+      return readPngMetadata(bytes);
+    case 'webp':
+      return readWebpMetadata(bytes);
+    default:
+      return { ...EMPTY_METADATA };
+  }
+}
+
+/**
+ * Embeds metadata in an encoded image, replacing any it already has.
+ * IPTC is only written to JPEG, which is the only format with a standard place for it.
+ */
+export function writeMetadata(bytes: Uint8Array, metadata: ImageMetadata): Uint8Array {
+  switch (detectImageFormat(bytes)) {
+    case 'jpeg':
+      return writeJpegMetadata(bytes, metadata);
+    case 'png':
+      return writePngMetadata(bytes, metadata);
+    case 'webp':
+      return writeWebpMetadata(bytes, metadata);
+    default:
+      throw new Error('Unsupported image format');
+  }
+}
+
+/**
+ * Records the print resolution in an encoded image: the JFIF density for JPEG
+ * and a pHYs chunk for PNG. WebP has no equivalent and is returned unchanged.
+ */
+export function writeResolution(bytes: Uint8Array, dpi: number): Uint8Array {
+  switch (detectImageFormat(bytes)) {
+    case 'jpeg':
+      return writeJpegResolution(bytes, dpi);
+    case 'png':
+      return writePngResolution(bytes, dpi);
+    default:
+      return bytes;
+  }
+}
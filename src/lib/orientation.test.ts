@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { crc32, deflateSync } from 'zlib';
+import sharp from 'sharp';
+import { bytesToDataUrl, createImage, dataUrlToBytes, pixelsToCanvas, type PixelBuffer } from './cropUtils';
+import { getOrientation, readMetadata } from './metadata';
+import { normalizeOrientation, orientPixels } from './orientation';
+
+// There is no image decoding or canvas here; sharp decodes and a minimal encoder stands in for the canvas
+jest.mock('./cropUtils', () => ({
+  ...jest.requireActual('./cropUtils'),
+  createImage: jest.fn(),
+  pixelsToCanvas: jest.fn(),
+}));
+
+// 24×16 upright images of red | green / blue | white quadrants, stored as the
+// camera would for each EXIF Orientation value (checked against sharp's auto-orient)
+const fixture = (orientation: number) =>
+  readFileSync(path.join(__dirname, '__fixtures__', `orientation-${orientation}.jpg`));
+
+// Decodes the stored pixels without applying the orientation
+async function decodeStored(file: Buffer): Promise<PixelBuffer> {
+  const { data, info } = await sharp(file).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { data: new Uint8ClampedArray(data), width: info.width, height: info.height };
+}
+
+// Rounds a pixel to pure colors to absorb JPEG noise
+function colorAt(buffer: PixelBuffer, x: number, y: number): string {
+  const i = (y * buffer.width + x) * 4;
+  return Array.from(buffer.data.slice(i, i + 3), value => (value > 127 ? 1 : 0)).join('');
+}
+
+// Uncompressed-filter RGBA PNG, as a canvas returns when it can't encode the requested type
+function encodePng(pixels: PixelBuffer): Uint8Array {
+  const chunk = (type: string, data: Buffer) => {
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(pixels.width, 0);
+  header.writeUInt32BE(pixels.height, 4);
+  header.set([8, 6, 0, 0, 0], 8);
+  const rowLength = pixels.width * 4;
+  const rows = Buffer.alloc((rowLength + 1) * pixels.height);
+  for (let y = 0; y < pixels.height; y++) {
+    rows.set(pixels.data.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+  }
+  return new Uint8Array(Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(rows)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]));
+}
+
+const RED = '100';
+const GREEN = '010';
+const BLUE = '001';
+const WHITE = '111';
+
+describe('orientPixels', () => {
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])('turns orientation %i fixtures upright', async (orientation) => {
+    const file = fixture(orientation);
+    expect(getOrientation(readMetadata(new Uint8Array(file)).exif)).toBe(orientation);
+
+    const stored = await decodeStored(file);
+    expect([stored.width, stored.height]).toEqual(orientation >= 5 ? [16, 24] : [24, 16]);
+
+    const upright = orientPixels(stored, orientation);
+    expect([upright.width, upright.height]).toEqual([24, 16]);
+    expect(colorAt(upright, 6, 4)).toBe(RED);
+    expect(colorAt(upright, 18, 4)).toBe(GREEN);
+    expect(colorAt(upright, 6, 12)).toBe(BLUE);
+    expect(colorAt(upright, 18, 12)).toBe(WHITE);
+  });
+
+  it('treats unknown orientations as normal', async () => {
+    const stored = await decodeStored(fixture(1));
+    expect(orientPixels(stored, 0).data).toEqual(stored.data);
+  });
+});
+
+describe('normalizeOrientation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(createImage).mockImplementation(async url =>
+      (await decodeStored(Buffer.from(dataUrlToBytes(url)))) as unknown as HTMLImageElement);
+    jest.mocked(pixelsToCanvas).mockImplementation(pixels =>
+      ({ toDataURL: () => bytesToDataUrl(encodePng(pixels), 'image/png') }) as unknown as HTMLCanvasElement);
+  });
+
+  it('stores orientation 6 images upright with Orientation reset to 1', async () => {
+    const dataUrl = await normalizeOrientation(bytesToDataUrl(new Uint8Array(fixture(6)), 'image/jpeg'));
+    const bytes = dataUrlToBytes(dataUrl);
+    expect(getOrientation(readMetadata(bytes).exif)).toBe(1);
+
+    const upright = await decodeStored(Buffer.from(bytes));
+    expect([upright.width, upright.height]).toEqual([24, 16]);
+    expect(colorAt(upright, 6, 4)).toBe(RED);
+    expect(colorAt(upright, 18, 4)).toBe(GREEN);
+    expect(colorAt(upright, 6, 12)).toBe(BLUE);
+    expect(colorAt(upright, 18, 12)).toBe(WHITE);
+  });
+
+  it('returns upright images unchanged', async () => {
+    const dataUrl = bytesToDataUrl(new Uint8Array(fixture(1)), 'image/jpeg');
+    await expect(normalizeOrientation(dataUrl)).resolves.toBe(dataUrl);
+    expect(createImage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  bytesToDataUrl,
+  createImage,
+  createPixelBuffer,
+  dataUrlToBytes,
+  pixelsToCanvas,
+  renderCrop,
+  type PixelBuffer,
+} from './cropUtils';
+import {
+  EMPTY_METADATA,
+  detectImageFormat,
+  getOrientation,
+  prepareOutputMetadata,
+  readMetadata,
+  writeMetadata,
+} from './metadata';
+
+// Quality used when re-encoding a rotated JPEG or WebP working image
+const WORKING_QUALITY = 0.98;
+
+/**
+ * Maps stored pixels to their upright layout for an EXIF Orientation value:
+ * 1 normal, 2 mirrored, 3 rotated 180°, 4 flipped, 5 transposed,
+ * 6 rotated 90° clockwise, 7 transversed, 8 rotated 90° counter-clockwise.
+ */
+export function orientPixels(source: PixelBuffer, orientation: number): PixelBuffer {
+  const { width: w, height: h } = source;
+  const swapsAxes = orientation >= 5 && orientation <= 8;
+  const output = swapsAxes ? createPixelBuffer(h, w) : createPixelBuffer(w, h);
+  const src = new Uint32Array(source.data.buffer, source.data.byteOffset, w * h);
+  const dst = new Uint32Array(output.data.buffer);
+
+  // Source pixel shown at (x, y) of the upright image
+  const sourceIndex: (x: number, y: number) => number = {
+    2: (x: number, y: number) => y * w + (w - 1 - x),
+    3: (x: number, y: number) => (h - 1 - y) * w + (w - 1 - x),
+    4: (x: number, y: number) => (h - 1 - y) * w + x,
+    5: (x: number, y: number) => x * w + y,
+    6: (x: number, y: number) => (h - 1 - x) * w + y,
+    7: (x: number, y: number) => (h - 1 - x) * w + (w - 1 - y),
+    8: (x: number, y: number) => x * w + (w - 1 - y),
+  }[orientation] ?? ((x: number, y: number) => y * w + x);
+
+  for (let y = 0; y < output.height; y++) {
+    for (let x = 0; x < output.width; x++) {
+      dst[y * output.width + x] = src[sourceIndex(x, y)];
+    }
+  }
+  return output;
+}
+
+/**
+ * Returns an upright version of an image data URL whose EXIF orientation isn't
+ * 1, so what the cropper shows, the crop coordinates and the export all agree
+ * regardless of how the browser handles orientation. Metadata is carried over
+ * with Orientation reset to 1.
+ */
+export async function normalizeOrientation(dataUrl: string): Promise<string> {
+  const bytes = dataUrlToBytes(dataUrl);
+  const metadata = readMetadata(bytes);
+  const orientation = getOrientation(metadata.exif);
+  if (orientation === 1) return dataUrl;
+
+  // Decode the stored pixels without any orientation applied, then orient them ourselves
+  const format = detectImageFormat(bytes) ?? 'png';
+  const stored = await createImage(bytesToDataUrl(writeMetadata(bytes, EMPTY_METADATA), `image/${format}`));
+  const upright = orientPixels(renderCrop(stored, []), orientation);
+
+  const encoded = dataUrlToBytes(pixelsToCanvas(upright).toDataURL(`image/${format}`, WORKING_QUALITY));
+  const output = writeMetadata(encoded, prepareOutputMetadata(metadata, upright));
+  return bytesToDataUrl(output, `image/${detectImageFormat(output) ?? format}`);
+}
@@ -0,0 +1,33 @@
+/**
+ * @jest-environment node
+ */
+import { createImagePdf } from './pdf';
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+describe('createImagePdf', () => {
+  const jpeg = new Uint8Array([0xff, 0xd8, 0x01, 0x02, 0x03, 0xff, 0xd9]);
+  const pdf = createImagePdf(jpeg, { width: 1800, height: 1200 }, { width: 6, height: 4 });
+  const text = latin1(pdf);
+
+  it('sizes the page in points', () => {
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text).toContain('/MediaBox [0 0 432 288]');
+    expect(text).toContain('q 432 0 0 288 0 0 cm /Im0 Do Q');
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+  });
+
+  it('embeds the JPEG unchanged', () => {
+    expect(text).toContain('/Width 1800 /Height 1200');
+    expect(text).toContain(`/Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n${latin1(jpeg)}\nendstream`);
+  });
+
+  it('points the cross-reference table at each object', () => {
+    const xref = Number(text.match(/startxref\n(\d+)\n/)![1]);
+    expect(text.slice(xref, xref + 4)).toBe('xref');
+
+    const offsets = text.slice(xref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    expect(offsets).toHaveLength(5);
+    offsets.forEach((offset, index) => expect(text.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true));
+  });
+});
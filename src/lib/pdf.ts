@@ -0,0 +1,78 @@
+/**
+ * Minimal PDF writer: a single page showing one JPEG image edge to edge. The
+ * JPEG is embedded as-is (DCTDecode), so nothing is recompressed.
+ */
+
+const POINTS_PER_INCH = 72;
+
+export interface PdfPageSize {
+  /** Page size in inches */
+  width: number;
+  height: number;
+}
+
+// PDF numbers must not use exponent notation
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+/**
+ * Wraps an RGB JPEG in a one-page PDF of the given physical size.
+ *
+ * @param jpeg - Baseline or progressive RGB JPEG, e.g. from canvas or sharp
+ * @param pixelSize - Size of the JPEG in pixels
+ */
+export function createImagePdf(
+  jpeg: Uint8Array,
+  pixelSize: { width: number; height: number },
+  page: PdfPageSize
+): Uint8Array {
+  const width = formatNumber(page.width * POINTS_PER_INCH);
+  const height = formatNumber(page.height * POINTS_PER_INCH);
+  const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // The binary comment tells transfer tools the file isn't plain text
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  write('<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n');
+  startObject(3);
+  write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] `
+    + '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>\nendobj\n');
+  startObject(4);
+  write(`<< /Type /XObject /Subtype /Image /Width ${pixelSize.width} /Height ${pixelSize.height} `
+    + `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+  startObject(5);
+  write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  const xref = length;
+  write(`xref\n0 ${offsets.length}\n0000000000 65535 f \n`);
+  for (let id = 1; id < offsets.length; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${offsets.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  for (const part of parts) {
+    pdf.set(part, position);
+    position += part.length;
+  }
+  return pdf;
+}
@@ -0,0 +1,96 @@
+import { createPixelBuffer } from './cropUtils';
+import {
+  PHOTO_RULE_SETS,
+  checkCompliance,
+  getDefaultMarkers,
+  getRuleSetsForPreset,
+  measureBackground,
+  parseRuleSet,
+} from './photoCompliance';
+
+const us = PHOTO_RULE_SETS.find(ruleSet => ruleSet.id === 'us')!;
+
+// White 100×100 photo with a dark "head" in the middle and a dark lower half
+function portrait(background: (x: number, y: number) => number = () => 255) {
+  const pixels = createPixelBuffer(100, 100);
+  for (let y = 0; y < 100; y++) {
+    for (let x = 0; x < 100; x++) {
+      const isSubject = y >= 50 || (x >= 30 && x < 70 && y >= 10);
+      const value = isSubject ? 40 : background(x, y);
+      pixels.data.set([value, value, value, 255], (y * 100 + x) * 4);
+    }
+  }
+  return pixels;
+}
+
+const passed = (results: ReturnType<typeof checkCompliance>) =>
+  Object.fromEntries(results.map(result => [result.id, result.passed]));
+
+describe('rule sets', () => {
+  it('loads every bundled rule set', () => {
+    expect(PHOTO_RULE_SETS.map(ruleSet => ruleSet.id)).toEqual(['us', 'gb', 'de']);
+    expect(getRuleSetsForPreset('Visa Photo')).toEqual([us]);
+    expect(getRuleSetsForPreset('Passport Photo').map(ruleSet => ruleSet.id)).toEqual(['gb', 'de']);
+    expect(getRuleSetsForPreset('Instagram Post')).toEqual([]);
+  });
+
+  it('rejects invalid rule sets', () => {
+    expect(() => parseRuleSet({ ...us, unit: 'cm' })).toThrow('"unit" must be one of');
+    expect(() => parseRuleSet({ ...us, headHeight: { min: 0.8, max: 0.5 } })).toThrow('"headHeight" must be');
+    expect(() => parseRuleSet({ ...us, dpi: 0 })).toThrow('"dpi" must be positive');
+  });
+});
+
+describe('measureBackground', () => {
+  it('ignores the subject', () => {
+    expect(measureBackground(portrait())).toEqual({ lightness: expect.closeTo(255, 0), deviation: 0 });
+  });
+
+  it('measures uneven backgrounds', () => {
+    const stats = measureBackground(portrait(x => (x < 50 ? 255 : 155)));
+    expect(stats.lightness).toBeCloseTo(205, 0);
+    expect(stats.deviation).toBeGreaterThan(50);
+  });
+});
+
+describe('checkCompliance', () => {
+  const crop = { width: 1200, height: 1200 };
+  const background = { lightness: 250, deviation: 3 };
+
+  it('passes a well-framed photo', () => {
+    const results = checkCompliance(us, crop, getDefaultMarkers(us), background);
+    expect(results.every(result => result.passed)).toBe(true);
+  });
+
+  it('flags each failing rule', () => {
+    const results = checkCompliance(
+      us,
+      { width: 400, height: 300 },
+      { crown: 0.3, eyes: 0.5, chin: 0.7 },
+      { lightness: 120, deviation: 30 }
+    );
+    expect(passed(results)).toEqual({
+      aspect: false,
+      resolution: false,
+      headHeight: false,
+      eyeHeight: false,
+      backgroundLightness: false,
+      backgroundUniformity: false,
+    });
+  });
+
+  it('requires the guides in order', () => {
+    const results = checkCompliance(us, crop, { crown: 0.7, eyes: 0.4, chin: 0.1 }, background);
+    expect(results.find(result => result.id === 'headHeight')).toMatchObject({
+      passed: false,
+      detail: 'Place the crown above the eyes and the eyes above the chin',
+    });
+  });
+
+  it('skips the eye line when the rule set has none', () => {
+    const gb = PHOTO_RULE_SETS.find(ruleSet => ruleSet.id === 'gb')!;
+    const results = checkCompliance(gb, { width: 413, height: 531 }, getDefaultMarkers(gb), background);
+    expect(results.map(result => result.id)).not.toContain('eyeHeight');
+    expect(results.every(result => result.passed)).toBe(true);
+  });
+});
@@ -0,0 +1,229 @@
+import type { PixelBuffer } from './cropUtils';
+import { LENGTH_UNITS, toPixels, type LengthUnit } from './units';
+import de from './photoRules/de.json';
+import gb from './photoRules/gb.json';
+import us from './photoRules/us.json';
+
+/**
+ * Checks for passport and ID photos. Each country's requirements live in a
+ * JSON file in `photoRules/`; add a file there and list it in
+ * `PHOTO_RULE_SETS` to support another country.
+ */
+
+/** Allowed range, as a fraction of the photo height */
+export interface FractionRange {
+  min: number;
+  max: number;
+}
+
+export interface PhotoRuleSet {
+  id: string;
+  name: string;
+  /** Crop presets the rules apply to */
+  presets: string[];
+  /** Printed photo size in `unit`s */
+  width: number;
+  height: number;
+  unit: LengthUnit;
+  /** Minimum print resolution */
+  dpi: number;
+  /** Chin to crown */
+  headHeight: FractionRange;
+  /** Bottom edge of the photo to the eye line */
+  eyeHeight?: FractionRange;
+  background: {
+    /** Lowest average luma (0–255), i.e. how light the background must be */
+    minLightness: number;
+    /** Largest RMS color difference from the average background color */
+    maxDeviation: number;
+  };
+}
+
+/**
+ * Where the user placed the head guides, as fractions of the crop height from its top.
+ */
+export interface HeadMarkers {
+  crown: number;
+  eyes: number;
+  chin: number;
+}
+
+export interface BackgroundStats {
+  lightness: number;
+  deviation: number;
+}
+
+export interface RuleResult {
+  id: 'aspect' | 'resolution' | 'headHeight' | 'eyeHeight' | 'backgroundLightness' | 'backgroundUniformity';
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readRange(source: Record<string, unknown>, key: string): FractionRange {
+  const range = source[key];
+  if (!isRecord(range) || typeof range.min !== 'number' || typeof range.max !== 'number'
+    || range.min < 0 || range.max > 1 || range.min > range.max) {
+    throw new Error(`"${key}" must be a { min, max } range within 0–1`);
+  }
+  return { min: range.min, max: range.max };
+}
+
+/**
+ * Validates a rule set file.
+ */
+export function parseRuleSet(input: unknown): PhotoRuleSet {
+  if (!isRecord(input)) throw new Error('Rule set must be an object');
+
+  const { id, name, presets, width, height, unit, dpi, background } = input;
+  if (typeof id !== 'string' || typeof name !== 'string') throw new Error('"id" and "name" must be strings');
+  if (!Array.isArray(presets) || !presets.every(preset => typeof preset === 'string')) {
+    throw new Error('"presets" must be a list of preset names');
+  }
+  for (const [key, value] of Object.entries({ width, height, dpi })) {
+    if (typeof value !== 'number' || !(value > 0)) throw new Error(`"${key}" must be positive`);
+  }
+  if (!LENGTH_UNITS.includes(unit as LengthUnit)) {
+    throw new Error(`"unit" must be one of ${LENGTH_UNITS.join(', ')}`);
+  }
+  if (!isRecord(background) || typeof background.minLightness !== 'number' || typeof background.maxDeviation !== 'number') {
+    throw new Error('"background" must have numeric minLightness and maxDeviation');
+  }
+
+  return {
+    id,
+    name,
+    presets: presets as string[],
+    width: width as number,
+    height: height as number,
+    unit: unit as LengthUnit,
+    dpi: dpi as number,
+    headHeight: readRange(input, 'headHeight'),
+    ...(input.eyeHeight !== undefined ? { eyeHeight: readRange(input, 'eyeHeight') } : {}),
+    background: { minLightness: background.minLightness, maxDeviation: background.maxDeviation },
+  };
+}
+
+export const PHOTO_RULE_SETS: PhotoRuleSet[] = [us, gb, de].map(parseRuleSet);
+
+/**
+ * Rule sets that apply to a crop preset.
+ */
+export function getRuleSetsForPreset(presetName: string | null): PhotoRuleSet[] {
+  return presetName ? PHOTO_RULE_SETS.filter(ruleSet => ruleSet.presets.includes(presetName)) : [];
+}
+
+/**
+ * Head guides centered in the allowed ranges, as a starting point for the user.
+ */
+export function getDefaultMarkers(ruleSet: PhotoRuleSet): HeadMarkers {
+  const headHeight = (ruleSet.headHeight.min + ruleSet.headHeight.max) / 2;
+  const eyes = ruleSet.eyeHeight ? 1 - (ruleSet.eyeHeight.min + ruleSet.eyeHeight.max) / 2 : null;
+  // Leave a tenth of the photo above the crown unless the eye line says otherwise
+  const crown = eyes !== null ? Math.max(0.02, eyes - headHeight / 2) : 0.1;
+  return { crown, eyes: eyes ?? crown + headHeight / 2, chin: crown + headHeight };
+}
+
+/**
+ * Measures the background around the head: a band along the top and strips
+ * down both sides of the upper half, where shoulders don't reach.
+ */
+export function measureBackground(pixels: PixelBuffer): BackgroundStats {
+  const { width, height, data } = pixels;
+  const top = Math.max(1, Math.round(height * 0.08));
+  const side = Math.max(1, Math.round(width * 0.12));
+  const samples: number[] = [];
+  for (let y = 0; y < Math.ceil(height / 2); y++) {
+    for (let x = 0; x < width; x++) {
+      if (y < top || x < side || x >= width - side) samples.push((y * width + x) * 4);
+    }
+  }
+
+  const mean = [0, 1, 2].map(c => samples.reduce((sum, i) => sum + data[i + c], 0) / samples.length);
+  const variance = samples.reduce((sum, i) =>
+    sum + (data[i] - mean[0]) ** 2 + (data[i + 1] - mean[1]) ** 2 + (data[i + 2] - mean[2]) ** 2, 0) / samples.length;
+
+  return {
+    lightness: 0.2989 * mean[0] + 0.587 * mean[1] + 0.114 * mean[2],
+    deviation: Math.sqrt(variance),
+  };
+}
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+const rangeText = (range: FractionRange) => `${percent(range.min)}–${percent(range.max)}`;
+
+/**
+ * Evaluates a crop against a rule set.
+ *
+ * @param crop - Size of the selected area in source pixels
+ * @param markers - Head guide positions within the crop
+ * @param background - Measured from the rendered crop
+ */
+export function checkCompliance(
+  ruleSet: PhotoRuleSet,
+  crop: { width: number; height: number },
+  markers: HeadMarkers,
+  background: BackgroundStats
+): RuleResult[] {
+  const results: RuleResult[] = [];
+  const requiredSize = {
+    width: toPixels(ruleSet.width, ruleSet.unit, ruleSet.dpi),
+    height: toPixels(ruleSet.height, ruleSet.unit, ruleSet.dpi),
+  };
+
+  const aspect = crop.width / crop.height;
+  const expectedAspect = ruleSet.width / ruleSet.height;
+  results.push({
+    id: 'aspect',
+    label: 'Photo proportions',
+    passed: Math.abs(aspect - expectedAspect) / expectedAspect <= 0.01,
+    detail: `${ruleSet.width}×${ruleSet.height} ${ruleSet.unit} required`,
+  });
+
+  results.push({
+    id: 'resolution',
+    label: 'Resolution',
+    passed: crop.width >= requiredSize.width && crop.height >= requiredSize.height,
+    detail: `${crop.width}×${crop.height} px selected, ${requiredSize.width}×${requiredSize.height} px needed for ${ruleSet.dpi} DPI`,
+  });
+
+  const ordered = markers.crown < markers.eyes && markers.eyes < markers.chin;
+  const headHeight = markers.chin - markers.crown;
+  results.push({
+    id: 'headHeight',
+    label: 'Head size (chin to crown)',
+    passed: ordered && headHeight >= ruleSet.headHeight.min && headHeight <= ruleSet.headHeight.max,
+    detail: ordered
+      ? `${percent(headHeight)} of the photo height, ${rangeText(ruleSet.headHeight)} allowed`
+      : 'Place the crown above the eyes and the eyes above the chin',
+  });
+
+  if (ruleSet.eyeHeight) {
+    const eyeHeight = 1 - markers.eyes;
+    results.push({
+      id: 'eyeHeight',
+      label: 'Eye line',
+      passed: eyeHeight >= ruleSet.eyeHeight.min && eyeHeight <= ruleSet.eyeHeight.max,
+      detail: `${percent(eyeHeight)} from the bottom, ${rangeText(ruleSet.eyeHeight)} allowed`,
+    });
+  }
+
+  results.push({
+    id: 'backgroundLightness',
+    label: 'Light background',
+    passed: background.lightness >= ruleSet.background.minLightness,
+    detail: `Brightness ${Math.round(background.lightness)}, at least ${ruleSet.background.minLightness} required`,
+  });
+
+  results.push({
+    id: 'backgroundUniformity',
+    label: 'Plain background',
+    passed: background.deviation <= ruleSet.background.maxDeviation,
+    detail: `Variation ${Math.round(background.deviation)}, at most ${ruleSet.background.maxDeviation} allowed`,
+  });
+
+  return results;
+}
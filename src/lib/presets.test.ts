@@ -0,0 +1,133 @@
+import {
+  CROP_PRESETS,
+  CUSTOM_PRESETS_STORAGE_KEY,
+  PRESET_PICKS_STORAGE_KEY,
+  addRecentPreset,
+  filterPresets,
+  getPresetPixelSize,
+  getPresetShape,
+  loadCustomPresets,
+  loadPresetPicks,
+  mergePresets,
+  parseCustomPreset,
+  parsePresetFile,
+  saveCustomPresets,
+  savePresetPicks,
+  serializePresetFile,
+} from './presets';
+
+const header = { name: 'Newsletter Header', width: 600, height: 200, unit: 'px', category: 'Email' };
+
+describe('parseCustomPreset', () => {
+  it('derives the aspect ratio and marks the preset as custom', () => {
+    expect(parseCustomPreset({ ...header, name: '  Newsletter Header ' })).toEqual({
+      ...header,
+      aspectRatio: 3,
+      custom: true,
+    });
+  });
+
+  it('keeps print resolution and description', () => {
+    const preset = parseCustomPreset({ ...header, width: 100, height: 150, unit: 'mm', dpi: 300, description: 'Flyer' });
+    expect(preset).toMatchObject({ dpi: 300, description: 'Flyer' });
+    expect(getPresetPixelSize(preset)).toEqual({ width: 1181, height: 1772 });
+  });
+
+  it('rejects invalid presets', () => {
+    expect(() => parseCustomPreset({ ...header, name: ' ' })).toThrow('"name" must be a non-empty string');
+    expect(() => parseCustomPreset({ ...header, name: 'A4 Paper' })).toThrow('"A4 Paper" is already a built-in preset');
+    expect(() => parseCustomPreset({ ...header, width: 0 })).toThrow('"width" must be positive');
+    expect(() => parseCustomPreset({ ...header, unit: 'cm' })).toThrow('"unit" must be one of px, mm, in');
+    expect(() => parseCustomPreset({ ...header, dpi: -1 })).toThrow('"dpi" must be positive');
+    expect(() => parseCustomPreset({ ...header, width: 50, unit: 'in', dpi: 600 })).toThrow('at most 16383 px a side');
+    expect(() => parseCustomPreset({ ...header, category: '' })).toThrow('"category" must be a non-empty string');
+  });
+});
+
+describe('preset files', () => {
+  const hero = parseCustomPreset({ ...header, name: 'CMS Hero', width: 1920, height: 800, category: 'Web' });
+
+  it('round-trips presets without derived fields', () => {
+    const json = serializePresetFile([hero]);
+    expect(JSON.parse(json)).toEqual({
+      version: 1,
+      presets: [{ name: 'CMS Hero', width: 1920, height: 800, unit: 'px', category: 'Web' }],
+    });
+    expect(parsePresetFile(JSON.parse(json))).toEqual([hero]);
+  });
+
+  it('reports which preset is invalid', () => {
+    expect(() => parsePresetFile({ version: 2, presets: [] })).toThrow('Unsupported preset file version 2');
+    expect(() => parsePresetFile({ version: 1, presets: [header, { ...header, height: 'tall' }] }))
+      .toThrow('Preset 2: "height" must be positive');
+    expect(() => parsePresetFile({ version: 1, presets: [header, header] }))
+      .toThrow('Preset "Newsletter Header" is listed twice');
+  });
+
+  it('replaces presets with the same name when merging', () => {
+    const updated = { ...hero, width: 2400, aspectRatio: 3 };
+    const other = parseCustomPreset(header);
+    expect(mergePresets([hero, other], [updated])).toEqual([other, updated]);
+  });
+});
+
+describe('storage', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('saves and loads custom presets', () => {
+    const presets = [parseCustomPreset(header)];
+    expect(loadCustomPresets(window.localStorage)).toEqual([]);
+
+    saveCustomPresets(window.localStorage, presets);
+    expect(JSON.parse(window.localStorage.getItem(CUSTOM_PRESETS_STORAGE_KEY)!).version).toBe(1);
+    expect(loadCustomPresets(window.localStorage)).toEqual(presets);
+  });
+
+  it('leaves the built-in presets alone', () => {
+    expect(CROP_PRESETS.some(preset => preset.custom)).toBe(false);
+  });
+});
+
+describe('filterPresets', () => {
+  const names = (presets: typeof CROP_PRESETS) => presets.map(preset => preset.name);
+
+  it('matches every word across name, description and category', () => {
+    expect(names(filterPresets(CROP_PRESETS, { query: 'linkedin cover' }))).toEqual(['LinkedIn Cover']);
+    expect(names(filterPresets(CROP_PRESETS, { query: 'PROFILE picture x' }))).toEqual(['X/Twitter Profile']);
+  });
+
+  it('lists name matches before description matches', () => {
+    const results = names(filterPresets(CROP_PRESETS, { query: 'banner' }));
+    expect(results).toEqual(['YouTube Banner', 'Banner Ad']);
+    expect(names(filterPresets(CROP_PRESETS, { query: 'vertical' }))[0]).toBe('Instagram Story');
+  });
+
+  it('filters by shape and minimum size', () => {
+    expect(getPresetShape(CROP_PRESETS.find(preset => preset.name === 'Visa Photo')!)).toBe('square');
+    expect(names(filterPresets(CROP_PRESETS, { shape: 'portrait', minSize: 2000 })))
+      .toEqual(['8×10 Print', '11×14 Print', '16×20 Print']);
+  });
+});
+
+describe('preset picks', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it('keeps recent presets unique and bounded', () => {
+    let recent: string[] = [];
+    for (const name of ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'B']) recent = addRecentPreset(recent, name);
+    expect(recent).toEqual(['B', 'I', 'H', 'G', 'F', 'E', 'D', 'C']);
+  });
+
+  it('saves and loads favorites and recent presets', () => {
+    expect(loadPresetPicks(window.localStorage)).toEqual({ favorites: [], recent: [] });
+    savePresetPicks(window.localStorage, { favorites: ['A4 Paper'], recent: ['Instagram Post'] });
+    expect(loadPresetPicks(window.localStorage)).toEqual({ favorites: ['A4 Paper'], recent: ['Instagram Post'] });
+  });
+
+  it('ignores unreadable saved picks', () => {
+    window.localStorage.setItem(PRESET_PICKS_STORAGE_KEY, '{');
+    expect(loadPresetPicks(window.localStorage)).toEqual({ favorites: [], recent: [] });
+    window.localStorage.setItem(PRESET_PICKS_STORAGE_KEY, JSON.stringify({ favorites: ['A', 3], recent: 'B' }));
+    expect(loadPresetPicks(window.localStorage)).toEqual({ favorites: ['A'], recent: [] });
+  });
+});
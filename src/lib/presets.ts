@@ -0,0 +1,300 @@
+import { MAX_OUTPUT_SIDE } from './cropUtils';
+import { LENGTH_UNITS, toPixels, type LengthUnit } from './units';
+
+/**
+ * Define preset crop dimensions for social media, documents, and other standard formats.
+ * Presets include optimized dimensions for various platforms and use cases.
+ * @author PNV Development Team
+ */
+export type PresetCategory = 'Social Media' | 'Documents' | 'Print' | 'Devices' | 'E-commerce';
+
+export const PRESET_CATEGORIES: PresetCategory[] = ['Social Media', 'Documents', 'Print', 'Devices', 'E-commerce'];
+
+export interface CropPreset {
+  name: string;
+  /** Size in `unit`s */
+  width: number;
+  height: number;
+  unit: LengthUnit;
+  /** Print resolution; converts physical sizes to pixels and is recorded in the exported file */
+  dpi?: number;
+  /** One of `PRESET_CATEGORIES` for built-in presets; custom presets may use any name */
+  category: string;
+  aspectRatio: number;
+  description?: string; // Optional description for the preset
+  /** Created by the user rather than built in */
+  custom?: boolean;
+}
+
+export const CROP_PRESETS: CropPreset[] = [
+  // Social Media Presets
+  { name: 'Instagram Post', width: 1080, height: 1080, unit: 'px', category: 'Social Media', aspectRatio: 1, description: 'Square format for feed posts' },
+  { name: 'Instagram Story', width: 1080, height: 1920, unit: 'px', category: 'Social Media', aspectRatio: 9/16, description: 'Vertical format for stories' },
+  { name: 'Instagram Reel', width: 1080, height: 1920, unit: 'px', category: 'Social Media', aspectRatio: 9/16, description: 'Full-screen vertical videos' },
+  { name: 'Instagram Profile', width: 320, height: 320, unit: 'px', category: 'Social Media', aspectRatio: 1, description: 'Profile picture' },
+  { name: 'Facebook Post', width: 1200, height: 630, unit: 'px', category: 'Social Media', aspectRatio: 1200/630, description: 'Landscape format for feed' },
+  { name: 'Facebook Cover', width: 1640, height: 624, unit: 'px', category: 'Social Media', aspectRatio: 1640/624, description: 'Page cover photo' },
+  { name: 'Facebook Profile', width: 500, height: 500, unit: 'px', category: 'Social Media', aspectRatio: 1, description: 'Profile picture' },
+  { name: 'X/Twitter Post', width: 1600, height: 900, unit: 'px', category: 'Social Media', aspectRatio: 16/9, description: 'Standard tweet image' },
+  { name: 'X/Twitter Header', width: 1500, height: 500, unit: 'px', category: 'Social Media', aspectRatio: 3/1, description: 'Profile header image' },
+  { name: 'X/Twitter Profile', width: 400, height: 400, unit: 'px', category: 'Social Media', aspectRatio: 1, description: 'Profile picture' },
+  { name: 'LinkedIn Post', width: 1200, height: 627, unit: 'px', category: 'Social Media', aspectRatio: 1200/627, description: 'Standard post image' },
+  { name: 'LinkedIn Cover', width: 1584, height: 396, unit: 'px', category: 'Social Media', aspectRatio: 1584/396, description: 'Profile cover image' },
+  { name: 'LinkedIn Profile', width: 400, height: 400, unit: 'px', category: 'Social Media', aspectRatio: 1, description: 'Profile picture' },
+  { name: 'YouTube Thumbnail', width: 1280, height: 720, unit: 'px', category: 'Social Media', aspectRatio: 16/9, description: 'Video thumbnail' },
+  { name: 'YouTube Banner', width: 2560, height: 1440, unit: 'px', category: 'Social Media', aspectRatio: 16/9, description: 'Channel banner' },
+  { name: 'Pinterest Pin', width: 1000, height: 1500, unit: 'px', category: 'Social Media', aspectRatio: 2/3, description: 'Vertical pin format' },
+  { name: 'TikTok Video', width: 1080, height: 1920, unit: 'px', category: 'Social Media', aspectRatio: 9/16, description: 'Full-screen vertical video' },
+  { name: 'Snapchat Story', width: 1080, height: 1920, unit: 'px', category: 'Social Media', aspectRatio: 9/16, description: 'Vertical story format' },
+  
+  // Document Presets
+  { name: 'ID Photo', width: 413, height: 531, unit: 'px', category: 'Documents', aspectRatio: 413/531, description: 'Standard ID dimensions' },
+  { name: 'Passport Photo', width: 35, height: 45, unit: 'mm', dpi: 300, category: 'Documents', aspectRatio: 35/45, description: 'International standard' },
+  { name: 'Visa Photo', width: 51, height: 51, unit: 'mm', dpi: 300, category: 'Documents', aspectRatio: 1, description: 'Square format' },
+  { name: 'Resume Photo', width: 200, height: 200, unit: 'px', category: 'Documents', aspectRatio: 1, description: 'Professional headshot' },
+  { name: 'Business Card', width: 3.5, height: 2, unit: 'in', dpi: 300, category: 'Documents', aspectRatio: 3.5/2, description: 'Standard US size' },
+  { name: 'US Letter', width: 8.5, height: 11, unit: 'in', dpi: 96, category: 'Documents', aspectRatio: 8.5/11, description: 'US standard page' },
+  { name: 'A4 Paper', width: 210, height: 297, unit: 'mm', dpi: 96, category: 'Documents', aspectRatio: 210/297, description: 'International standard page' },
+  
+  // Print Presets
+  { name: '4×6 Print', width: 4, height: 6, unit: 'in', dpi: 300, category: 'Print', aspectRatio: 2/3, description: 'Standard photo print' },
+  { name: '5×7 Print', width: 5, height: 7, unit: 'in', dpi: 300, category: 'Print', aspectRatio: 5/7, description: 'Medium photo print' },
+  { name: '8×10 Print', width: 8, height: 10, unit: 'in', dpi: 300, category: 'Print', aspectRatio: 4/5, description: 'Large photo print' },
+  { name: '11×14 Print', width: 11, height: 14, unit: 'in', dpi: 300, category: 'Print', aspectRatio: 11/14, description: 'Poster size print' },
+  { name: '16×20 Print', width: 16, height: 20, unit: 'in', dpi: 300, category: 'Print', aspectRatio: 4/5, description: 'Large poster print' },
+  { name: 'Wallet Print', width: 3.5, height: 4.5, unit: 'in', dpi: 300, category: 'Print', aspectRatio: 7/9, description: 'Small wallet-sized print' },
+  
+  // Device Screen Presets
+  { name: 'Smartphone', width: 1080, height: 1920, unit: 'px', category: 'Devices', aspectRatio: 9/16, description: 'Common mobile screen' },
+  { name: 'Tablet', width: 1620, height: 2160, unit: 'px', category: 'Devices', aspectRatio: 3/4, description: 'Common tablet screen' },
+  { name: 'Desktop Wallpaper', width: 1920, height: 1080, unit: 'px', category: 'Devices', aspectRatio: 16/9, description: 'FHD monitor resolution' },
+  { name: '4K Wallpaper', width: 3840, height: 2160, unit: 'px', category: 'Devices', aspectRatio: 16/9, description: 'UHD monitor resolution' },
+  { name: 'MacBook Pro', width: 1440, height: 900, unit: 'px', category: 'Devices', aspectRatio: 16/10, description: 'Standard display resolution' },
+  { name: 'iPhone Wallpaper', width: 1290, height: 2796, unit: 'px', category: 'Devices', aspectRatio: 1290/2796, description: 'iPhone 15 Pro Max' },
+  
+  // E-commerce Presets
+  { name: 'Product Image', width: 2000, height: 2000, unit: 'px', category: 'E-commerce', aspectRatio: 1, description: 'Square product photo' },
+  { name: 'Amazon Product', width: 2000, height: 2000, unit: 'px', category: 'E-commerce', aspectRatio: 1, description: 'Main product image' },
+  { name: 'eBay Product', width: 1600, height: 1600, unit: 'px', category: 'E-commerce', aspectRatio: 1, description: 'Recommended size' },
+  { name: 'Etsy Product', width: 2000, height: 1600, unit: 'px', category: 'E-commerce', aspectRatio: 5/4, description: 'Landscape format' },
+  { name: 'Shopify Product', width: 2048, height: 2048, unit: 'px', category: 'E-commerce', aspectRatio: 1, description: 'High-res product image' },
+  { name: 'Banner Ad', width: 728, height: 90, unit: 'px', category: 'E-commerce', aspectRatio: 728/90, description: 'Standard leaderboard ad' },
+];
+
+/**
+ * Pixel size a preset exports at.
+ */
+export function getPresetPixelSize(preset: CropPreset): { width: number; height: number } {
+  return {
+    width: toPixels(preset.width, preset.unit, preset.dpi),
+    height: toPixels(preset.height, preset.unit, preset.dpi),
+  };
+}
+
+// Custom presets are stored and shared in the same versioned format
+export const PRESET_FILE_VERSION = 1;
+
+export const CUSTOM_PRESETS_STORAGE_KEY = 'image-cropper:custom-presets';
+
+export interface PresetFile {
+  version: typeof PRESET_FILE_VERSION;
+  presets: Omit<CropPreset, 'aspectRatio' | 'custom'>[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBuiltInName = (name: string) => CROP_PRESETS.some(preset => preset.name === name);
+
+/**
+ * Validates a custom preset, e.g. one entry of an imported file.
+ */
+export function parseCustomPreset(input: unknown): CropPreset {
+  if (!isRecord(input)) throw new Error('Preset must be an object');
+
+  const { name, width, height, unit, dpi, category, description } = input;
+  if (typeof name !== 'string' || !name.trim()) throw new Error('"name" must be a non-empty string');
+  if (isBuiltInName(name.trim())) throw new Error(`"${name.trim()}" is already a built-in preset`);
+  if (typeof category !== 'string' || !category.trim()) throw new Error('"category" must be a non-empty string');
+  for (const [key, value] of Object.entries({ width, height })) {
+    if (typeof value !== 'number' || !(value > 0)) throw new Error(`"${key}" must be positive`);
+  }
+  if (!LENGTH_UNITS.includes(unit as LengthUnit)) {
+    throw new Error(`"unit" must be one of ${LENGTH_UNITS.join(', ')}`);
+  }
+  if (dpi !== undefined && (typeof dpi !== 'number' || !(dpi > 0))) throw new Error('"dpi" must be positive');
+  if (description !== undefined && typeof description !== 'string') throw new Error('"description" must be a string');
+
+  const preset: CropPreset = {
+    name: name.trim(),
+    width: width as number,
+    height: height as number,
+    unit: unit as LengthUnit,
+    ...(dpi !== undefined ? { dpi } : {}),
+    category: category.trim(),
+    aspectRatio: (width as number) / (height as number),
+    ...(description ? { description } : {}),
+    custom: true,
+  };
+  const size = getPresetPixelSize(preset);
+  if (Math.max(size.width, size.height) > MAX_OUTPUT_SIDE) {
+    throw new Error(`Exports at ${size.width}×${size.height} px; at most ${MAX_OUTPUT_SIDE} px a side is supported`);
+  }
+  return preset;
+}
+
+/**
+ * Reads a preset file: `{ "version": 1, "presets": [...] }`.
+ */
+export function parsePresetFile(input: unknown): CropPreset[] {
+  if (!isRecord(input)) throw new Error('Preset file must be an object');
+  if (input.version !== PRESET_FILE_VERSION) {
+    throw new Error(`Unsupported preset file version ${JSON.stringify(input.version)}`);
+  }
+  if (!Array.isArray(input.presets)) throw new Error('"presets" must be a list');
+
+  const presets = input.presets.map((entry, index) => {
+    try {
+      return parseCustomPreset(entry);
+    } catch (error) {
+      throw new Error(`Preset ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+  const names = new Set<string>();
+  for (const preset of presets) {
+    if (names.has(preset.name)) throw new Error(`Preset "${preset.name}" is listed twice`);
+    names.add(preset.name);
+  }
+  return presets;
+}
+
+export function serializePresetFile(presets: CropPreset[]): string {
+  const file: PresetFile = {
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, width, height, unit, dpi, category, description }) => ({
+      name,
+      width,
+      height,
+      unit,
+      ...(dpi !== undefined ? { dpi } : {}),
+      category,
+      ...(description ? { description } : {}),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Adds presets to a list, replacing those with the same name.
+ */
+export function mergePresets(presets: CropPreset[], incoming: CropPreset[]): CropPreset[] {
+  const names = new Set(incoming.map(preset => preset.name));
+  return [...presets.filter(preset => !names.has(preset.name)), ...incoming];
+}
+
+/**
+ * Custom presets saved in `storage`; none when nothing has been saved yet.
+ * Entries that no longer validate, e.g. one whose name has since become a
+ * built-in preset, are left out so they don't cost the user the rest. Throws
+ * when the saved value isn't a preset file at all.
+ */
+export function loadCustomPresets(storage: Storage): CropPreset[] {
+  const saved = storage.getItem(CUSTOM_PRESETS_STORAGE_KEY);
+  if (!saved) return [];
+  const file: unknown = JSON.parse(saved);
+  if (!isRecord(file) || file.version !== PRESET_FILE_VERSION || !Array.isArray(file.presets)) {
+    throw new Error('Saved presets are not a preset file');
+  }
+
+  const presets: CropPreset[] = [];
+  for (const entry of file.presets) {
+    try {
+      const preset = parseCustomPreset(entry);
+      if (!presets.some(existing => existing.name === preset.name)) presets.push(preset);
+    } catch {
+      // Left out; see above
+    }
+  }
+  return presets;
+}
+
+export function saveCustomPresets(storage: Storage, presets: CropPreset[]) {
+  storage.setItem(CUSTOM_PRESETS_STORAGE_KEY, serializePresetFile(presets));
+}
+
+export type PresetShape = 'square' | 'landscape' | 'portrait';
+
+export interface PresetFilter {
+  /** Words that must all appear in the name, description or category */
+  query?: string;
+  shape?: PresetShape;
+  /** Smallest allowed shorter side, in exported pixels */
+  minSize?: number;
+}
+
+// Aspect ratios this close to 1 count as square
+const SQUARE_TOLERANCE = 0.01;
+
+export function getPresetShape(preset: CropPreset): PresetShape {
+  if (Math.abs(preset.aspectRatio - 1) <= SQUARE_TOLERANCE) return 'square';
+  return preset.aspectRatio > 1 ? 'landscape' : 'portrait';
+}
+
+/**
+ * Presets matching every part of `filter`. With a query, presets whose name
+ * matches come before those that only match on description or category.
+ */
+export function filterPresets(presets: CropPreset[], filter: PresetFilter): CropPreset[] {
+  const words = (filter.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = (text: string) => words.every(word => text.toLowerCase().includes(word));
+
+  const filtered = presets.filter(preset => {
+    if (filter.shape && getPresetShape(preset) !== filter.shape) return false;
+    if (filter.minSize) {
+      const size = getPresetPixelSize(preset);
+      if (Math.min(size.width, size.height) < filter.minSize) return false;
+    }
+    return matches(`${preset.name} ${preset.description ?? ''} ${preset.category}`);
+  });
+
+  if (words.length === 0) return filtered;
+  return [...filtered.filter(preset => matches(preset.name)), ...filtered.filter(preset => !matches(preset.name))];
+}
+
+// Favorites and recently used presets, by name
+export const PRESET_PICKS_STORAGE_KEY = 'image-cropper:preset-picks';
+
+export const RECENT_PRESETS_LIMIT = 8;
+
+export interface PresetPicks {
+  favorites: string[];
+  /** Most recent first */
+  recent: string[];
+}
+
+export function addRecentPreset(recent: string[], name: string): string[] {
+  return [name, ...recent.filter(existing => existing !== name)].slice(0, RECENT_PRESETS_LIMIT);
+}
+
+const readNames = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((name): name is string => typeof name === 'string') : [];
+
+/**
+ * Saved favorites and recent presets. Anything unreadable is dropped rather
+ * than reported, as the lists are easy to rebuild.
+ */
+export function loadPresetPicks(storage: Storage): PresetPicks {
+  let saved: unknown = null;
+  try {
+    saved = JSON.parse(storage.getItem(PRESET_PICKS_STORAGE_KEY) ?? 'null');
+  } catch {
+    // Fall through to empty lists
+  }
+  return isRecord(saved)
+    ? { favorites: readNames(saved.favorites), recent: readNames(saved.recent).slice(0, RECENT_PRESETS_LIMIT) }
+    : { favorites: [], recent: [] };
+}
+
+export function savePresetPicks(storage: Storage, picks: PresetPicks) {
+  storage.setItem(PRESET_PICKS_STORAGE_KEY, JSON.stringify(picks));
+}
@@ -0,0 +1,93 @@
+import { createPixelBuffer } from './cropUtils';
+import { layoutSheet, renderSheet, type SheetOptions } from './printSheet';
+
+const passportOn4x6: SheetOptions = {
+  paper: { width: 4, height: 6, unit: 'in' },
+  photo: { width: 35, height: 45, unit: 'mm' },
+  margin: 3,
+  gutter: 2,
+  dpi: 300,
+  cutMarks: false,
+};
+
+const solid = (width: number, height: number, value: number) => {
+  const pixels = createPixelBuffer(width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) pixels.data.set([value, value, value, 255], i);
+  return pixels;
+};
+
+const pixelAt = (pixels: ReturnType<typeof createPixelBuffer>, x: number, y: number) =>
+  pixels.data[(y * pixels.width + x) * 4];
+
+describe('layoutSheet', () => {
+  it('turns the paper when that fits more photos', () => {
+    const layout = layoutSheet(passportOn4x6);
+    expect(layout).toMatchObject({ width: 1800, height: 1200, photoWidth: 413, photoHeight: 531, columns: 4, rows: 2 });
+    expect(layout.cells).toHaveLength(8);
+  });
+
+  it('centers the grid and spaces photos by the gutter', () => {
+    const { cells } = layoutSheet(passportOn4x6);
+    // 4 × 413 px photos and 3 × 24 px gutters leave 76 px of the 1800; 2 rows leave 114 of the 1200
+    expect(cells[0]).toEqual({ x: 38, y: 57 });
+    expect(cells[1]).toEqual({ x: 38 + 413 + 24, y: 57 });
+    expect(cells[4]).toEqual({ x: 38, y: 57 + 531 + 24 });
+  });
+
+  it('limits the number of copies', () => {
+    expect(layoutSheet({ ...passportOn4x6, copies: 3 }).cells).toHaveLength(3);
+    expect(layoutSheet({ ...passportOn4x6, copies: 20 }).cells).toHaveLength(8);
+  });
+
+  it('fits nothing when the photo is larger than the paper', () => {
+    const layout = layoutSheet({ ...passportOn4x6, photo: { width: 8, height: 10, unit: 'in' } });
+    expect(layout.cells).toEqual([]);
+  });
+});
+
+describe('renderSheet', () => {
+  const options: SheetOptions = {
+    paper: { width: 1, height: 1, unit: 'in' },
+    photo: { width: 0.4, height: 0.4, unit: 'in' },
+    margin: 0,
+    gutter: 0,
+    dpi: 100,
+    cutMarks: false,
+  };
+
+  it('tiles the photo on white paper', () => {
+    const layout = layoutSheet(options);
+    expect(layout.cells).toEqual([{ x: 10, y: 10 }, { x: 50, y: 10 }, { x: 10, y: 50 }, { x: 50, y: 50 }]);
+
+    const sheet = renderSheet(solid(40, 40, 0), layout, options);
+    expect([sheet.width, sheet.height]).toEqual([100, 100]);
+    expect(pixelAt(sheet, 5, 5)).toBe(255);
+    expect(pixelAt(sheet, 10, 10)).toBe(0);
+    expect(pixelAt(sheet, 89, 89)).toBe(0);
+    expect(pixelAt(sheet, 90, 90)).toBe(255);
+  });
+
+  it('draws cut marks outside the photos', () => {
+    const layout = layoutSheet(options);
+    const sheet = renderSheet(solid(40, 40, 128), layout, { ...options, cutMarks: true });
+    // Vertical mark above the left edge of the first column, 1 mm clear of the photo
+    expect(pixelAt(sheet, 10, 5)).toBe(0);
+    expect(pixelAt(sheet, 10, 9)).toBe(255);
+    // Horizontal mark right of the bottom row's top edge
+    expect(pixelAt(sheet, 95, 50)).toBe(0);
+    expect(pixelAt(sheet, 50, 50)).toBe(128);
+  });
+
+  it('prints transparent areas as paper', () => {
+    const layout = layoutSheet(options);
+    const photo = solid(40, 40, 0);
+    photo.data[3] = 0;
+    const sheet = renderSheet(photo, layout, options);
+    expect(Array.from(sheet.data.subarray((10 * 100 + 10) * 4, (10 * 100 + 11) * 4))).toEqual([255, 255, 255, 255]);
+  });
+
+  it('requires the photo at its printed size', () => {
+    const layout = layoutSheet(options);
+    expect(() => renderSheet(solid(20, 20, 0), layout, options)).toThrow('Photo must be 40×40 pixels');
+  });
+});
@@ -0,0 +1,167 @@
+import { createPixelBuffer, type PixelBuffer } from './cropUtils';
+import { MM_PER_INCH, toPixels, type LengthUnit } from './units';
+
+/**
+ * Print sheets: copies of one photo tiled onto a sheet of paper at their
+ * physical size, e.g. six passport photos on a 4×6 print.
+ */
+
+export interface PhysicalSize {
+  width: number;
+  height: number;
+  unit: LengthUnit;
+}
+
+export interface SheetOptions {
+  paper: PhysicalSize;
+  photo: PhysicalSize;
+  /** Space kept clear along every paper edge, in mm */
+  margin: number;
+  /** Space between neighbouring photos, in mm */
+  gutter: number;
+  dpi: number;
+  /** Upper limit on the number of photos; the sheet is filled when omitted */
+  copies?: number;
+  cutMarks: boolean;
+}
+
+export interface SheetCell {
+  x: number;
+  y: number;
+}
+
+export interface SheetLayout {
+  /** Sheet size in pixels; portrait or landscape, whichever fits more photos */
+  width: number;
+  height: number;
+  photoWidth: number;
+  photoHeight: number;
+  columns: number;
+  rows: number;
+  /** Top-left corner of each photo, row by row */
+  cells: SheetCell[];
+}
+
+// Sheet resolutions offered; at 1200 DPI a US Letter sheet is already about 135 megapixels
+export const MIN_SHEET_DPI = 72;
+export const MAX_SHEET_DPI = 1200;
+
+const CUT_MARK_LENGTH_MM = 4;
+const CUT_MARK_OFFSET_MM = 1;
+
+// Unlike toPixels, lets margins and gutters be zero
+const mmToPixels = (mm: number, dpi: number) => Math.max(0, Math.round((mm / MM_PER_INCH) * dpi));
+
+const fit = (available: number, size: number, gutter: number) =>
+  Math.max(0, Math.floor((available + gutter) / (size + gutter)));
+
+/**
+ * Works out how many photos fit on the sheet and where they go. The grid is
+ * centered within the margins.
+ */
+export function layoutSheet(options: SheetOptions): SheetLayout {
+  const { paper, photo, dpi } = options;
+  const photoWidth = toPixels(photo.width, photo.unit, dpi);
+  const photoHeight = toPixels(photo.height, photo.unit, dpi);
+  const margin = mmToPixels(options.margin, dpi);
+  const gutter = mmToPixels(options.gutter, dpi);
+  const portrait = [toPixels(paper.width, paper.unit, dpi), toPixels(paper.height, paper.unit, dpi)];
+
+  const candidates = [portrait, [portrait[1], portrait[0]]].map(([width, height]) => ({
+    width,
+    height,
+    columns: fit(width - 2 * margin, photoWidth, gutter),
+    rows: fit(height - 2 * margin, photoHeight, gutter),
+  }));
+  const best = candidates[1].columns * candidates[1].rows > candidates[0].columns * candidates[0].rows
+    ? candidates[1]
+    : candidates[0];
+
+  const capacity = best.columns * best.rows;
+  const count = options.copies !== undefined ? Math.min(capacity, Math.max(0, Math.floor(options.copies))) : capacity;
+  const gridWidth = best.columns * photoWidth + Math.max(0, best.columns - 1) * gutter;
+  const gridHeight = best.rows * photoHeight + Math.max(0, best.rows - 1) * gutter;
+  const left = Math.floor((best.width - gridWidth) / 2);
+  const top = Math.floor((best.height - gridHeight) / 2);
+
+  const cells: SheetCell[] = [];
+  for (let i = 0; i < count; i++) {
+    const column = i % best.columns;
+    const row = Math.floor(i / best.columns);
+    cells.push({ x: left + column * (photoWidth + gutter), y: top + row * (photoHeight + gutter) });
+  }
+
+  return { width: best.width, height: best.height, photoWidth, photoHeight, columns: best.columns, rows: best.rows, cells };
+}
+
+function fillRect(target: PixelBuffer, x: number, y: number, width: number, height: number, value: number) {
+  const x0 = Math.max(0, x);
+  const y0 = Math.max(0, y);
+  const x1 = Math.min(target.width, x + width);
+  const y1 = Math.min(target.height, y + height);
+  for (let row = y0; row < y1; row++) {
+    for (let column = x0; column < x1; column++) {
+      target.data.set([value, value, value, 255], (row * target.width + column) * 4);
+    }
+  }
+}
+
+/**
+ * Short lines in the margins lining up with every photo edge, so the sheet can
+ * be cut with a ruler. Marks stop short of the photos and never cross them.
+ */
+function drawCutMarks(sheet: PixelBuffer, layout: SheetLayout, dpi: number) {
+  if (layout.cells.length === 0) return;
+
+  const length = mmToPixels(CUT_MARK_LENGTH_MM, dpi);
+  const offset = mmToPixels(CUT_MARK_OFFSET_MM, dpi);
+  const thickness = Math.max(1, Math.round(dpi / 150));
+  const left = Math.min(...layout.cells.map(cell => cell.x));
+  const top = Math.min(...layout.cells.map(cell => cell.y));
+  const right = Math.max(...layout.cells.map(cell => cell.x)) + layout.photoWidth;
+  const bottom = Math.max(...layout.cells.map(cell => cell.y)) + layout.photoHeight;
+
+  const edgesX = new Set(layout.cells.flatMap(cell => [cell.x, cell.x + layout.photoWidth - thickness]));
+  const edgesY = new Set(layout.cells.flatMap(cell => [cell.y, cell.y + layout.photoHeight - thickness]));
+  for (const x of edgesX) {
+    fillRect(sheet, x, top - offset - length, thickness, length, 0);
+    fillRect(sheet, x, bottom + offset, thickness, length, 0);
+  }
+  for (const y of edgesY) {
+    fillRect(sheet, left - offset - length, y, length, thickness, 0);
+    fillRect(sheet, right + offset, y, length, thickness, 0);
+  }
+}
+
+/**
+ * Renders the sheet on white paper.
+ *
+ * @param photo - The cropped photo, already at `layout.photoWidth` × `layout.photoHeight`
+ */
+export function renderSheet(photo: PixelBuffer, layout: SheetLayout, options: Pick<SheetOptions, 'dpi' | 'cutMarks'>): PixelBuffer {
+  if (photo.width !== layout.photoWidth || photo.height !== layout.photoHeight) {
+    throw new Error(`Photo must be ${layout.photoWidth}×${layout.photoHeight} pixels`);
+  }
+
+  const sheet = createPixelBuffer(layout.width, layout.height);
+  sheet.data.fill(255);
+
+  // Transparent areas, e.g. the corners of an expanded rotation, print as paper
+  const opaque = new Uint8ClampedArray(photo.data.length);
+  for (let i = 0; i < photo.data.length; i += 4) {
+    const alpha = photo.data[i + 3] / 255;
+    for (let c = 0; c < 3; c++) opaque[i + c] = photo.data[i + c] * alpha + 255 * (1 - alpha);
+    opaque[i + 3] = 255;
+  }
+
+  const rowBytes = photo.width * 4;
+  for (const cell of layout.cells) {
+    for (let y = 0; y < photo.height; y++) {
+      const start = y * rowBytes;
+      sheet.data.set(opaque.subarray(start, start + rowBytes), ((cell.y + y) * sheet.width + cell.x) * 4);
+    }
+  }
+
+  if (options.cutMarks) drawCutMarks(sheet, layout, options.dpi);
+  return sheet;
+}
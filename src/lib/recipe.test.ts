@@ -0,0 +1,67 @@
+import { DEFAULT_ADJUSTMENTS, DEFAULT_CROP_TRANSFORM, resolvePixelCrop } from './cropUtils';
+import { createRecipe, fitsRecipe, parseRecipe, serializeRecipe, toRelativeCrop } from './recipe';
+
+const frame = { width: 2000, height: 1000 };
+const transform = {
+  ...DEFAULT_CROP_TRANSFORM,
+  crop: { unit: 'px' as const, x: 400, y: 200, width: 1000, height: 500 },
+  rotation: 90,
+  flipHorizontal: true,
+  adjustments: { ...DEFAULT_ADJUSTMENTS, brightness: 110, contrast: 95, saturation: 120 },
+  filter: 'clarendon',
+};
+const output = { format: 'webp' as const, quality: 0.8, scale: 1 };
+
+describe('toRelativeCrop', () => {
+  it('selects the same source pixels at any zoom', () => {
+    for (const zoom of [1, 2]) {
+      const relative = toRelativeCrop({ ...transform.crop }, zoom, frame);
+      expect(relative.unit).toBe('%');
+      expect(resolvePixelCrop(relative, zoom, frame.width, frame.height))
+        .toEqual(resolvePixelCrop(transform.crop, zoom, frame.width, frame.height));
+    }
+  });
+
+  it('leaves percent crops alone', () => {
+    const crop = { unit: '%' as const, x: 10, y: 10, width: 50, height: 50 };
+    expect(toRelativeCrop(crop, 2, frame)).toBe(crop);
+  });
+});
+
+describe('recipes', () => {
+  const recipe = createRecipe({ transform, aspect: 2, preset: 'Facebook Cover' }, frame, output, [
+    { ...output, label: 'Large', enabled: true, width: 1640 },
+  ]);
+
+  it('stores the crop in percent of the frame', () => {
+    expect(recipe.transform).toEqual({ ...transform, crop: { unit: '%', x: 20, y: 20, width: 50, height: 50 } });
+    expect(recipe).toMatchObject({ version: 1, aspect: 2, preset: 'Facebook Cover', source: frame });
+  });
+
+  it('round-trips through JSON', () => {
+    expect(parseRecipe(JSON.parse(serializeRecipe(recipe)))).toEqual(recipe);
+  });
+
+  it('rejects invalid recipes', () => {
+    expect(() => parseRecipe({ ...recipe, version: 2 })).toThrow('Unsupported recipe version 2');
+    expect(() => parseRecipe({ ...recipe, transform: transform })).toThrow('"crop.unit" must be "%" in a recipe');
+    expect(() => parseRecipe({ ...recipe, aspect: 0 })).toThrow('"aspect" must be a positive number or null');
+    expect(() => parseRecipe({ ...recipe, output: { format: 'gif' } })).toThrow('"format" must be one of');
+    expect(() => parseRecipe({ ...recipe, versions: [{ format: 'png' }] })).toThrow('Version 1 needs a "label" and "enabled"');
+  });
+
+  it('fills in defaults for optional parts', () => {
+    expect(parseRecipe({ version: 1, transform: { crop: { unit: '%', width: 100, height: 100 } } })).toEqual({
+      version: 1,
+      transform: { ...DEFAULT_CROP_TRANSFORM, crop: { unit: '%', x: 0, y: 0, width: 100, height: 100 } },
+      aspect: null,
+      preset: null,
+      output: { format: 'jpeg', quality: 0.92, scale: 1 },
+    });
+  });
+
+  it('notices images with other proportions', () => {
+    expect(fitsRecipe(recipe, { width: 1000, height: 500 })).toBe(true);
+    expect(fitsRecipe(recipe, { width: 1000, height: 1000 })).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  parseCropOutput,
+  parseCropTransform,
+  resolvePixelCrop,
+  type CropOutput,
+  type CropRegion,
+  type CropTransform,
+} from './cropUtils';
+
+/**
+ * Crop recipes: a saved edit that can be applied to other images. The crop is
+ * stored in percent of the rotated frame, so it selects the same part of any
+ * image with the same proportions.
+ */
+export const RECIPE_VERSION = 1;
+
+/** One of several output versions, as in the editor's Multiple Outputs list */
+export interface RecipeVersion extends CropOutput {
+  label: string;
+  enabled: boolean;
+}
+
+export interface CropRecipe {
+  version: typeof RECIPE_VERSION;
+  /** The edit, with `crop` in percent */
+  transform: CropTransform;
+  /** Locked aspect ratio of the crop */
+  aspect: number | null;
+  preset: string | null;
+  output: CropOutput;
+  /** Output versions, when several are exported at once */
+  versions?: RecipeVersion[];
+  /** Size of the rotated frame the recipe was made on */
+  source?: { width: number; height: number };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Converts a crop to percent of the frame, selecting the same source pixels.
+ */
+export function toRelativeCrop(region: CropRegion, zoom: number, frame: { width: number; height: number }): CropRegion {
+  if (region.unit === '%') return region;
+  const crop = resolvePixelCrop(region, zoom, frame.width, frame.height);
+  return {
+    unit: '%',
+    x: (crop.x / frame.width) * 100,
+    y: (crop.y / frame.height) * 100,
+    width: (crop.width / frame.width) * 100,
+    height: (crop.height / frame.height) * 100,
+  };
+}
+
+/**
+ * Captures an edit made on an image whose rotated frame is `frame`.
+ */
+export function createRecipe(
+  edit: { transform: CropTransform; aspect?: number | null; preset?: string | null },
+  frame: { width: number; height: number },
+  output: CropOutput,
+  versions?: RecipeVersion[]
+): CropRecipe {
+  const { transform } = edit;
+  return {
+    version: RECIPE_VERSION,
+    transform: { ...transform, crop: toRelativeCrop(transform.crop, transform.zoom, frame) },
+    aspect: edit.aspect ?? null,
+    preset: edit.preset ?? null,
+    output,
+    ...(versions ? { versions } : {}),
+    source: { width: Math.round(frame.width), height: Math.round(frame.height) },
+  };
+}
+
+/**
+ * Validates a recipe file. Error messages say which part is wrong.
+ */
+export function parseRecipe(input: unknown): CropRecipe {
+  if (!isRecord(input)) throw new Error('Recipe must be an object');
+  if (input.version !== RECIPE_VERSION) {
+    throw new Error(`Unsupported recipe version ${JSON.stringify(input.version)}`);
+  }
+
+  const transform = parseCropTransform(input.transform);
+  if (transform.crop.unit !== '%') throw new Error('"crop.unit" must be "%" in a recipe');
+
+  const aspect = input.aspect ?? null;
+  if (aspect !== null && (typeof aspect !== 'number' || !(aspect > 0))) {
+    throw new Error('"aspect" must be a positive number or null');
+  }
+  const preset = input.preset ?? null;
+  if (preset !== null && typeof preset !== 'string') throw new Error('"preset" must be a string or null');
+
+  const recipe: CropRecipe = { version: RECIPE_VERSION, transform, aspect, preset, output: parseCropOutput(input.output) };
+
+  if (input.versions !== undefined) {
+    if (!Array.isArray(input.versions)) throw new Error('"versions" must be a list');
+    recipe.versions = input.versions.map((version, index) => {
+      if (!isRecord(version) || typeof version.label !== 'string' || typeof version.enabled !== 'boolean') {
+        throw new Error(`Version ${index + 1} needs a "label" and "enabled"`);
+      }
+      return { ...parseCropOutput(version), label: version.label, enabled: version.enabled };
+    });
+  }
+
+  const { source } = input;
+  if (source !== undefined) {
+    if (!isRecord(source) || typeof source.width !== 'number' || typeof source.height !== 'number'
+      || !(source.width > 0) || !(source.height > 0)) {
+      throw new Error('"source" must have a positive width and height');
+    }
+    recipe.source = { width: source.width, height: source.height };
+  }
+  return recipe;
+}
+
+export function serializeRecipe(recipe: CropRecipe): string {
+  return JSON.stringify(recipe, null, 2);
+}
+
+/**
+ * Whether a recipe's crop keeps its shape on a frame: percent crops stretch
+ * when the proportions differ from the image the recipe was made on.
+ */
+export function fitsRecipe(recipe: CropRecipe, frame: { width: number; height: number }): boolean {
+  if (!recipe.source) return true;
+  const expected = recipe.source.width / recipe.source.height;
+  return Math.abs(frame.width / frame.height - expected) / expected <= 0.01;
+}
@@ -0,0 +1,35 @@
+import { DEFAULT_CROP_TRANSFORM } from './cropUtils';
+import { parseStoredSession, pruneSessions, type StoredSession } from './sessionStore';
+
+const session = (id: string, updatedAt: number): StoredSession => ({
+  id,
+  name: `${id}.jpg`,
+  thumbnail: null,
+  edit: { transform: DEFAULT_CROP_TRANSFORM, aspect: null, preset: null },
+  updatedAt,
+});
+
+describe('parseStoredSession', () => {
+  it('reads a saved session', () => {
+    const saved = { ...session('a', 1), edit: { transform: DEFAULT_CROP_TRANSFORM, aspect: 1.5, preset: 'Instagram Post' } };
+    expect(parseStoredSession(JSON.parse(JSON.stringify(saved)))).toEqual(saved);
+  });
+
+  it('rejects damaged records', () => {
+    expect(() => parseStoredSession(null)).toThrow('Session must be an object');
+    expect(() => parseStoredSession({ ...session('a', 1), id: '' })).toThrow('"id" must be a non-empty string');
+    expect(() => parseStoredSession({ ...session('a', 1), updatedAt: 'yesterday' })).toThrow('"updatedAt" must be a number');
+    expect(() => parseStoredSession({ ...session('a', 1), edit: { transform: DEFAULT_CROP_TRANSFORM, aspect: -1 } }))
+      .toThrow('"aspect" must be a positive number or null');
+    expect(() => parseStoredSession({ ...session('a', 1), edit: { transform: { ...DEFAULT_CROP_TRANSFORM, zoom: 0 } } }))
+      .toThrow('"zoom"');
+  });
+});
+
+describe('pruneSessions', () => {
+  it('keeps the newest sessions', () => {
+    const { kept, removed } = pruneSessions([session('a', 1), session('b', 3), session('c', 2)], 2);
+    expect(kept.map(item => item.id)).toEqual(['b', 'c']);
+    expect(removed.map(item => item.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,161 @@
+import { parseCropTransform, type CropTransform } from './cropUtils';
+
+/**
+ * Work in progress kept in IndexedDB, so a reload or a stray "Change Image"
+ * doesn't lose it. Each session is one image and its edit. Images are stored
+ * apart from the session records, which change with every edit.
+ */
+export const SESSION_DB_NAME = 'image-cropper';
+export const RECENT_SESSIONS_LIMIT = 6;
+
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const IMAGES_STORE = 'images';
+
+export interface SessionEdit {
+  transform: CropTransform;
+  aspect: number | null;
+  preset: string | null;
+}
+
+export interface StoredSession {
+  id: string;
+  name: string;
+  /** Small JPEG data URL shown in the recent images list */
+  thumbnail: string | null;
+  edit: SessionEdit;
+  /** Milliseconds since the epoch */
+  updatedAt: number;
+}
+
+export interface SessionStore {
+  /** Sessions newest first, without their images */
+  list(): Promise<StoredSession[]>;
+  /** Image of a session as shown in the editor: an upright data URL, or the URL it was loaded from */
+  getImage(id: string): Promise<string | null>;
+  /** Saves a session; its image is written only when given */
+  save(session: StoredSession, image?: string): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a session record, e.g. one written by an older version.
+ */
+export function parseStoredSession(input: unknown): StoredSession {
+  if (!isRecord(input)) throw new Error('Session must be an object');
+  if (typeof input.id !== 'string' || input.id === '') throw new Error('"id" must be a non-empty string');
+  if (typeof input.name !== 'string') throw new Error('"name" must be a string');
+  if (input.thumbnail !== null && typeof input.thumbnail !== 'string') {
+    throw new Error('"thumbnail" must be a string or null');
+  }
+  if (typeof input.updatedAt !== 'number' || !Number.isFinite(input.updatedAt)) {
+    throw new Error('"updatedAt" must be a number');
+  }
+
+  const { edit } = input;
+  if (!isRecord(edit)) throw new Error('"edit" must be an object');
+  const aspect = edit.aspect ?? null;
+  if (aspect !== null && (typeof aspect !== 'number' || !(aspect > 0))) {
+    throw new Error('"aspect" must be a positive number or null');
+  }
+  const preset = edit.preset ?? null;
+  if (preset !== null && typeof preset !== 'string') throw new Error('"preset" must be a string or null');
+
+  return {
+    id: input.id,
+    name: input.name,
+    thumbnail: input.thumbnail,
+    edit: { transform: parseCropTransform(edit.transform), aspect, preset },
+    updatedAt: input.updatedAt,
+  };
+}
+
+/**
+ * Sorts sessions newest first and splits off the ones past the limit.
+ */
+export function pruneSessions(sessions: StoredSession[], limit = RECENT_SESSIONS_LIMIT) {
+  const sorted = [...sessions].sort((a, b) => b.updatedAt - a.updatedAt);
+  return { kept: sorted.slice(0, limit), removed: sorted.slice(limit) };
+}
+
+export function createSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+/**
+ * Opens the session database. Sessions beyond `RECENT_SESSIONS_LIMIT` are
+ * deleted, with their images, whenever one is saved.
+ */
+export async function openSessionStore(factory: IDBFactory = indexedDB): Promise<SessionStore> {
+  const open = factory.open(SESSION_DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    const db = open.result;
+    if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(IMAGES_STORE)) db.createObjectStore(IMAGES_STORE);
+  };
+  const db = await requestResult(open);
+
+  const list = async () => {
+    const records = await requestResult(
+      db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).getAll()
+    );
+    // Unreadable records are skipped rather than breaking the list
+    const sessions = records.flatMap(record => {
+      try {
+        return [parseStoredSession(record)];
+      } catch {
+        return [];
+      }
+    });
+    return pruneSessions(sessions, Infinity).kept;
+  };
+
+  const removeAll = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const transaction = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readwrite');
+    for (const id of ids) {
+      transaction.objectStore(SESSIONS_STORE).delete(id);
+      transaction.objectStore(IMAGES_STORE).delete(id);
+    }
+    await transactionDone(transaction);
+  };
+
+  return {
+    list,
+
+    getImage: async id => {
+      const image = await requestResult(
+        db.transaction(IMAGES_STORE, 'readonly').objectStore(IMAGES_STORE).get(id)
+      );
+      return typeof image === 'string' ? image : null;
+    },
+
+    save: async (session, image) => {
+      const transaction = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readwrite');
+      transaction.objectStore(SESSIONS_STORE).put(session);
+      if (image !== undefined) transaction.objectStore(IMAGES_STORE).put(image, session.id);
+      await transactionDone(transaction);
+
+      const { removed } = pruneSessions(await list());
+      await removeAll(removed.map(stale => stale.id));
+    },
+
+    remove: id => removeAll([id]),
+  };
+}
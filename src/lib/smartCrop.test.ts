@@ -0,0 +1,67 @@
+import { createPixelBuffer } from './cropUtils';
+import { getSaliency, isSkinTone, suggestCrops } from './smartCrop';
+
+type Color = [number, number, number];
+
+function image(width: number, height: number, color: (x: number, y: number) => Color) {
+  const pixels = createPixelBuffer(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels.data.set([...color(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return pixels;
+}
+
+const SKIN: Color = [224, 172, 140];
+const GREY: Color = [128, 128, 128];
+
+describe('isSkinTone', () => {
+  it('tells skin from other colors', () => {
+    expect([SKIN, [141, 85, 36], [255, 219, 172]].every(([r, g, b]) => isSkinTone(r, g, b))).toBe(true);
+    expect([GREY, [40, 90, 200], [30, 160, 60]].some(([r, g, b]) => isSkinTone(r, g, b))).toBe(false);
+  });
+});
+
+describe('getSaliency', () => {
+  it('scores edges and skin but not plain areas', () => {
+    const map = getSaliency(image(10, 10, x => (x < 5 ? GREY : SKIN)));
+    expect(map.data[0]).toBe(0);
+    expect(map.data[4]).toBeGreaterThan(0);
+    expect(map.data[9]).toBeGreaterThan(map.data[4]);
+  });
+});
+
+describe('suggestCrops', () => {
+  it('keeps the face in a portrait instead of centering', () => {
+    // A face near the top of a tall image; the centered square would cut off its top
+    const portrait = image(100, 150, (x, y) => (Math.hypot(x - 50, y - 30) < 15 ? SKIN : GREY));
+    const [best] = suggestCrops(portrait, { aspect: 1 });
+    expect(best.y * 150).toBeLessThanOrEqual(15);
+    expect((best.y + best.height) * 150).toBeGreaterThanOrEqual(45);
+  });
+
+  it('follows an off-center product', () => {
+    const product = image(300, 100, (x, y) => (x >= 20 && x < 60 && y >= 30 && y < 70 ? [200, 30, 30] : [255, 255, 255]));
+    const [best] = suggestCrops(product, { aspect: 1 });
+    expect(best.x * 300).toBeLessThanOrEqual(20);
+    expect((best.x + best.width) * 300).toBeGreaterThanOrEqual(60);
+  });
+
+  it('ranks distinct suggestions best first', () => {
+    const scene = image(300, 100, x => (x % 50 < 25 ? GREY : [90, 140, 60]));
+    const suggestions = suggestCrops(scene, { aspect: 1, count: 3 });
+    expect(suggestions).toHaveLength(3);
+    expect(suggestions.map(suggestion => suggestion.score)).toEqual(
+      [...suggestions.map(suggestion => suggestion.score)].sort((a, b) => b - a)
+    );
+    for (const suggestion of suggestions) {
+      expect(suggestion.width * 300).toBeCloseTo(suggestion.height * 100, 0);
+    }
+  });
+
+  it('centers the largest crop on a plain image', () => {
+    const [best] = suggestCrops(image(200, 100, () => GREY), { aspect: 1 });
+    expect(best).toMatchObject({ x: 0.25, y: 0, width: 0.5, height: 1 });
+  });
+});
@@ -0,0 +1,201 @@
+import type { PixelBuffer } from './cropUtils';
+
+/**
+ * Smart crop: finds the parts of an image worth keeping and proposes crops of
+ * a given aspect ratio around them. Everything runs on the pixels, with no
+ * model or network access, so it works offline. Works best on a small sample
+ * of the image (a few hundred pixels across).
+ */
+
+/**
+ * A proposed crop in fractions of the analysed image (0–1), best first.
+ */
+export interface CropSuggestion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Higher is better; only meaningful relative to other suggestions for the same image */
+  score: number;
+}
+
+export interface SmartCropOptions {
+  /** Width/height of the crop in pixels */
+  aspect: number;
+  /** Number of suggestions; defaults to 3 */
+  count?: number;
+  /** Crop sizes tried, relative to the largest crop that fits; defaults to 100%, 80% and 60% */
+  scales?: number[];
+}
+
+/** Importance of each pixel, in rows like the pixel buffer */
+export interface SaliencyMap {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+// Skin counts for more than detail so faces stay in the crop even when smooth
+const EDGE_WEIGHT = 1;
+const SKIN_WEIGHT = 1.5;
+const SATURATION_WEIGHT = 0.3;
+// Favors tighter crops around the subject over crops that merely contain it
+const DENSITY_WEIGHT = 0.25;
+// Penalizes crops whose edges cut through important areas, e.g. across a face
+const CUT_WEIGHT = 0.5;
+// Breaks ties towards the center, so plain images get the centered crop
+const CENTER_WEIGHT = 0.01;
+// Suggestions overlapping a better one more than this are dropped
+const MAX_OVERLAP = 0.5;
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Skin tones by their chroma (YCbCr), which holds across skin colors and
+ * lighting better than RGB thresholds.
+ */
+export function isSkinTone(r: number, g: number, b: number): boolean {
+  const y = luma(r, g, b);
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 40 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+/**
+ * Scores every pixel by edge strength, skin tone and saturation. Transparent
+ * pixels score nothing.
+ */
+export function getSaliency(pixels: PixelBuffer): SaliencyMap {
+  const { width, height, data } = pixels;
+  const lumas = new Float32Array(width * height);
+  for (let i = 0; i < lumas.length; i++) {
+    lumas[i] = luma(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+
+  const saliency = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const alpha = data[i * 4 + 3] / 255;
+      if (alpha === 0) continue;
+
+      const dx = lumas[y * width + Math.min(width - 1, x + 1)] - lumas[y * width + Math.max(0, x - 1)];
+      const dy = lumas[Math.min(height - 1, y + 1) * width + x] - lumas[Math.max(0, y - 1) * width + x];
+      const edge = Math.min(1, (Math.abs(dx) + Math.abs(dy)) / 255);
+
+      const r = data[i * 4];
+      const g = data[i * 4 + 1];
+      const b = data[i * 4 + 2];
+      const max = Math.max(r, g, b);
+      const saturation = max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+      const skin = isSkinTone(r, g, b) ? 1 : 0;
+
+      saliency[i] = alpha * (EDGE_WEIGHT * edge + SKIN_WEIGHT * skin + SATURATION_WEIGHT * saturation);
+    }
+  }
+  return { width, height, data: saliency };
+}
+
+// Summed-area table, so the saliency inside any rectangle is four lookups
+function createIntegral(map: SaliencyMap) {
+  const stride = map.width + 1;
+  const table = new Float64Array(stride * (map.height + 1));
+  for (let y = 0; y < map.height; y++) {
+    let row = 0;
+    for (let x = 0; x < map.width; x++) {
+      row += map.data[y * map.width + x];
+      table[(y + 1) * stride + x + 1] = table[y * stride + x + 1] + row;
+    }
+  }
+
+  return (x: number, y: number, width: number, height: number) => {
+    const x0 = Math.max(0, Math.min(map.width, x));
+    const y0 = Math.max(0, Math.min(map.height, y));
+    const x1 = Math.max(0, Math.min(map.width, x + width));
+    const y1 = Math.max(0, Math.min(map.height, y + height));
+    return table[y1 * stride + x1] - table[y0 * stride + x1] - table[y1 * stride + x0] + table[y0 * stride + x0];
+  };
+}
+
+// Offsets from 0 to `range` in steps, plus the centered one and the far edge
+const getPositions = (range: number, step: number) => {
+  const positions = new Set([Math.round(range / 2), range]);
+  for (let position = 0; position < range; position += step) positions.add(position);
+  return [...positions];
+};
+
+const overlap = (a: CropSuggestion, b: CropSuggestion) => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+/**
+ * Ranks crops of the given aspect ratio by how much of the image's important
+ * content they keep, how tightly they frame it and whether their edges cut
+ * through it. Suggestions that mostly overlap a better one are left out.
+ *
+ * @param pixels - The image as it is framed for cropping, i.e. already rotated
+ */
+export function suggestCrops(pixels: PixelBuffer, options: SmartCropOptions): CropSuggestion[] {
+  const { width, height } = pixels;
+  const count = options.count ?? 3;
+  const scales = options.scales ?? [1, 0.8, 0.6];
+  if (width === 0 || height === 0 || !(options.aspect > 0) || count <= 0) return [];
+
+  const map = getSaliency(pixels);
+  const sum = createIntegral(map);
+  const total = sum(0, 0, width, height);
+  const imageArea = width * height;
+
+  // The largest crop of this aspect ratio that fits
+  const fitWidth = Math.min(width, height * options.aspect);
+  const fitHeight = fitWidth / options.aspect;
+
+  const candidates: CropSuggestion[] = [];
+  for (const scale of scales) {
+    const cropWidth = Math.max(1, Math.round(fitWidth * scale));
+    const cropHeight = Math.max(1, Math.round(fitHeight * scale));
+    const band = Math.max(1, Math.round(Math.min(cropWidth, cropHeight) * 0.04));
+    const step = Math.max(1, Math.round(Math.min(width, height) / 40));
+
+    const positionsX = getPositions(width - cropWidth, step);
+    const positionsY = getPositions(height - cropHeight, step);
+
+    for (const y of positionsY) {
+      for (const x of positionsX) {
+        const inside = sum(x, y, cropWidth, cropHeight);
+        let score = 0;
+        if (total > 0) {
+          const coverage = inside / total;
+          const density = coverage / ((cropWidth * cropHeight) / imageArea);
+          // Saliency right along the crop's edges, on either side; image borders don't count
+          const ring = sum(x - band, y - band, cropWidth + 2 * band, cropHeight + 2 * band)
+            - sum(x + band, y + band, cropWidth - 2 * band, cropHeight - 2 * band);
+          const border = (x === 0 ? sum(0, y, band, cropHeight) : 0)
+            + (y === 0 ? sum(x, 0, cropWidth, band) : 0)
+            + (x + cropWidth === width ? sum(width - band, y, band, cropHeight) : 0)
+            + (y + cropHeight === height ? sum(x, height - band, cropWidth, band) : 0);
+          const cut = Math.max(0, ring - border) / total;
+          score = coverage * density ** DENSITY_WEIGHT - CUT_WEIGHT * cut;
+        }
+
+        const offsetX = (x + cropWidth / 2) / width - 0.5;
+        const offsetY = (y + cropHeight / 2) / height - 0.5;
+        score -= CENTER_WEIGHT * Math.hypot(offsetX, offsetY);
+
+        candidates.push({ x: x / width, y: y / height, width: cropWidth / width, height: cropHeight / height, score });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const suggestions: CropSuggestion[] = [];
+  for (const candidate of candidates) {
+    if (suggestions.length >= count) break;
+    if (suggestions.every(picked => overlap(picked, candidate) <= MAX_OVERLAP)) suggestions.push(candidate);
+  }
+  return suggestions;
+}
@@ -0,0 +1,47 @@
+import { getStraightenAngle, normalizeRotation, rotateOnScreen } from './straighten';
+
+describe('getStraightenAngle', () => {
+  it('levels a near-horizontal line', () => {
+    // Line falling 1 px over 20 px, drawn in either direction
+    expect(getStraightenAngle(0, 0, 20, 1)).toBeCloseTo(-2.86, 2);
+    expect(getStraightenAngle(20, 1, 0, 0)).toBeCloseTo(-2.86, 2);
+    expect(getStraightenAngle(0, 1, 20, 0)).toBeCloseTo(2.86, 2);
+  });
+
+  it('makes a near-vertical line upright', () => {
+    expect(getStraightenAngle(0, 0, 1, 20)).toBeCloseTo(2.86, 2);
+    expect(getStraightenAngle(1, 20, 0, 0)).toBeCloseTo(2.86, 2);
+  });
+
+  it('leaves level and upright lines alone', () => {
+    expect(getStraightenAngle(0, 5, 30, 5)).toBe(0);
+    expect(getStraightenAngle(5, 30, 5, 0)).toBe(0);
+  });
+
+  it('keeps sub-degree precision', () => {
+    expect(getStraightenAngle(0, 0, 200, 1)).toBe(-0.29);
+  });
+});
+
+describe('normalizeRotation', () => {
+  it('wraps into [0, 360)', () => {
+    expect(normalizeRotation(-90)).toBe(270);
+    expect(normalizeRotation(360)).toBe(0);
+    expect(normalizeRotation(-0.001)).toBe(0);
+    expect(normalizeRotation(725.5)).toBe(5.5);
+  });
+});
+
+describe('rotateOnScreen', () => {
+  const flips = (flipHorizontal: boolean, flipVertical: boolean) => ({ flipHorizontal, flipVertical });
+
+  it('adds the turn', () => {
+    expect(rotateOnScreen(0, 90, flips(false, false))).toBe(90);
+    expect(rotateOnScreen(0, -90, flips(false, false))).toBe(270);
+  });
+
+  it('mirrors the turn under a single flip', () => {
+    expect(rotateOnScreen(10, 90, flips(true, false))).toBe(280);
+    expect(rotateOnScreen(10, 90, flips(true, true))).toBe(100);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Angle helpers for the straighten tool. Angles are in degrees and positive
+ * clockwise, as on screen (y pointing down) and in CSS `rotate()`.
+ */
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Rotation that makes a line drawn from (x1, y1) to (x2, y2) level, or upright
+ * when it's closer to vertical. Always within ±45°.
+ */
+export function getStraightenAngle(x1: number, y1: number, x2: number, y2: number): number {
+  const angle = (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI;
+  const nearestAxis = Math.round(angle / 90) * 90;
+  return round(nearestAxis - angle) || 0;
+}
+
+/**
+ * Wraps an angle into [0, 360), rounded to hundredths of a degree.
+ */
+export function normalizeRotation(degrees: number): number {
+  return (((round(degrees) % 360) + 360) % 360) || 0;
+}
+
+/**
+ * The `rotation` value that turns the displayed image a further `degrees`
+ * clockwise. Flips are applied after rotating, so a single flip mirrors the
+ * direction of the turn.
+ */
+export function rotateOnScreen(
+  rotation: number,
+  degrees: number,
+  flips: { flipHorizontal: boolean; flipVertical: boolean },
+): number {
+  const mirrored = flips.flipHorizontal !== flips.flipVertical;
+  return normalizeRotation(rotation + (mirrored ? -degrees : degrees));
+}
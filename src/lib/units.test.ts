@@ -0,0 +1,22 @@
+import { formatSize, toPixels } from './units';
+
+describe('toPixels', () => {
+  it('converts millimetres and inches at the given resolution', () => {
+    expect(toPixels(35, 'mm', 300)).toBe(413);
+    expect(toPixels(45, 'mm', 300)).toBe(531);
+    expect(toPixels(4, 'in', 300)).toBe(1200);
+    expect(toPixels(210, 'mm', 96)).toBe(794);
+  });
+
+  it('defaults to 300 DPI and leaves pixels alone', () => {
+    expect(toPixels(6, 'in')).toBe(1800);
+    expect(toPixels(1080, 'px', 72)).toBe(1080);
+  });
+});
+
+describe('formatSize', () => {
+  it('adds physical units only', () => {
+    expect(formatSize(35, 45, 'mm')).toBe('35×45 mm');
+    expect(formatSize(1080, 1920, 'px')).toBe('1080×1920');
+  });
+});
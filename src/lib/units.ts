@@ -0,0 +1,28 @@
+/**
+ * Physical sizes for print: converting millimetres and inches to pixels at a
+ * given resolution.
+ */
+export type LengthUnit = 'px' | 'mm' | 'in';
+
+export const LENGTH_UNITS: LengthUnit[] = ['px', 'mm', 'in'];
+
+export const MM_PER_INCH = 25.4;
+
+// Resolution assumed for physical sizes when none is given; the usual minimum for photo prints
+export const DEFAULT_DPI = 300;
+
+/**
+ * Converts a length in `unit`s to whole pixels at `dpi`. Pixel lengths are only rounded.
+ */
+export function toPixels(value: number, unit: LengthUnit, dpi: number = DEFAULT_DPI): number {
+  if (unit === 'px') return Math.max(1, Math.round(value));
+  const inches = unit === 'mm' ? value / MM_PER_INCH : value;
+  return Math.max(1, Math.round(inches * dpi));
+}
+
+/**
+ * Formats a width × height pair with its unit, e.g. "35×45 mm".
+ */
+export function formatSize(width: number, height: number, unit: LengthUnit): string {
+  return unit === 'px' ? `${width}×${height}` : `${width}×${height} ${unit}`;
+}
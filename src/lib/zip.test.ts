@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+import { createExportArchive, uniqueFilename, type ExportedFile, type ExportManifest } from './exportArchive';
+import { crc32, createZip } from './zip';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// Reads stored entries back through the central directory
+function readZip(zip: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const entries = new Map<string, Uint8Array>();
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+    const local = view.getUint32(offset + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    const data = zip.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.set(name, data);
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  it('matches the reference checksum', () => {
+    expect(crc32(encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores each entry', () => {
+    const entries = readZip(createZip([
+      { name: 'a.txt', data: encode('hello') },
+      { name: 'folder/b.txt', data: encode('world') },
+    ]));
+    expect([...entries.keys()]).toEqual(['a.txt', 'folder/b.txt']);
+    expect(decode(entries.get('folder/b.txt')!)).toBe('world');
+  });
+
+  it('writes a valid empty archive', () => {
+    const zip = createZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip).size).toBe(0);
+  });
+});
+
+describe('createExportArchive', () => {
+  const file = (filename: string, text: string): ExportedFile => ({
+    filename,
+    dataUrl: `data:image/png;base64,${Buffer.from(text).toString('base64')}`,
+    source: 'photo.jpg',
+    preset: 'Instagram Post',
+    format: 'png',
+    quality: 0.92,
+    scale: 2,
+    width: 2160,
+    height: 2160,
+    dpi: null,
+  });
+
+  it('bundles the files with a manifest', async () => {
+    const blob = createExportArchive([file('photo-cropped.png', 'image')], new Date('2024-01-02T03:04:05Z'));
+    expect(blob.type).toBe('application/zip');
+
+    const entries = readZip(new Uint8Array(await blob.arrayBuffer()));
+    expect(decode(entries.get('photo-cropped.png')!)).toBe('image');
+
+    const manifest: ExportManifest = JSON.parse(decode(entries.get('manifest.json')!));
+    expect(manifest).toEqual({
+      version: 1,
+      createdAt: '2024-01-02T03:04:05.000Z',
+      files: [{
+        filename: 'photo-cropped.png',
+        source: 'photo.jpg',
+        preset: 'Instagram Post',
+        format: 'png',
+        quality: 0.92,
+        scale: 2,
+        width: 2160,
+        height: 2160,
+        dpi: null,
+      }],
+    });
+  });
+
+  it('renames duplicate filenames', async () => {
+    const blob = createExportArchive([file('out.png', 'a'), file('out.png', 'b')]);
+    const entries = readZip(new Uint8Array(await blob.arrayBuffer()));
+
+    expect([...entries.keys()]).toEqual(['out.png', 'out-2.png', 'manifest.json']);
+    const manifest: ExportManifest = JSON.parse(decode(entries.get('manifest.json')!));
+    expect(manifest.files.map(entry => entry.filename)).toEqual(['out.png', 'out-2.png']);
+
+    const named = createExportArchive([file('manifest.json', 'a')]);
+    expect([...readZip(new Uint8Array(await named.arrayBuffer())).keys()]).toEqual(['manifest-2.json', 'manifest.json']);
+  });
+});
+
+describe('uniqueFilename', () => {
+  it('numbers names already taken, keeping the extension', () => {
+    const taken = new Set<string>();
+    expect(['a.png', 'a.png', 'a.png', 'b', 'b'].map(name => uniqueFilename(name, taken)))
+      .toEqual(['a.png', 'a-2.png', 'a-3.png', 'b', 'b-2']);
+    expect(taken).toEqual(new Set(['a.png', 'a-2.png', 'a-3.png', 'b', 'b-2']));
+  });
+
+  it('keeps a leading dot as part of the name', () => {
+    expect(uniqueFilename('.png', new Set(['.png']))).toBe('.png-2');
+  });
+});
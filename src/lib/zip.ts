@@ -0,0 +1,125 @@
+/**
+ * Minimal ZIP writer. Entries are stored uncompressed, which is what we want
+ * for already-compressed JPEG/PNG/WebP files, and needs no dependencies.
+ */
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  lastModified?: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time fields, local time with 2-second resolution
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Builds a ZIP archive from the given entries.
+ * Throws if the archive would need ZIP64 (over 65535 entries or 4GB).
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`ZIP archives are limited to ${MAX_ENTRIES} entries`);
+  }
+
+  const encoder = new TextEncoder();
+  const records = entries.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    ...toDosDateTime(entry.lastModified ?? new Date()),
+  }));
+
+  const localSize = records.reduce((sum, record) => sum + 30 + record.name.length + record.data.length, 0);
+  const centralSize = records.reduce((sum, record) => sum + 46 + record.name.length, 0);
+  if (localSize + centralSize > MAX_SIZE) {
+    throw new Error('ZIP archives are limited to 4GB');
+  }
+
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  const offsets: number[] = [];
+  for (const record of records) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // Stored, no compression
+    view.setUint16(offset + 10, record.time, true);
+    view.setUint16(offset + 12, record.date, true);
+    view.setUint32(offset + 14, record.crc, true);
+    view.setUint32(offset + 18, record.data.length, true);
+    view.setUint32(offset + 22, record.data.length, true);
+    view.setUint16(offset + 26, record.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(record.name, offset + 30);
+    output.set(record.data, offset + 30 + record.name.length);
+    offset += 30 + record.name.length + record.data.length;
+  }
+
+  const centralOffset = offset;
+  records.forEach((record, index) => {
+    view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, record.time, true);
+    view.setUint16(offset + 14, record.date, true);
+    view.setUint32(offset + 16, record.crc, true);
+    view.setUint32(offset + 20, record.data.length, true);
+    view.setUint32(offset + 24, record.data.length, true);
+    view.setUint16(offset + 28, record.name.length, true);
+    // Extra field, comment, disk number, internal and external attributes are all zero
+    view.setUint32(offset + 42, offsets[index], true);
+    output.set(record.name, offset + 46);
+    offset += 46 + record.name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return output;
+}